@@ -0,0 +1,61 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useForgotPasswordForm } from "@/components/hooks/useForgotPasswordForm";
+
+const forgotPasswordFormSchema = z.object({
+  email: z.string().email("Nieprawidłowy format adresu e-mail").min(1, "Email jest wymagany"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordFormSchema>;
+
+export function ForgotPasswordForm() {
+  const { isLoading, error, message, handleSubmit } = useForgotPasswordForm();
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordFormSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  return (
+    <div>
+      {message && (
+        <div className="mb-4 p-3 text-sm border border-blue-300 bg-blue-50 text-blue-800 rounded-md">{message}</div>
+      )}
+
+      {error && <div className="mb-4 p-3 text-sm border border-red-300 bg-red-50 text-red-800 rounded-md">{error}</div>}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} method="POST" className="space-y-6">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input placeholder="jankowalski@example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? "Wysyłanie..." : "Wyślij link"}
+          </Button>
+        </form>
+      </Form>
+
+      <p className="mt-4 text-center text-sm">
+        <a href="/login" className="text-primary hover:underline">
+          Wróć do logowania
+        </a>
+      </p>
+    </div>
+  );
+}
@@ -13,8 +13,19 @@ const loginFormSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginFormSchema>;
 
-export function LoginForm() {
-  const { isLoading, error, handleSubmit: handleFormSubmit } = useLoginForm();
+interface LoginFormProps {
+  // Informacja o zakończonej sesji (wylogowanie, bezczynność)
+  notice?: string;
+  // Błąd poprzedniej próby logowania zgłoszony przez serwer (np. logowanie przez konto firmowe)
+  loginError?: string;
+  // Ścieżka, na którą wracamy po zalogowaniu
+  redirectTo?: string;
+  // Adres rozpoczynający logowanie przez konto firmowe; brak oznacza, że SSO nie jest skonfigurowane
+  ssoUrl?: string;
+}
+
+export function LoginForm({ notice, loginError, redirectTo, ssoUrl }: LoginFormProps) {
+  const { isLoading, error, handleSubmit: handleFormSubmit } = useLoginForm(redirectTo);
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginFormSchema),
     defaultValues: {
@@ -29,8 +40,14 @@ export function LoginForm() {
 
   return (
     <div>
-      {error && (
-        <div className="mb-4 p-3 text-sm border border-red-300 bg-red-50 text-red-800 rounded-md">{error.message}</div>
+      {notice && !error && !loginError && (
+        <div className="mb-4 p-3 text-sm border border-blue-300 bg-blue-50 text-blue-800 rounded-md">{notice}</div>
+      )}
+
+      {(error || loginError) && (
+        <div className="mb-4 p-3 text-sm border border-red-300 bg-red-50 text-red-800 rounded-md">
+          {error?.message ?? loginError}
+        </div>
       )}
 
       <Form {...form}>
@@ -54,7 +71,12 @@ export function LoginForm() {
             name="password"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Hasło</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Hasło</FormLabel>
+                  <a href="/forgot-password" className="text-sm text-primary hover:underline">
+                    Nie pamiętasz hasła?
+                  </a>
+                </div>
                 <FormControl>
                   <Input type="password" placeholder="••••••••" {...field} />
                 </FormControl>
@@ -68,6 +90,19 @@ export function LoginForm() {
           </Button>
         </form>
       </Form>
+
+      {ssoUrl && (
+        <>
+          <div className="my-6 flex items-center gap-3 text-xs uppercase text-gray-500">
+            <span className="h-px flex-1 bg-gray-200" />
+            lub
+            <span className="h-px flex-1 bg-gray-200" />
+          </div>
+          <Button variant="outline" className="w-full" asChild>
+            <a href={ssoUrl}>Zaloguj przez konto firmowe</a>
+          </Button>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,91 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useResetPasswordForm } from "@/components/hooks/useResetPasswordForm";
+
+const resetPasswordFormSchema = z
+  .object({
+    password: z.string().min(6, "Hasło musi mieć minimum 6 znaków"),
+    confirmPassword: z.string().min(1, "Powtórz hasło"),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    message: "Hasła nie są identyczne",
+    path: ["confirmPassword"],
+  });
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordFormSchema>;
+
+// Formularz ustawienia hasła z linku resetu hasła lub zaproszenia
+export function ResetPasswordForm() {
+  const { linkType, hasLink, isLoading, error, handleSubmit } = useResetPasswordForm();
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = (values: ResetPasswordFormValues) => {
+    handleSubmit(values.password);
+  };
+
+  return (
+    <div>
+      {linkType === "invite" && (
+        <div className="mb-4 p-3 text-sm border border-blue-300 bg-blue-50 text-blue-800 rounded-md">
+          Witaj w systemie oceny celów! Ustaw hasło, aby się zalogować.
+        </div>
+      )}
+
+      {error && <div className="mb-4 p-3 text-sm border border-red-300 bg-red-50 text-red-800 rounded-md">{error}</div>}
+
+      {hasLink ? (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} method="POST" className="space-y-6">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nowe hasło</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Powtórz hasło</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="••••••••" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Zapisywanie..." : "Ustaw hasło"}
+            </Button>
+          </form>
+        </Form>
+      ) : (
+        <p className="text-center text-sm">
+          <a href="/forgot-password" className="text-primary hover:underline">
+            Poproś o nowy link
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
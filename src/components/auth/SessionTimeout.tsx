@@ -0,0 +1,27 @@
+import { Button } from "@/components/ui/button";
+import { useSessionTimeout } from "@/components/hooks/useSessionTimeout";
+
+// Pilnuje czasu bezczynności zalogowanego użytkownika i ostrzega przed wylogowaniem
+export function SessionTimeout() {
+  const { remainingMs, extendSession } = useSessionTimeout();
+
+  if (remainingMs === null) {
+    return null;
+  }
+
+  const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 right-4 z-50 max-w-sm p-4 bg-amber-50 text-amber-800 border border-amber-300 rounded-md shadow"
+    >
+      <p className="text-sm">
+        Z powodu braku aktywności sesja wygaśnie za {seconds} s. Zapisz zmiany lub pozostań zalogowany.
+      </p>
+      <Button size="sm" className="mt-2" onClick={extendSession}>
+        Pozostań zalogowany
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from "react";
 import { UserProfileHeader } from "./UserProfileHeader";
 import { ProcessStepper } from "./ProcessStepper";
+import { ProcessStatusTimeline } from "./ProcessStatusTimeline";
 import { STATUS_LABELS } from "../../types";
 import type {
   AssessmentProcessDTO,
@@ -9,12 +10,20 @@ import type {
   AssessmentProcessViewModel,
   DashboardViewModel,
   UserDTO,
+  UserProfile,
   UserViewModel,
   EmployeeDTO,
   AssessmentProcessStatus,
+  CreateAssessmentProcessCommand,
+  UpdateAssessmentProcessCommand,
+  ParticipantStatusDTO,
+  ParticipantStatusListResponse,
+  UpdateParticipantsStatusCommand,
 } from "../../types";
 import { ProcessCard } from "./ProcessCard";
+import { ProcessForm } from "./ProcessForm";
 import { EmployeeList } from "./EmployeeList";
+import { authFetch, logout as endSession } from "../../lib/auth-client";
 
 // Custom hook for managing dashboard state
 interface UseDashboardResult {
@@ -22,10 +31,33 @@ interface UseDashboardResult {
   fetchProcesses: (params?: AssessmentProcessFilterQueryParams) => Promise<void>;
   selectProcess: (process: AssessmentProcessViewModel) => void;
   selectEmployee: (employee: EmployeeDTO) => void;
-  updateProcessStatus: (processId: string, newStatus: AssessmentProcessStatus) => Promise<void>;
+  updateProcessStatus: (processId: string, newStatus: AssessmentProcessStatus, reason?: string) => Promise<void>;
+  createProcess: (command: CreateAssessmentProcessCommand) => Promise<void>;
+  updateProcess: (processId: string, command: UpdateAssessmentProcessCommand) => Promise<void>;
+  archiveProcess: (processId: string) => Promise<void>;
+  isSavingProcess: boolean;
+  participants: ParticipantStatusDTO[];
+  updateParticipantsStatus: (processId: string, command: UpdateParticipantsStatusCommand) => Promise<void>;
   logout: () => void;
 }
 
+// Employee blocking a status change, as reported in the API error details
+interface InvalidParticipant {
+  employeeName: string;
+  status?: AssessmentProcessStatus;
+  totalWeight?: number;
+}
+
+// Extracts the error message returned by the API, falling back to a generic one
+const readErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const errorData = await response.json();
+    return errorData.error || fallback;
+  } catch {
+    return `${fallback} (${response.status}: ${response.statusText})`;
+  }
+};
+
 const useDashboard = (): UseDashboardResult => {
   const [dashboardState, setDashboardState] = useState<DashboardViewModel>({
     user: {
@@ -34,12 +66,16 @@ const useDashboard = (): UseDashboardResult => {
       name: "",
       managerId: null,
       isManager: false,
+      isAdmin: false,
     },
     processes: [],
     employees: [],
     isManager: false,
     isLoading: true,
   });
+  const [isSavingProcess, setIsSavingProcess] = useState(false);
+  // Workflow status of the manager's reports in the selected process
+  const [participants, setParticipants] = useState<ParticipantStatusDTO[]>([]);
 
   const fetchProcesses = async (params?: AssessmentProcessFilterQueryParams) => {
     try {
@@ -53,7 +89,7 @@ const useDashboard = (): UseDashboardResult => {
       if (params?.limit) queryParams.set("limit", params.limit.toString());
 
       // Fetch processes from API
-      const response = await fetch(`/api/assessment-processes?/${queryParams}`);
+      const response = await authFetch(`/api/assessment-processes?/${queryParams}`);
       if (!response.ok) {
         throw new Error("Błąd pobierania procesów oceny");
       }
@@ -93,19 +129,19 @@ const useDashboard = (): UseDashboardResult => {
   };
 
   // New function to update process status
-  const updateProcessStatus = async (processId: string, newStatus: AssessmentProcessStatus) => {
+  const updateProcessStatus = async (processId: string, newStatus: AssessmentProcessStatus, reason?: string) => {
     try {
       setDashboardState((prev) => ({ ...prev, isLoading: true }));
 
-      const response = await fetch(`/api/assessment-processes/${processId}/status`, {
+      const response = await authFetch(`/api/assessment-processes/${processId}/status`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({
           status: newStatus,
           processId: processId,
+          reason,
         }),
       });
 
@@ -154,12 +190,135 @@ const useDashboard = (): UseDashboardResult => {
     }
   };
 
+  const fetchParticipants = async (processId: string) => {
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}/participants`);
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Nie udało się pobrać statusów pracowników"));
+      }
+
+      const data: ParticipantStatusListResponse = await response.json();
+      setParticipants(data.participants);
+    } catch (error) {
+      console.error("Error fetching participants:", error);
+      setParticipants([]);
+    }
+  };
+
+  // Moves the manager's reports (all or the given ones) to another status
+  const updateParticipantsStatus = async (processId: string, command: UpdateParticipantsStatusCommand) => {
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}/participants/status`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        let errorMessage = "Błąd aktualizacji statusu pracowników";
+        try {
+          const errorData = await response.json();
+          errorMessage = `${errorMessage}: ${errorData.error}`;
+
+          // List employees blocking the transition (wrong status or incomplete goal weights)
+          const invalidParticipants: InvalidParticipant[] | undefined = errorData.details?.participants;
+          if (invalidParticipants?.length) {
+            errorMessage += `\n${invalidParticipants
+              .map(
+                (participant) =>
+                  `- ${participant.employeeName} (${
+                    participant.totalWeight !== undefined
+                      ? `suma wag: ${participant.totalWeight}%`
+                      : STATUS_LABELS[participant.status as AssessmentProcessStatus]
+                  })`
+              )
+              .join("\n")}`;
+          }
+        } catch {
+          errorMessage = `${errorMessage} (${response.status}: ${response.statusText})`;
+        }
+
+        throw new Error(errorMessage);
+      }
+
+      await fetchParticipants(processId);
+    } catch (error) {
+      console.error("Error updating participants status:", error);
+      alert(error instanceof Error ? error.message : "Wystąpił nieznany błąd podczas aktualizacji statusu pracowników");
+    }
+  };
+
+  // Process management (administrators)
+  const createProcess = async (command: CreateAssessmentProcessCommand) => {
+    setIsSavingProcess(true);
+    try {
+      const response = await authFetch("/api/assessment-processes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Nie udało się utworzyć procesu oceny"));
+      }
+
+      await fetchProcesses();
+    } finally {
+      setIsSavingProcess(false);
+    }
+  };
+
+  const updateProcess = async (processId: string, command: UpdateAssessmentProcessCommand) => {
+    setIsSavingProcess(true);
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Nie udało się zaktualizować procesu oceny"));
+      }
+
+      await fetchProcesses();
+    } finally {
+      setIsSavingProcess(false);
+    }
+  };
+
+  const archiveProcess = async (processId: string) => {
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}/archive`, { method: "POST" });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Nie udało się zarchiwizować procesu oceny"));
+      }
+
+      await fetchProcesses();
+    } catch (error) {
+      console.error("Error archiving process:", error);
+      alert(error instanceof Error ? error.message : "Wystąpił nieznany błąd podczas archiwizacji procesu");
+    }
+  };
+
   useEffect(() => {
     const fetchUserData = async () => {
       try {
         // Get user ID from session or local storage
         const userData = JSON.parse(localStorage.getItem("user") || "{}");
-        const userId = userData.id;
+        let userId = userData.id;
+
+        // Po logowaniu przez konto firmowe dane użytkownika nie trafiają do localStorage - odczytujemy je z sesji
+        if (!userId) {
+          const meResponse = await authFetch("/api/auth/me");
+          if (meResponse.ok) {
+            const me: UserProfile = await meResponse.json();
+            userId = me.id;
+            localStorage.setItem("user", JSON.stringify({ id: me.id, email: me.email }));
+          }
+        }
 
         if (!userId) {
           setDashboardState((prev) => ({
@@ -171,17 +330,31 @@ const useDashboard = (): UseDashboardResult => {
         }
 
         // Fetch user data from API
-        const response = await fetch(`/api/users/${userId}`);
+        const response = await authFetch(`/api/users/${userId}`);
         if (!response.ok) {
           throw new Error("Błąd pobierania danych użytkownika");
         }
 
         const userDto: UserDTO = await response.json();
 
+        // Fetch the role flags of the logged-in user
+        let isAdmin = false;
+        try {
+          const profileResponse = await authFetch("/api/auth/me");
+          if (profileResponse.ok) {
+            const profile: UserProfile = await profileResponse.json();
+            isAdmin = profile.isAdmin;
+          }
+        } catch (profileError) {
+          console.error("Error fetching user profile:", profileError);
+          // Continue without administrator features
+        }
+
         // Transform UserDTO to UserViewModel
         const userViewModel: UserViewModel = {
           ...userDto,
           isManager: Array.isArray(userDto.subordinates) && userDto.subordinates.length > 0,
+          isAdmin,
         };
 
         // Extract employees (subordinates) for managers
@@ -196,7 +369,7 @@ const useDashboard = (): UseDashboardResult => {
         // Fetch manager data if managerId is available
         if (userDto.managerId) {
           try {
-            const managerResponse = await fetch(`/api/users/${userDto.managerId}`);
+            const managerResponse = await authFetch(`/api/users/${userDto.managerId}`);
             if (managerResponse.ok) {
               const managerData: UserDTO = await managerResponse.json();
               userViewModel.managerName = managerData.name;
@@ -230,6 +403,16 @@ const useDashboard = (): UseDashboardResult => {
     fetchUserData();
   }, []);
 
+  // Managers work on the status of their own reports within the selected process
+  const selectedProcessId = dashboardState.selectedProcess?.id;
+  useEffect(() => {
+    if (selectedProcessId && dashboardState.isManager) {
+      fetchParticipants(selectedProcessId);
+    } else {
+      setParticipants([]);
+    }
+  }, [selectedProcessId, dashboardState.isManager]);
+
   const selectProcess = (process: AssessmentProcessViewModel) => {
     setDashboardState((prev) => ({
       ...prev,
@@ -245,12 +428,8 @@ const useDashboard = (): UseDashboardResult => {
   };
 
   const logout = () => {
-    // Clear user data from storage
-    localStorage.removeItem("user");
-    localStorage.removeItem("token");
-
-    // Redirect to login page
-    window.location.href = "/login";
+    // End the session on the server, clear user data and redirect to the login page
+    endSession();
   };
 
   return {
@@ -259,17 +438,74 @@ const useDashboard = (): UseDashboardResult => {
     selectProcess,
     selectEmployee,
     updateProcessStatus,
+    createProcess,
+    updateProcess,
+    archiveProcess,
+    isSavingProcess,
+    participants,
+    updateParticipantsStatus,
     logout,
   };
 };
 
 export function DashboardView() {
-  const { dashboardState, logout, selectProcess, selectEmployee, updateProcessStatus } = useDashboard();
+  const {
+    dashboardState,
+    logout,
+    selectProcess,
+    selectEmployee,
+    updateProcessStatus,
+    createProcess,
+    updateProcess,
+    archiveProcess,
+    isSavingProcess,
+    participants,
+    updateParticipantsStatus,
+  } = useDashboard();
   const { isLoading, error, processes, employees, selectedProcess, selectedEmployee, isManager } = dashboardState;
+  // undefined - form hidden, null - new process, otherwise the process being edited
+  const [editedProcess, setEditedProcess] = useState<AssessmentProcessViewModel | null | undefined>(undefined);
+  const canManageProcesses = dashboardState.user.isAdmin;
+
+  // Managers see and move the status of the selected employee or of their whole team;
+  // administrators without reports move the process-level (default) status
+  const selectedParticipant = selectedEmployee
+    ? participants.find((participant) => participant.employeeId === selectedEmployee.id)
+    : undefined;
+  const teamStatuses = new Set(participants.map((participant) => participant.status));
+  const isTeamStatusMixed = isManager && !selectedEmployee && teamStatuses.size > 1;
+  const stepperStatus: AssessmentProcessStatus | undefined = !selectedProcess
+    ? undefined
+    : !isManager
+      ? selectedProcess.status
+      : selectedEmployee
+        ? (selectedParticipant?.status ?? selectedProcess.status)
+        : teamStatuses.size === 1
+          ? participants[0].status
+          : selectedProcess.status;
+
+  const handleSaveProcess = async (command: CreateAssessmentProcessCommand) => {
+    if (editedProcess) {
+      await updateProcess(editedProcess.id, command);
+    } else {
+      await createProcess(command);
+    }
+    setEditedProcess(undefined);
+  };
 
-  const handleStatusChange = async (newStatus: AssessmentProcessStatus) => {
+  const handleStatusChange = async (newStatus: AssessmentProcessStatus, reason?: string) => {
     if (!selectedProcess) return;
-    await updateProcessStatus(selectedProcess.id, newStatus);
+
+    if (isManager) {
+      await updateParticipantsStatus(selectedProcess.id, {
+        status: newStatus,
+        employeeIds: selectedEmployee ? [selectedEmployee.id] : undefined,
+        reason,
+      });
+      return;
+    }
+
+    await updateProcessStatus(selectedProcess.id, newStatus, reason);
   };
 
   if (isLoading) {
@@ -287,7 +523,35 @@ export function DashboardView() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-8">
         {/* ProcessList component */}
         <div className="lg:col-span-2">
-          <h2 className="text-2xl font-semibold mb-4">Procesy oceny</h2>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-semibold">Procesy oceny</h2>
+            {canManageProcesses && editedProcess === undefined && (
+              <div className="flex gap-2">
+                <a
+                  href="/users/import"
+                  className="px-4 py-2 border border-primary text-primary rounded-md hover:bg-primary/10 transition-colors text-sm"
+                >
+                  Import użytkowników
+                </a>
+                <button
+                  onClick={() => setEditedProcess(null)}
+                  className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors text-sm"
+                >
+                  Nowy proces
+                </button>
+              </div>
+            )}
+          </div>
+          {editedProcess !== undefined && (
+            <div className="mb-4">
+              <ProcessForm
+                process={editedProcess ?? undefined}
+                onSave={handleSaveProcess}
+                onCancel={() => setEditedProcess(undefined)}
+                isSaving={isSavingProcess}
+              />
+            </div>
+          )}
           {isLoading ? (
             <div className="bg-gray-50 p-4 rounded-md">Ładowanie procesów...</div>
           ) : processes.length === 0 ? (
@@ -300,6 +564,8 @@ export function DashboardView() {
                   process={process}
                   onClick={selectProcess}
                   isSelected={selectedProcess?.id === process.id}
+                  onEdit={canManageProcesses ? setEditedProcess : undefined}
+                  onArchive={canManageProcesses ? (p) => archiveProcess(p.id) : undefined}
                 />
               ))}
             </div>
@@ -343,8 +609,35 @@ export function DashboardView() {
                 Przeglądaj cele
               </a>
 
+              {isManager && (
+                <a
+                  href={`/process/${selectedProcess.id}/team`}
+                  className="px-4 py-2 border border-primary text-primary rounded-md hover:bg-primary/10 transition-colors text-sm"
+                >
+                  Wyniki zespołu
+                </a>
+              )}
+
+              {isManager && (
+                <a
+                  href={`/process/${selectedProcess.id}/goal-alignment${selectedEmployee ? `?employeeId=${selectedEmployee.id}` : ""}`}
+                  className="px-4 py-2 border border-primary text-primary rounded-md hover:bg-primary/10 transition-colors text-sm"
+                >
+                  Kaskada celów
+                </a>
+              )}
+
+              {canManageProcesses && (
+                <a
+                  href={`/process/${selectedProcess.id}/hr-report`}
+                  className="px-4 py-2 border border-primary text-primary rounded-md hover:bg-primary/10 transition-colors text-sm"
+                >
+                  Raport HR
+                </a>
+              )}
+
               {/* Dodajemy przycisk do definiowania celów */}
-              {isManager && selectedProcess.status === "in_definition" && selectedEmployee && (
+              {isManager && stepperStatus === "in_definition" && selectedEmployee && (
                 <a
                   href={`/process/${selectedProcess.id}/employee/${selectedEmployee.id}/goals-definition`}
                   className="px-4 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 transition-colors text-sm"
@@ -354,12 +647,29 @@ export function DashboardView() {
               )}
             </div>
           </div>
+          <p className="text-sm text-gray-500 mb-2">
+            {isManager
+              ? selectedEmployee
+                ? `Status pracownika: ${selectedEmployee.name}`
+                : "Status całego zespołu"
+              : "Status procesu (domyślny dla wszystkich pracowników)"}
+          </p>
+          {isTeamStatusMixed && (
+            <p className="text-sm text-amber-600 mb-2">
+              Pracownicy są na różnych etapach procesu - wybierz pracownika, aby zmienić jego status.
+            </p>
+          )}
           <ProcessStepper
-            currentStatus={selectedProcess.status}
-            isManager={isManager}
+            currentStatus={stepperStatus ?? selectedProcess.status}
+            isManager={(isManager || canManageProcesses) && !isTeamStatusMixed}
             onStatusChange={handleStatusChange}
             processId={selectedProcess.id}
           />
+          <ProcessStatusTimeline
+            processId={selectedProcess.id}
+            employeeId={selectedEmployee?.id}
+            currentStatus={stepperStatus ?? selectedProcess.status}
+          />
         </div>
       )}
     </div>
@@ -5,9 +5,27 @@ interface ProcessCardProps {
   process: AssessmentProcessViewModel;
   onClick: (process: AssessmentProcessViewModel) => void;
   isSelected: boolean;
+  // Process management actions, passed only for users allowed to manage processes
+  onEdit?: (process: AssessmentProcessViewModel) => void;
+  onArchive?: (process: AssessmentProcessViewModel) => void;
 }
 
-export function ProcessCard({ process, onClick, isSelected }: ProcessCardProps) {
+// Export formats offered by the "Eksportuj" menu
+const EXPORT_OPTIONS = [
+  { label: "Excel (XLSX)", query: "format=xlsx" },
+  { label: "CSV - cele", query: "format=csv&sheet=goals" },
+  { label: "CSV - podsumowanie", query: "format=csv&sheet=summary" },
+];
+
+export function ProcessCard({ process, onClick, isSelected, onEdit, onArchive }: ProcessCardProps) {
+  const [isExportMenuOpen, setIsExportMenuOpen] = React.useState(false);
+
+  const handleArchive = () => {
+    if (onArchive && confirm(`Czy na pewno chcesz zarchiwizować proces "${process.name}"?`)) {
+      onArchive(process);
+    }
+  };
+
   return (
     <div
       className={`border rounded-md p-4 transition-colors text-left w-full ${
@@ -31,7 +49,47 @@ export function ProcessCard({ process, onClick, isSelected }: ProcessCardProps)
         </div>
       </button>
 
-      <div className="mt-4 pt-3 border-t flex justify-end">
+      <div className="mt-4 pt-3 border-t flex justify-end gap-2">
+        <div className="relative">
+          <button
+            onClick={() => setIsExportMenuOpen((open) => !open)}
+            className="text-sm px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+            aria-expanded={isExportMenuOpen}
+          >
+            Eksportuj
+          </button>
+          {isExportMenuOpen && (
+            <div className="absolute right-0 bottom-full mb-1 z-10 w-48 rounded-md border bg-white shadow-md py-1 dark:bg-slate-800">
+              {EXPORT_OPTIONS.map((option) => (
+                <a
+                  key={option.query}
+                  href={`/api/assessment-processes/${process.id}/export?${option.query}`}
+                  onClick={() => setIsExportMenuOpen(false)}
+                  className="block px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-slate-700"
+                  download
+                >
+                  {option.label}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+        {onEdit && (
+          <button
+            onClick={() => onEdit(process)}
+            className="text-sm px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Edytuj
+          </button>
+        )}
+        {onArchive && process.active && (
+          <button
+            onClick={handleArchive}
+            className="text-sm px-3 py-1.5 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Archiwizuj
+          </button>
+        )}
         <a
           href={`/process/${process.id}/goals-view`}
           className="text-sm px-3 py-1.5 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors"
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Alert, AlertDescription } from "../ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { RATING_SCALE_PRESETS, findRatingScalePreset } from "../../lib/rating-scale";
+import type { AssessmentProcessViewModel, CreateAssessmentProcessCommand } from "../../types";
+
+interface ProcessFormProps {
+  // Process being edited; a new process is created when omitted
+  process?: AssessmentProcessViewModel;
+  onSave: (command: CreateAssessmentProcessCommand) => Promise<void>;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+interface ProcessFormErrors {
+  title?: string;
+  startDate?: string;
+  endDate?: string;
+  form?: string;
+}
+
+// New processes use the percentage scale; existing ones show the preset matching their scale
+function getInitialScalePreset(process?: AssessmentProcessViewModel): string | undefined {
+  return process ? findRatingScalePreset(process.ratingScale) : "percentage";
+}
+
+export function ProcessForm({ process, onSave, onCancel, isSaving }: ProcessFormProps) {
+  const [title, setTitle] = useState(process?.name || "");
+  const [description, setDescription] = useState(process?.description || "");
+  const [startDate, setStartDate] = useState(process?.startDate || "");
+  const [endDate, setEndDate] = useState(process?.endDate || "");
+  const [isActive, setIsActive] = useState(process?.active ?? true);
+  const [scalePreset, setScalePreset] = useState(getInitialScalePreset(process));
+  const [errors, setErrors] = useState<ProcessFormErrors>({});
+
+  // Reset form when the edited process changes
+  useEffect(() => {
+    setTitle(process?.name || "");
+    setDescription(process?.description || "");
+    setStartDate(process?.startDate || "");
+    setEndDate(process?.endDate || "");
+    setIsActive(process?.active ?? true);
+    setScalePreset(getInitialScalePreset(process));
+    setErrors({});
+  }, [process]);
+
+  const validateForm = () => {
+    const newErrors: ProcessFormErrors = {};
+
+    if (title.trim().length < 3) {
+      newErrors.title = "Nazwa procesu musi mieć minimum 3 znaki";
+    }
+
+    if (!startDate) {
+      newErrors.startDate = "Data rozpoczęcia jest wymagana";
+    }
+
+    if (!endDate) {
+      newErrors.endDate = "Data zakończenia jest wymagana";
+    } else if (startDate && endDate < startDate) {
+      newErrors.endDate = "Data zakończenia nie może być wcześniejsza niż data rozpoczęcia";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    // The scale is sent only when it was chosen, so custom scales of existing processes stay untouched
+    const scaleChanged = !!scalePreset && scalePreset !== getInitialScalePreset(process);
+
+    try {
+      await onSave({
+        title: title.trim(),
+        description: description.trim() || null,
+        startDate,
+        endDate,
+        isActive,
+        ...((!process || scaleChanged) && scalePreset && { ratingScale: RATING_SCALE_PRESETS[scalePreset].scale }),
+      });
+    } catch (err) {
+      setErrors({ form: err instanceof Error ? err.message : "Nie udało się zapisać procesu" });
+    }
+  };
+
+  const canChangeScale = !process || process.status === "in_definition";
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-md p-4 space-y-4 bg-white dark:bg-slate-800">
+      <h3 className="font-semibold text-lg">{process ? "Edytuj proces" : "Nowy proces"}</h3>
+
+      {errors.form && (
+        <Alert variant="destructive">
+          <AlertDescription>{errors.form}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="process-title">Nazwa procesu</Label>
+        <Input
+          id="process-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="np. Ocena roczna 2025"
+          className={errors.title ? "border-destructive" : ""}
+          disabled={isSaving}
+        />
+        {errors.title && <p className="text-sm text-destructive">{errors.title}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="process-description">Opis (opcjonalny)</Label>
+        <Input
+          id="process-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Krótki opis procesu"
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="process-start-date">Data rozpoczęcia</Label>
+          <Input
+            id="process-start-date"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={errors.startDate ? "border-destructive" : ""}
+            disabled={isSaving}
+          />
+          {errors.startDate && <p className="text-sm text-destructive">{errors.startDate}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="process-end-date">Data zakończenia</Label>
+          <Input
+            id="process-end-date"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={errors.endDate ? "border-destructive" : ""}
+            disabled={isSaving}
+          />
+          {errors.endDate && <p className="text-sm text-destructive">{errors.endDate}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="process-rating-scale">Skala ocen</Label>
+        <Select value={scalePreset} onValueChange={setScalePreset} disabled={isSaving || !canChangeScale}>
+          <SelectTrigger id="process-rating-scale">
+            <SelectValue placeholder="Niestandardowa skala" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RATING_SCALE_PRESETS).map(([key, preset]) => (
+              <SelectItem key={key} value={key}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!canChangeScale && (
+          <p className="text-xs text-muted-foreground">Skalę można zmienić tylko w fazie definiowania celów</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          id="process-active"
+          type="checkbox"
+          checked={isActive}
+          onChange={(e) => setIsActive(e.target.checked)}
+          disabled={isSaving}
+        />
+        <Label htmlFor="process-active">Aktywny</Label>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Anuluj
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? "Zapisywanie..." : process ? "Zapisz zmiany" : "Utwórz proces"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default ProcessForm;
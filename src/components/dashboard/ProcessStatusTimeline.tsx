@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import type { AssessmentProcessStatus, StatusHistoryEntry, StatusHistoryResponse } from "../../types";
+import { STATUS_LABELS } from "../../types";
+import { authFetch } from "../../lib/auth-client";
+
+const STATUS_ORDER: AssessmentProcessStatus[] = [
+  "in_definition",
+  "in_progress",
+  "in_self_assessment",
+  "awaiting_manager_assessment",
+  "completed",
+];
+
+interface ProcessStatusTimelineProps {
+  processId: string;
+  // Shows only process-level transitions and the ones of this employee
+  employeeId?: string;
+  // Current process status; the history is reloaded whenever it changes
+  currentStatus: AssessmentProcessStatus;
+}
+
+// Hook fetching the status history of a process
+function useStatusHistory(processId: string, currentStatus: AssessmentProcessStatus, employeeId?: string) {
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const query = employeeId ? `?employeeId=${encodeURIComponent(employeeId)}` : "";
+        const response = await authFetch(`/api/assessment-processes/${processId}/status-history${query}`);
+
+        if (!response.ok) {
+          throw new Error("Nie udało się pobrać historii statusu");
+        }
+
+        const data: StatusHistoryResponse = await response.json();
+        if (!cancelled) {
+          setHistory(data.history);
+        }
+      } catch (err) {
+        console.error("Error fetching status history:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Nieoczekiwany błąd");
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [processId, currentStatus, employeeId]);
+
+  return { history, isLoading, error };
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("pl-PL", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ProcessStatusTimeline({ processId, employeeId, currentStatus }: ProcessStatusTimelineProps) {
+  const { history, isLoading, error } = useStatusHistory(processId, currentStatus, employeeId);
+
+  if (isLoading) {
+    return <div className="mt-4 text-sm text-gray-500">Ładowanie historii statusu...</div>;
+  }
+
+  if (error) {
+    return <div className="mt-4 text-sm text-red-500">{error}</div>;
+  }
+
+  return (
+    <div className="mt-4">
+      <h3 className="font-semibold mb-2">Historia statusu</h3>
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-500">Brak zmian statusu</p>
+      ) : (
+        <ol className="border-l border-gray-300 ml-2 space-y-3">
+          {history.map((entry) => {
+            const isBackward =
+              entry.previousStatus !== null &&
+              STATUS_ORDER.indexOf(entry.status) < STATUS_ORDER.indexOf(entry.previousStatus);
+
+            return (
+              <li key={entry.id} className="ml-4 relative">
+                <span
+                  className={`absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full ${
+                    isBackward ? "bg-amber-500" : "bg-blue-500"
+                  }`}
+                ></span>
+                <div className="flex items-center gap-1 text-sm">
+                  {entry.previousStatus && (
+                    <>
+                      <span className="text-gray-500">{STATUS_LABELS[entry.previousStatus]}</span>
+                      {isBackward ? (
+                        <ArrowLeft size={14} className="text-amber-500" />
+                      ) : (
+                        <ArrowRight size={14} className="text-gray-400" />
+                      )}
+                    </>
+                  )}
+                  <span className="font-medium">{STATUS_LABELS[entry.status]}</span>
+                  <span className="text-gray-500">{entry.employee ? `(${entry.employee.name})` : "(cały proces)"}</span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatDateTime(entry.changedAt)} · {entry.changedBy.name}
+                </div>
+                {entry.reason && <p className="text-sm text-gray-700 mt-1">{entry.reason}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default ProcessStatusTimeline;
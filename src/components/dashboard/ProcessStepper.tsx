@@ -5,6 +5,7 @@ import { ArrowLeft, ArrowRight } from "lucide-react";
 // The sequence of statuses and allowed transitions
 const STATUS_ORDER: AssessmentProcessStatus[] = [
   "in_definition",
+  "in_progress",
   "in_self_assessment",
   "awaiting_manager_assessment",
   "completed",
@@ -12,8 +13,9 @@ const STATUS_ORDER: AssessmentProcessStatus[] = [
 
 // Define the allowed transitions to avoid invalid API calls
 const ALLOWED_TRANSITIONS: Record<AssessmentProcessStatus, AssessmentProcessStatus[]> = {
-  in_definition: ["in_self_assessment"],
-  in_self_assessment: ["in_definition", "awaiting_manager_assessment"],
+  in_definition: ["in_progress", "in_self_assessment"],
+  in_progress: ["in_definition", "in_self_assessment"],
+  in_self_assessment: ["in_progress", "in_definition", "awaiting_manager_assessment"],
   awaiting_manager_assessment: ["in_self_assessment", "completed"],
   completed: ["awaiting_manager_assessment"],
 };
@@ -21,7 +23,7 @@ const ALLOWED_TRANSITIONS: Record<AssessmentProcessStatus, AssessmentProcessStat
 interface ProcessStepperProps {
   currentStatus: AssessmentProcessStatus;
   isManager?: boolean;
-  onStatusChange?: (newStatus: AssessmentProcessStatus) => void;
+  onStatusChange?: (newStatus: AssessmentProcessStatus, reason?: string) => void;
   processId?: string;
 }
 
@@ -43,6 +45,14 @@ export function ProcessStepper({ currentStatus, isManager = false, onStatusChang
       return;
     }
 
+    // Moving a process back is recorded in the status history together with a justification
+    if (direction === "backward") {
+      const reason = prompt("Podaj powód cofnięcia statusu (opcjonalnie):");
+      if (reason === null) return;
+      onStatusChange(newStatus, reason.trim() || undefined);
+      return;
+    }
+
     onStatusChange(newStatus);
   };
 
@@ -61,6 +71,12 @@ export function ProcessStepper({ currentStatus, isManager = false, onStatusChang
           W definiowaniu
         </div>
         <div className="h-0.5 flex-1 bg-gray-300 mx-2"></div>
+        <div
+          className={`px-4 py-2 rounded-md ${currentStatus === "in_progress" ? "bg-blue-500 text-white" : "bg-gray-200"}`}
+        >
+          W realizacji
+        </div>
+        <div className="h-0.5 flex-1 bg-gray-300 mx-2"></div>
         <div
           className={`px-4 py-2 rounded-md ${
             currentStatus === "in_self_assessment" ? "bg-blue-500 text-white" : "bg-gray-200"
@@ -35,6 +35,11 @@ export const UserProfileHeader: React.FC<UserProfileHeaderProps> = ({ user, onLo
               Kierownik
             </span>
           )}
+          {user.isAdmin && (
+            <span className="inline-block mt-1 ml-1 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400 px-2 py-0.5 rounded-full">
+              Administrator
+            </span>
+          )}
           {user.managerId && user.managerName && (
             <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
               Kierownik: <span className="font-medium">{user.managerName}</span>
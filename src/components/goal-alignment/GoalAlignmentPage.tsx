@@ -0,0 +1,101 @@
+import { ArrowLeft } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import type { AlignedGoalDTO, AssessmentProcessViewModel } from "@/types";
+import { useGoalAlignment } from "./hooks/useGoalAlignment";
+
+interface GoalAlignmentPageProps {
+  processId: string;
+  employeeId?: string;
+  process?: AssessmentProcessViewModel;
+}
+
+// Cel wraz z powiązanymi z nim celami podwładnych (rekurencyjnie)
+function AlignedGoalItem({ goal }: { goal: AlignedGoalDTO }) {
+  return (
+    <li className="space-y-2">
+      <div className="border rounded-md p-3 bg-card">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="font-medium">{goal.title}</div>
+            <div className="text-xs text-muted-foreground">{goal.employee.name}</div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {goal.category.name}
+            </Badge>
+            <span className="text-sm font-medium">{goal.weight}%</span>
+          </div>
+        </div>
+      </div>
+      {goal.children.length > 0 && (
+        <ul className="ml-6 pl-4 border-l space-y-2">
+          {goal.children.map((child) => (
+            <AlignedGoalItem key={child.id} goal={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function GoalAlignmentPage({ processId, employeeId, process }: GoalAlignmentPageProps) {
+  const { alignment, isLoading, error, reload } = useGoalAlignment(processId, employeeId);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8">
+        <div className="bg-red-50 text-red-600 p-4 rounded-md mb-4">{error}</div>
+        <button
+          onClick={reload}
+          className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors"
+        >
+          Spróbuj ponownie
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center mb-4">
+        <Button variant="ghost" size="sm" className="flex items-center gap-1" asChild>
+          <a href="/dashboard">
+            <ArrowLeft className="h-4 w-4" /> Powrót do strony głównej
+          </a>
+        </Button>
+      </div>
+
+      <h1 className="text-2xl font-bold mb-1">Kaskada celów{alignment && ` - ${alignment.employee.name}`}</h1>
+      {process && <p className="text-gray-500 mb-6">{process.name}</p>}
+
+      {isLoading ? (
+        <div className="bg-gray-50 p-4 rounded-md">Ładowanie kaskady celów...</div>
+      ) : !alignment || (alignment.goals.length === 0 && alignment.unalignedGoals.length === 0) ? (
+        <div className="bg-gray-50 p-4 rounded-md text-gray-500">Brak celów w tym procesie</div>
+      ) : (
+        <div className="space-y-8">
+          <ul className="space-y-4">
+            {alignment.goals.map((goal) => (
+              <AlignedGoalItem key={goal.id} goal={goal} />
+            ))}
+          </ul>
+
+          {alignment.unalignedGoals.length > 0 && (
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Cele niepowiązane z celami kierownika</h2>
+              <p className="text-sm text-muted-foreground mb-3">
+                Cele podwładnych, które nie wskazują celu nadrzędnego swojego kierownika
+              </p>
+              <ul className="space-y-4">
+                {alignment.unalignedGoals.map((goal) => (
+                  <AlignedGoalItem key={goal.id} goal={goal} />
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
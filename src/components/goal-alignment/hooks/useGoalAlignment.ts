@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import type { GoalAlignmentResponse } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook pobierający kaskadę celów pracownika w dół struktury podległości
+export function useGoalAlignment(processId: string, employeeId?: string) {
+  const [alignment, setAlignment] = useState<GoalAlignmentResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = employeeId ? `?employeeId=${employeeId}` : "";
+      const response = await authFetch(`/api/assessment-processes/${processId}/goal-alignment${query}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Nie udało się pobrać kaskady celów");
+      }
+
+      const data: GoalAlignmentResponse = await response.json();
+      setAlignment(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać kaskady celów");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [processId, employeeId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { alignment, isLoading, error, reload };
+}
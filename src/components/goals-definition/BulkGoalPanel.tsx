@@ -0,0 +1,148 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { GoalForm } from "./GoalForm";
+import { useBulkGoal } from "./hooks/useBulkGoal";
+import type { BulkGoalPanelProps } from "./types";
+
+export function BulkGoalPanel({ processId, employeeId, categories, onCreated, onClose }: BulkGoalPanelProps) {
+  const { teamMembers, results, createGoal, createSharedGoal, isLoading, isSaving, error } = useBulkGoal(processId);
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([employeeId]);
+  const [isShared, setIsShared] = React.useState(false);
+  // Indywidualne wagi celu wspólnego (brak wpisu - waga z formularza)
+  const [weights, setWeights] = React.useState<Record<string, number>>({});
+
+  const initialValues = React.useMemo(
+    () => ({ title: "", description: "", categoryId: categories[0]?.id || "", weight: 0 }),
+    [categories]
+  );
+
+  const toggleEmployee = (id: string) => {
+    setSelectedIds((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+  };
+
+  const handleSave = async (goal: { title: string; description: string; categoryId: string; weight: number }) => {
+    const employeeResults = isShared
+      ? await createSharedGoal({
+          title: goal.title,
+          description: goal.description,
+          categoryId: goal.categoryId,
+          assignments: selectedIds.map((id) => ({ employeeId: id, weight: weights[id] ?? goal.weight })),
+        })
+      : await createGoal({
+          title: goal.title,
+          description: goal.description,
+          categoryId: goal.categoryId,
+          weight: goal.weight,
+          employeeIds: selectedIds,
+        });
+
+    // Rzucenie wyjątku zachowuje dane w formularzu
+    if (!employeeResults) {
+      throw new Error("Nie udało się utworzyć celów");
+    }
+    if (employeeResults.some((result) => result.success)) {
+      onCreated();
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-4 space-y-4 bg-card">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-medium">Dodaj cel dla kilku pracowników</h2>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Zamknij
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={isShared}
+          onChange={(event) => setIsShared(event.target.checked)}
+          disabled={isSaving}
+        />
+        Cel wspólny - zmiany definicji obejmą wszystkich wybranych pracowników
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Pracownicy ({selectedIds.length})</p>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Ładowanie zespołu...</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+            {teamMembers.map((member) => (
+              <div key={member.id} className="flex items-center gap-2 text-sm">
+                <label className="flex flex-1 items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(member.id)}
+                    onChange={() => toggleEmployee(member.id)}
+                    disabled={isSaving}
+                  />
+                  {member.name}
+                </label>
+                {isShared && selectedIds.includes(member.id) && (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-20 h-8"
+                      placeholder="waga"
+                      value={weights[member.id] ?? ""}
+                      onChange={(event) =>
+                        setWeights((current) =>
+                          event.target.value === ""
+                            ? Object.fromEntries(Object.entries(current).filter(([id]) => id !== member.id))
+                            : { ...current, [member.id]: Number(event.target.value) }
+                        )
+                      }
+                      aria-label={`Waga celu dla ${member.name}`}
+                    />
+                    <span>%</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <GoalForm
+        initialValues={initialValues}
+        categories={categories}
+        // Limit wag sprawdzany jest osobno dla każdego pracownika po stronie serwera
+        totalWeight={0}
+        currentGoalWeight={0}
+        onSave={handleSave}
+        onCancel={onClose}
+        isSaving={isSaving || selectedIds.length === 0}
+      />
+
+      {results && (
+        <ul className="space-y-1 text-sm">
+          {results.map((result) => (
+            <li key={result.employeeId} className={result.success ? "text-emerald-700" : "text-destructive"}>
+              {result.employeeName}: {result.success ? "cel dodany" : result.error}
+              {result.goal?.validationErrors.map((warning) => (
+                <span key={warning} className="block text-xs text-muted-foreground">
+                  {warning}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default BulkGoalPanel;
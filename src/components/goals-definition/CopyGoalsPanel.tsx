@@ -0,0 +1,139 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGoalCopy } from "./hooks/useGoalCopy";
+import type { CopyGoalsPanelProps } from "./types";
+
+export function CopyGoalsPanel({
+  processId,
+  employeeId,
+  currentStartDate,
+  existingTitles,
+  totalWeight,
+  onCopied,
+  onClose,
+}: CopyGoalsPanelProps) {
+  const { processes, sourceProcessId, selectSourceProcess, sourceGoals, copyGoals, isLoading, isCopying, error } =
+    useGoalCopy(processId, employeeId, currentStartDate);
+
+  // Wagi zaznaczonych celów (klucz - identyfikator celu w poprzednim procesie)
+  const [selected, setSelected] = React.useState<Record<string, number>>({});
+
+  const handleSelectProcess = (id: string) => {
+    setSelected({});
+    selectSourceProcess(id);
+  };
+
+  const toggleGoal = (goalId: string, weight: number) => {
+    setSelected((current) =>
+      goalId in current
+        ? Object.fromEntries(Object.entries(current).filter(([id]) => id !== goalId))
+        : { ...current, [goalId]: weight }
+    );
+  };
+
+  const selectedWeight = Object.values(selected).reduce((sum, weight) => sum + weight, 0);
+  const exceedsLimit = totalWeight + selectedWeight > 100;
+
+  const handleCopy = async () => {
+    const goals = Object.entries(selected).map(([goalId, weight]) => ({ goalId, weight }));
+    if (await copyGoals(goals)) {
+      setSelected({});
+      onCopied();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-4 space-y-4 bg-card">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-medium">Kopiuj cele z poprzedniego procesu</h2>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Zamknij
+        </Button>
+      </div>
+
+      <Select value={sourceProcessId ?? undefined} onValueChange={handleSelectProcess}>
+        <SelectTrigger>
+          <SelectValue placeholder="Wybierz proces oceny" />
+        </SelectTrigger>
+        <SelectContent>
+          {processes.map((process) => (
+            <SelectItem key={process.id} value={process.id}>
+              {process.name} ({new Date(process.startDate).toLocaleDateString("pl-PL")})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Ładowanie...</p>
+      ) : !sourceProcessId ? (
+        processes.length === 0 && <p className="text-sm text-muted-foreground">Brak wcześniejszych procesów oceny</p>
+      ) : sourceGoals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Pracownik nie miał celów w wybranym procesie</p>
+      ) : (
+        <ul className="space-y-2">
+          {sourceGoals.map((goal) => {
+            const alreadyExists = existingTitles.includes(goal.title);
+            const isSelected = goal.id in selected;
+
+            return (
+              <li key={goal.id} className="flex items-start gap-3 p-2 border rounded-md">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={isSelected}
+                  disabled={alreadyExists}
+                  onChange={() => toggleGoal(goal.id, goal.weight)}
+                  aria-label={`Kopiuj cel ${goal.title}`}
+                />
+                <div className="flex-1">
+                  <div className="text-sm font-medium">{goal.title}</div>
+                  <div className="text-xs text-muted-foreground">{goal.category.name}</div>
+                  <div className="text-xs text-gray-600 line-clamp-2">{goal.description}</div>
+                  {alreadyExists && <div className="text-xs text-amber-700">Cel o tym tytule już istnieje</div>}
+                </div>
+                {isSelected && (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={100}
+                      className="w-20"
+                      value={selected[goal.id]}
+                      onChange={(event) => setSelected({ ...selected, [goal.id]: Number(event.target.value) })}
+                      aria-label={`Waga celu ${goal.title}`}
+                    />
+                    <span className="text-sm">%</span>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {Object.keys(selected).length > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span className={`text-sm ${exceedsLimit ? "text-destructive" : "text-muted-foreground"}`}>
+            Suma wag po skopiowaniu: {totalWeight + selectedWeight}%
+          </span>
+          <Button type="button" disabled={isCopying || exceedsLimit} onClick={handleCopy}>
+            {isCopying ? "Kopiowanie..." : `Kopiuj wybrane (${Object.keys(selected).length})`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CopyGoalsPanel;
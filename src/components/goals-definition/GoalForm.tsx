@@ -4,13 +4,37 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { GoalFormProps } from "./types";
+import { PredefinedGoalPicker } from "./PredefinedGoalPicker";
+import { GoalMetricFields } from "./GoalMetricFields";
+import type { GoalFormProps, GoalMetricFormValues } from "./types";
+import type { GoalMetricDTO, PredefinedGoalDTO } from "@/types";
+
+// Wartość listy oznaczająca cel niepowiązany z celem kierownika (Select nie obsługuje pustej wartości)
+const NO_PARENT_GOAL = "none";
+
+const toMetricFormValues = (metric?: GoalMetricDTO | null): GoalMetricFormValues | null =>
+  metric
+    ? {
+        name: metric.name,
+        unit: metric.unit || "",
+        baselineValue: metric.baselineValue?.toString() ?? "",
+        targetValue: metric.targetValue.toString(),
+        actualValue: metric.actualValue?.toString() ?? "",
+      }
+    : null;
+
+// Puste pole - brak wartości, NaN - wartość nie jest liczbą
+const parseMetricNumber = (value: string): number | null =>
+  value.trim() === "" ? null : Number(value.trim().replace(",", "."));
+
+const EMPTY_METRIC: GoalMetricFormValues = { name: "", unit: "", baselineValue: "", targetValue: "", actualValue: "" };
 
 export function GoalForm({
   initialValues,
   categories,
   totalWeight,
   currentGoalWeight,
+  parentGoals,
   onSave,
   onCancel,
   isSaving,
@@ -19,12 +43,16 @@ export function GoalForm({
   const [description, setDescription] = useState(initialValues.description);
   const [categoryId, setCategoryId] = useState(initialValues.categoryId);
   const [weight, setWeight] = useState(initialValues.weight);
+  const [parentGoalId, setParentGoalId] = useState(initialValues.parentGoalId || null);
+  const [metric, setMetric] = useState(toMetricFormValues(initialValues.metric));
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [errors, setErrors] = useState<{
     title?: string;
     description?: string;
     categoryId?: string;
     weight?: string;
     form?: string;
+    metric?: Partial<Record<keyof GoalMetricFormValues, string>>;
   }>({});
 
   // Reset form when initialValues change
@@ -33,9 +61,21 @@ export function GoalForm({
     setDescription(initialValues.description);
     setCategoryId(initialValues.categoryId);
     setWeight(initialValues.weight);
+    setParentGoalId(initialValues.parentGoalId || null);
+    setMetric(toMetricFormValues(initialValues.metric));
     setErrors({});
+    setIsLibraryOpen(false);
   }, [initialValues]);
 
+  // Prefill the form with a goal picked from the library (weight stays up to the manager)
+  const handlePickPredefinedGoal = (goal: PredefinedGoalDTO) => {
+    setTitle(goal.title);
+    setDescription(goal.description);
+    setCategoryId(goal.categoryId);
+    setErrors({});
+    setIsLibraryOpen(false);
+  };
+
   // Calculate the maximum allowed weight
   const calculateMaxWeight = () => {
     // For a new goal, max is 100 - current total weight
@@ -47,7 +87,7 @@ export function GoalForm({
   const maxWeight = calculateMaxWeight();
 
   const validateForm = () => {
-    const newErrors: { title?: string; description?: string; categoryId?: string; weight?: string; form?: string } = {};
+    const newErrors: typeof errors = {};
     let isValid = true;
 
     // Validate title
@@ -77,6 +117,29 @@ export function GoalForm({
       isValid = false;
     }
 
+    // Validate metric of a measurable goal
+    if (metric) {
+      const metricErrors: Partial<Record<keyof GoalMetricFormValues, string>> = {};
+      if (!metric.name.trim()) {
+        metricErrors.name = "Nazwa miernika jest wymagana";
+      }
+      for (const key of ["baselineValue", "targetValue", "actualValue"] as const) {
+        if (Number.isNaN(parseMetricNumber(metric[key]))) {
+          metricErrors[key] = "Wartość musi być liczbą";
+        }
+      }
+      const target = parseMetricNumber(metric.targetValue);
+      if (target === null) {
+        metricErrors.targetValue = "Wartość docelowa jest wymagana";
+      } else if (target === parseMetricNumber(metric.baselineValue)) {
+        metricErrors.targetValue = "Wartość docelowa musi różnić się od bazowej";
+      }
+      if (Object.keys(metricErrors).length > 0) {
+        newErrors.metric = metricErrors;
+        isValid = false;
+      }
+    }
+
     setErrors(newErrors);
     return isValid;
   };
@@ -95,6 +158,16 @@ export function GoalForm({
         description,
         categoryId,
         weight,
+        ...(parentGoals && { parentGoalId }),
+        metric: metric
+          ? {
+              name: metric.name.trim(),
+              unit: metric.unit.trim() || null,
+              baselineValue: parseMetricNumber(metric.baselineValue),
+              targetValue: parseMetricNumber(metric.targetValue) ?? 0,
+              actualValue: parseMetricNumber(metric.actualValue),
+            }
+          : null,
       });
 
       // Reset form after success (only for new goals)
@@ -102,6 +175,8 @@ export function GoalForm({
         setTitle("");
         setDescription("");
         setWeight(0);
+        setParentGoalId(null);
+        setMetric(null);
         // Keep the selected category for convenience
       }
     } catch (err) {
@@ -119,6 +194,19 @@ export function GoalForm({
         </Alert>
       )}
 
+      {!initialValues.id &&
+        (isLibraryOpen ? (
+          <PredefinedGoalPicker
+            categories={categories}
+            onPick={handlePickPredefinedGoal}
+            onClose={() => setIsLibraryOpen(false)}
+          />
+        ) : (
+          <Button type="button" variant="outline" onClick={() => setIsLibraryOpen(true)} disabled={isSaving}>
+            Wybierz z biblioteki
+          </Button>
+        ))}
+
       <div className="space-y-2">
         <Label htmlFor="title">Tytuł celu</Label>
         <Input
@@ -163,6 +251,29 @@ export function GoalForm({
         {categories.length === 0 && <p className="text-sm text-muted-foreground">Brak dostępnych kategorii</p>}
       </div>
 
+      {parentGoals && parentGoals.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="parentGoal">Cel nadrzędny (kierownika)</Label>
+          <Select
+            value={parentGoalId || NO_PARENT_GOAL}
+            onValueChange={(value) => setParentGoalId(value === NO_PARENT_GOAL ? null : value)}
+            disabled={isSaving}
+          >
+            <SelectTrigger id="parentGoal">
+              <SelectValue placeholder="Wybierz cel nadrzędny" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PARENT_GOAL}>Brak powiązania</SelectItem>
+              {parentGoals.map((goal) => (
+                <SelectItem key={goal.id} value={goal.id}>
+                  {goal.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label htmlFor="weight">Waga (%)</Label>
         <div className="flex items-center gap-2">
@@ -185,6 +296,21 @@ export function GoalForm({
         </p>
       </div>
 
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={metric !== null}
+            onChange={(e) => setMetric(e.target.checked ? EMPTY_METRIC : null)}
+            disabled={isSaving}
+          />
+          Cel mierzalny (miernik z wartością docelową)
+        </label>
+        {metric && (
+          <GoalMetricFields values={metric} onChange={setMetric} errors={errors.metric || {}} disabled={isSaving} />
+        )}
+      </div>
+
       <div className="flex justify-end gap-2 pt-2">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
           Anuluj
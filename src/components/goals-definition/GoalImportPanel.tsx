@@ -0,0 +1,140 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useGoalImport } from "./hooks/useGoalImport";
+import type { GoalImportPanelProps } from "./types";
+
+const SAMPLE_HEADER = "employee_email,title,description,category,weight";
+
+export function GoalImportPanel({ processId, onImported, onClose }: GoalImportPanelProps) {
+  const [file, setFile] = React.useState<File | null>(null);
+  const { preview, isLoading, error, checkFile, applyImport, reset } = useGoalImport(processId);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    reset();
+    setFile(event.target.files?.[0] || null);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    const result = await applyImport(file);
+    if (result?.applied) {
+      onImported();
+    }
+  };
+
+  const hasRowErrors = !!preview?.rows.some((row) => row.errors.length > 0);
+  const canApply =
+    !!file && !!preview && !preview.applied && preview.errors.length === 0 && !hasRowErrors && !isLoading;
+
+  return (
+    <div className="border rounded-md p-4 space-y-4 bg-card">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-medium">Import celów z pliku</h2>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Zamknij
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Plik CSV lub XLSX z nagłówkiem <code>{SAMPLE_HEADER}</code>. Każdy wiersz to jeden cel bezpośredniego
+        podwładnego; kategorię podaje się nazwą, a wagę w procentach.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={handleFileChange}
+          className="text-sm"
+        />
+        <Button type="button" variant="outline" disabled={!file || isLoading} onClick={() => file && checkFile(file)}>
+          Sprawdź plik
+        </Button>
+        <Button type="button" disabled={!canApply} onClick={handleImport}>
+          Importuj
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && <p className="text-sm text-muted-foreground">Przetwarzanie pliku...</p>}
+
+      {preview && !isLoading && (
+        <div className="space-y-3">
+          {preview.applied && (
+            <div className="bg-emerald-50 text-emerald-700 p-3 rounded-md text-sm">
+              Zaimportowano {preview.rows.length} celów
+            </div>
+          )}
+
+          {preview.errors.map((fileError) => (
+            <p key={fileError} className="text-sm text-destructive">
+              {fileError}
+            </p>
+          ))}
+
+          {preview.employees.length > 0 && (
+            <ul className="text-sm space-y-1">
+              {preview.employees.map((employee) => (
+                <li key={employee.employeeId}>
+                  {employee.employeeName}: suma wag {employee.currentWeight}% →{" "}
+                  {employee.currentWeight + employee.importedWeight}%
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {preview.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2 pr-2">Wiersz</th>
+                    <th className="py-2 pr-2">Pracownik</th>
+                    <th className="py-2 pr-2">Cel</th>
+                    <th className="py-2 pr-2">Kategoria</th>
+                    <th className="py-2 pr-2">Waga</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.line} className="border-b align-top">
+                      <td className="py-2 pr-2 text-muted-foreground">{row.line}</td>
+                      <td className="py-2 pr-2">{row.employeeName || row.employeeEmail}</td>
+                      <td className="py-2 pr-2">
+                        <div className="font-medium">{row.title}</div>
+                        <div className="text-xs text-muted-foreground line-clamp-2">{row.description}</div>
+                      </td>
+                      <td className="py-2 pr-2">{row.categoryName}</td>
+                      <td className="py-2 pr-2">{row.weight !== null ? `${row.weight}%` : "—"}</td>
+                      <td className="py-2">
+                        {row.errors.length === 0 ? (
+                          <Badge variant="outline">OK</Badge>
+                        ) : (
+                          <ul className="text-xs text-destructive space-y-0.5">
+                            {row.errors.map((rowError) => (
+                              <li key={rowError}>{rowError}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GoalImportPanel;
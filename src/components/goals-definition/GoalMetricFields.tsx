@@ -0,0 +1,61 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { GoalMetricFieldsProps, GoalMetricFormValues } from "./types";
+
+const NUMBER_FIELDS: { key: keyof GoalMetricFormValues; label: string; placeholder: string }[] = [
+  { key: "baselineValue", label: "Wartość bazowa", placeholder: "np. 80" },
+  { key: "targetValue", label: "Wartość docelowa", placeholder: "np. 100" },
+  { key: "actualValue", label: "Wartość rzeczywista", placeholder: "uzupełniana w samoocenie" },
+];
+
+// Pola miernika celu mierzalnego (nazwa, jednostka, wartości bazowa, docelowa i rzeczywista)
+export function GoalMetricFields({ values, onChange, errors, disabled }: GoalMetricFieldsProps) {
+  const setField = (key: keyof GoalMetricFormValues, value: string) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="metric-name">Miernik</Label>
+          <Input
+            id="metric-name"
+            value={values.name}
+            onChange={(e) => setField("name", e.target.value)}
+            placeholder="np. Satysfakcja klientów (NPS)"
+            className={errors.name ? "border-destructive" : ""}
+            disabled={disabled}
+          />
+          {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="metric-unit">Jednostka</Label>
+          <Input
+            id="metric-unit"
+            value={values.unit}
+            onChange={(e) => setField("unit", e.target.value)}
+            placeholder="np. pkt, %, PLN"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {NUMBER_FIELDS.map(({ key, label, placeholder }) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`metric-${key}`}>{label}</Label>
+            <Input
+              id={`metric-${key}`}
+              inputMode="decimal"
+              value={values[key]}
+              onChange={(e) => setField(key, e.target.value)}
+              placeholder={placeholder}
+              className={errors[key] ? "border-destructive" : ""}
+              disabled={disabled}
+            />
+            {errors[key] && <p className="text-sm text-destructive">{errors[key]}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 import React from "react";
 import { useGoalsDefinition } from "./hooks/useGoalsDefinition";
+import { useParentGoals } from "./hooks/useParentGoals";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import type { GoalsDefinitionPageProps, GoalViewModel } from "./types";
+import type { GoalMetricDTO } from "@/types";
 import { GoalsList } from "@/components/goals-definition/GoalsList";
 import { GoalForm } from "@/components/goals-definition/GoalForm";
+import { GoalImportPanel } from "@/components/goals-definition/GoalImportPanel";
+import { CopyGoalsPanel } from "@/components/goals-definition/CopyGoalsPanel";
+import { BulkGoalPanel } from "@/components/goals-definition/BulkGoalPanel";
+import { Button } from "@/components/ui/button";
 
 export function GoalsDefinitionPage({ processId, employeeId, process, employee }: GoalsDefinitionPageProps) {
   // Process prop is used for passing to child components that may need it
@@ -22,7 +28,12 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
     deleteGoal,
     isSaving,
     isDeletingGoal,
+    isManager,
+    reload,
   } = useGoalsDefinition({ processId, employeeId });
+  const { parentGoals } = useParentGoals(processId, employeeId);
+
+  const [activePanel, setActivePanel] = React.useState<"import" | "copy" | "bulk" | null>(null);
 
   const [editingGoal, setEditingGoal] = React.useState<{
     id?: string;
@@ -30,6 +41,8 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
     description: string;
     categoryId: string;
     weight: number;
+    parentGoalId?: string | null;
+    metric?: GoalMetricDTO | null;
   } | null>(null);
 
   // Handler for editing a goal
@@ -40,6 +53,8 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
       description: goal.description,
       categoryId: goal.category.id,
       weight: goal.weight,
+      parentGoalId: goal.parentGoalId,
+      metric: goal.metric,
     });
   };
 
@@ -55,6 +70,8 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
     weight: number;
     id?: string;
     title: string;
+    parentGoalId?: string | null;
+    metric?: GoalMetricDTO | null;
   }) => {
     try {
       if (goalData.id) {
@@ -63,6 +80,8 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
           description: goalData.description,
           categoryId: goalData.categoryId,
           weight: goalData.weight,
+          parentGoalId: goalData.parentGoalId,
+          metric: goalData.metric,
         });
       } else {
         await addGoal({
@@ -70,6 +89,8 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
           description: goalData.description,
           categoryId: goalData.categoryId,
           weight: goalData.weight,
+          parentGoalId: goalData.parentGoalId,
+          metric: goalData.metric,
         });
       }
       setEditingGoal(null);
@@ -102,26 +123,68 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
         </Alert>
       )}
 
-      {/* Goal form */}
-      <div className="border p-4 rounded-md bg-card">
-        <h2 className="text-lg font-medium mb-4">{editingGoal?.id ? "Edytuj cel" : "Dodaj nowy cel"}</h2>
-        <GoalForm
-          initialValues={
-            editingGoal || {
-              title: "",
-              description: "",
-              categoryId: categories?.[0]?.id || "",
-              weight: 0,
-            }
-          }
-          categories={categories || []}
+      {/* Adding goals in bulk: copying from an earlier process, importing a file or one goal for several reports */}
+      {activePanel === "copy" ? (
+        <CopyGoalsPanel
+          processId={processId}
+          employeeId={employeeId}
+          currentStartDate={process?.startDate}
+          existingTitles={goals.map((goal) => goal.title)}
           totalWeight={totalWeight}
-          currentGoalWeight={editingGoal?.id ? editingGoal.weight : 0}
-          onSave={handleSaveGoal}
-          onCancel={handleCancelEdit}
-          isSaving={isSaving}
+          onCopied={reload}
+          onClose={() => setActivePanel(null)}
         />
-      </div>
+      ) : activePanel === "import" ? (
+        <GoalImportPanel processId={processId} onImported={reload} onClose={() => setActivePanel(null)} />
+      ) : activePanel === "bulk" ? null : (
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setActivePanel("copy")}>
+            Kopiuj cele z poprzedniego procesu
+          </Button>
+          {isManager && (
+            <>
+              <Button type="button" variant="outline" size="sm" onClick={() => setActivePanel("bulk")}>
+                Dodaj cel dla kilku pracowników
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setActivePanel("import")}>
+                Importuj cele z pliku
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Goal form - replaced by its multi-employee variant while that panel is open */}
+      {activePanel === "bulk" ? (
+        <BulkGoalPanel
+          processId={processId}
+          employeeId={employeeId}
+          categories={categories || []}
+          onCreated={reload}
+          onClose={() => setActivePanel(null)}
+        />
+      ) : (
+        <div className="border p-4 rounded-md bg-card">
+          <h2 className="text-lg font-medium mb-4">{editingGoal?.id ? "Edytuj cel" : "Dodaj nowy cel"}</h2>
+          <GoalForm
+            initialValues={
+              editingGoal || {
+                title: "",
+                description: "",
+                categoryId: categories?.[0]?.id || "",
+                weight: 0,
+              }
+            }
+            categories={categories || []}
+            totalWeight={totalWeight}
+            currentGoalWeight={editingGoal?.id ? editingGoal.weight : 0}
+            parentGoals={parentGoals}
+            onSave={handleSaveGoal}
+            onCancel={handleCancelEdit}
+            isSaving={isSaving}
+          />
+        </div>
+      )}
 
       {/* Goals list */}
       <GoalsList
@@ -134,6 +197,7 @@ export function GoalsDefinitionPage({ processId, employeeId, process, employee }
         onEditGoal={handleEditGoal}
         onDeleteGoal={deleteGoal}
         isDeletingGoal={isDeletingGoal}
+        parentGoals={parentGoals}
       />
     </div>
   );
@@ -3,9 +3,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Trash2, Edit } from "lucide-react";
+import { formatMetricValue } from "@/lib/goal-metrics";
 import type { GoalsListProps } from "./types";
 
-export function GoalsList({ goals, totalWeight, isLoading, onEditGoal, onDeleteGoal, isDeletingGoal }: GoalsListProps) {
+export function GoalsList({
+  goals,
+  totalWeight,
+  isLoading,
+  onEditGoal,
+  onDeleteGoal,
+  isDeletingGoal,
+  parentGoals,
+}: GoalsListProps) {
   if (isLoading) {
     return (
       <div className="py-4">
@@ -52,15 +61,34 @@ export function GoalsList({ goals, totalWeight, isLoading, onEditGoal, onDeleteG
           <Card key={goal.id} className="relative shadow-sm hover:shadow transition-shadow">
             <CardHeader className="pb-2">
               <div className="flex justify-between items-start">
-                <Badge variant="outline" className="text-xs">
-                  {goal.category.name}
-                </Badge>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline" className="text-xs">
+                    {goal.category.name}
+                  </Badge>
+                  {goal.sharedGoalId && (
+                    <Badge variant="secondary" className="text-xs">
+                      Cel wspólny
+                    </Badge>
+                  )}
+                </div>
                 <span className="font-medium text-sm">{goal.formattedWeight}</span>
               </div>
             </CardHeader>
             <CardContent>
               <h3 className="text-lg font-medium mb-1">{goal.title || "Bez tytułu"}</h3>
               <p className="text-sm text-gray-600 dark:text-gray-400">{goal.description}</p>
+              {goal.metric && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {goal.metric.name}: {formatMetricValue(goal.metric.baselineValue, goal.metric.unit)} →{" "}
+                  {formatMetricValue(goal.metric.targetValue, goal.metric.unit)}
+                </p>
+              )}
+              {goal.parentGoalId && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Cel nadrzędny:{" "}
+                  {parentGoals?.find((parent) => parent.id === goal.parentGoalId)?.title || "cel kierownika"}
+                </p>
+              )}
 
               <div className="flex justify-end gap-2 mt-4">
                 <Button
@@ -0,0 +1,68 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pagination } from "@/components/ui/pagination";
+import { usePredefinedGoals } from "./hooks/usePredefinedGoals";
+import type { PredefinedGoalPickerProps } from "./types";
+
+const ALL_CATEGORIES = "all";
+
+export function PredefinedGoalPicker({ categories, onPick, onClose }: PredefinedGoalPickerProps) {
+  const { goals, category, changeCategory, page, setPage, totalPages, isLoading, error } = usePredefinedGoals();
+
+  return (
+    <div className="border rounded-md p-3 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium text-sm">Biblioteka celów</h4>
+        <Button type="button" variant="ghost" size="sm" onClick={onClose}>
+          Zamknij
+        </Button>
+      </div>
+
+      <Select
+        value={category ?? ALL_CATEGORIES}
+        onValueChange={(value) => changeCategory(value === ALL_CATEGORIES ? undefined : value)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Wszystkie kategorie" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_CATEGORIES}>Wszystkie kategorie</SelectItem>
+          {categories.map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Ładowanie biblioteki...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : goals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak celów w bibliotece</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {goals.map((goal) => (
+            <li key={goal.id}>
+              <button
+                type="button"
+                onClick={() => onPick(goal)}
+                className="w-full text-left p-2 rounded-md border bg-white hover:bg-gray-50 dark:bg-slate-800 transition-colors"
+              >
+                <div className="text-sm font-medium">{goal.title}</div>
+                <div className="text-xs text-muted-foreground">{goal.categoryName}</div>
+                <div className="text-xs text-gray-600 line-clamp-2">{goal.description}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />}
+    </div>
+  );
+}
+
+export default PredefinedGoalPicker;
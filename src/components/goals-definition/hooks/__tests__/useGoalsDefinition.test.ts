@@ -104,6 +104,7 @@ describe("useGoalsDefinition", () => {
             JSON.stringify({
               goals: mockGoals,
               totalWeight: 70,
+              participantStatus: "in_definition",
             }),
             {
               status: 200,
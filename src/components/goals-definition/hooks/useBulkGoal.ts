@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  BulkCreateGoalCommand,
+  BulkCreateGoalsResponse,
+  BulkGoalResultDTO,
+  CreateSharedGoalCommand,
+  SharedGoalResponse,
+  UserDTO,
+  UserProfile,
+} from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook tworzący ten sam cel dla wielu bezpośrednich podwładnych zalogowanego kierownika
+export function useBulkGoal(processId: string) {
+  const [teamMembers, setTeamMembers] = useState<UserDTO[]>([]);
+  const [results, setResults] = useState<BulkGoalResultDTO[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTeam = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const profileResponse = await authFetch("/api/auth/me");
+        if (!profileResponse.ok) {
+          throw new Error("Nie udało się pobrać danych użytkownika");
+        }
+        const profile: UserProfile = await profileResponse.json();
+
+        const userResponse = await authFetch(`/api/users/${profile.id}`);
+        if (!userResponse.ok) {
+          throw new Error("Nie udało się pobrać listy podwładnych");
+        }
+        const user: UserDTO = await userResponse.json();
+        setTeamMembers(user.subordinates || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się pobrać listy podwładnych");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTeam();
+  }, []);
+
+  const createGoal = useCallback(
+    async (command: BulkCreateGoalCommand) => {
+      setIsSaving(true);
+      setError(null);
+      setResults(null);
+
+      try {
+        const response = await authFetch(`/api/assessment-processes/${processId}/goals/bulk`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(command),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Nie udało się utworzyć celów");
+        }
+
+        const { results: employeeResults } = data as BulkCreateGoalsResponse;
+        setResults(employeeResults);
+        return employeeResults;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się utworzyć celów");
+        return null;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [processId]
+  );
+
+  // Cel wspólny - jedna definicja przypisana pracownikom z indywidualnymi wagami
+  const createSharedGoal = useCallback(
+    async (command: CreateSharedGoalCommand) => {
+      setIsSaving(true);
+      setError(null);
+      setResults(null);
+
+      try {
+        const response = await authFetch(`/api/assessment-processes/${processId}/shared-goals`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(command),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Nie udało się utworzyć celu wspólnego");
+        }
+
+        const { results: employeeResults } = data as SharedGoalResponse;
+        setResults(employeeResults);
+        return employeeResults;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się utworzyć celu wspólnego");
+        return null;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [processId]
+  );
+
+  return { teamMembers, results, createGoal, createSharedGoal, isLoading, isSaving, error };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  AssessmentProcessDTO,
+  AssessmentProcessListResponse,
+  CopyGoalsCommand,
+  GoalDTO,
+  GoalListResponse,
+} from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook wybierający cele pracownika z wcześniejszego procesu i kopiujący je do bieżącego
+export function useGoalCopy(processId: string, employeeId: string, currentStartDate?: string) {
+  const [processes, setProcesses] = useState<AssessmentProcessDTO[]>([]);
+  const [sourceProcessId, setSourceProcessId] = useState<string | null>(null);
+  const [sourceGoals, setSourceGoals] = useState<GoalDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCopying, setIsCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Wcześniejsze procesy - lista z API jest posortowana od najnowszego
+  useEffect(() => {
+    const fetchProcesses = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await authFetch("/api/assessment-processes?limit=100");
+        if (!response.ok) {
+          throw new Error("Nie udało się pobrać procesów oceny");
+        }
+
+        const data: AssessmentProcessListResponse = await response.json();
+        setProcesses(
+          data.processes.filter(
+            (process) => process.id !== processId && (!currentStartDate || process.startDate < currentStartDate)
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się pobrać procesów oceny");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchProcesses();
+  }, [processId, currentStartDate]);
+
+  const selectSourceProcess = useCallback(
+    async (id: string) => {
+      setSourceProcessId(id);
+      setSourceGoals([]);
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await authFetch(`/api/assessment-processes/${id}/employees/${employeeId}/goals`);
+        if (!response.ok) {
+          throw new Error("Nie udało się pobrać celów z wybranego procesu");
+        }
+
+        const data: GoalListResponse = await response.json();
+        setSourceGoals(data.goals);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się pobrać celów z wybranego procesu");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [employeeId]
+  );
+
+  const copyGoals = useCallback(
+    async (goals: CopyGoalsCommand["goals"]) => {
+      if (!sourceProcessId) return false;
+
+      setIsCopying(true);
+      setError(null);
+
+      try {
+        const command: CopyGoalsCommand = { sourceProcessId, goals };
+        const response = await authFetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals/copy`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(command),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Nie udało się skopiować celów");
+        }
+
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się skopiować celów");
+        return false;
+      } finally {
+        setIsCopying(false);
+      }
+    },
+    [processId, employeeId, sourceProcessId]
+  );
+
+  return {
+    processes,
+    sourceProcessId,
+    selectSourceProcess,
+    sourceGoals,
+    copyGoals,
+    isLoading,
+    isCopying,
+    error,
+  };
+}
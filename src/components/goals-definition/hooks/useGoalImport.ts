@@ -0,0 +1,55 @@
+import { useCallback, useState } from "react";
+import type { GoalImportPreviewDTO } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook sprawdzający plik z celami zespołu (dry run) i wykonujący import
+export function useGoalImport(processId: string) {
+  const [preview, setPreview] = useState<GoalImportPreviewDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = useCallback(
+    async (file: File, dryRun: boolean) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("dryRun", String(dryRun));
+
+        const response = await authFetch(`/api/assessment-processes/${processId}/goals/import`, {
+          method: "POST",
+          body: formData,
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          // Odpowiedź z błędami walidacji zawiera podgląd z błędami poszczególnych wierszy
+          if (data.details?.rows) {
+            setPreview(data.details);
+          }
+          throw new Error(data.error || "Nie udało się zaimportować celów");
+        }
+
+        setPreview(data as GoalImportPreviewDTO);
+        return data as GoalImportPreviewDTO;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się zaimportować celów");
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [processId]
+  );
+
+  const checkFile = useCallback((file: File) => submit(file, true), [submit]);
+  const applyImport = useCallback((file: File) => submit(file, false), [submit]);
+  const reset = useCallback(() => {
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  return { preview, isLoading, error, checkFile, applyImport, reset };
+}
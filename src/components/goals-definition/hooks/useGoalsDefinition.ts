@@ -6,14 +6,16 @@ import type {
   EmployeeDTO,
   CreateGoalCommand,
   UpdateGoalCommand,
+  GoalListResponse,
 } from "@/types";
 import type { UseGoalsDefinitionProps, UseGoalsDefinitionResult, GoalViewModel } from "../types";
+import { authFetch } from "@/lib/auth-client";
 
 // API client for goal definition operations
 const goalsDefinitionApi = {
   // Fetch goals for an employee
   fetchGoals: async (processId: string, employeeId: string) => {
-    const response = await fetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`);
+    const response = await authFetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`);
 
     if (!response.ok) {
       if (response.status === 401) {
@@ -27,31 +29,19 @@ const goalsDefinitionApi = {
       }
     }
 
-    const data = await response.json();
-
-    // Get process status from response or fetch it separately
-    let processStatus: AssessmentProcessStatus = "in_definition";
-
-    try {
-      const processResponse = await fetch(`/api/assessment-processes/${processId}`);
-      if (processResponse.ok) {
-        const processData = await processResponse.json();
-        processStatus = processData.status;
-      }
-    } catch {
-      // Ignore errors, use default status
-    }
+    const data: GoalListResponse = await response.json();
 
     return {
-      goals: data.goals as GoalDTO[],
-      totalWeight: data.totalWeight as number,
-      processStatus,
+      goals: data.goals,
+      totalWeight: data.totalWeight,
+      // Workflow status of this employee within the process
+      processStatus: data.participantStatus,
     };
   },
 
   // Fetch goal categories
   fetchCategories: async () => {
-    const response = await fetch("/api/goal-categories");
+    const response = await authFetch("/api/goal-categories");
 
     if (!response.ok) {
       throw new Error("Nie udało się pobrać kategorii celów");
@@ -63,7 +53,7 @@ const goalsDefinitionApi = {
 
   // Fetch employee data
   fetchEmployee: async (employeeId: string) => {
-    const response = await fetch(`/api/users/${employeeId}`);
+    const response = await authFetch(`/api/users/${employeeId}`);
 
     if (!response.ok) {
       throw new Error("Nie udało się pobrać danych pracownika");
@@ -74,7 +64,7 @@ const goalsDefinitionApi = {
 
   // Add a new goal
   addGoal: async (processId: string, employeeId: string, goal: CreateGoalCommand) => {
-    const response = await fetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`, {
+    const response = await authFetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -85,7 +75,7 @@ const goalsDefinitionApi = {
     if (!response.ok) {
       if (response.status === 400) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Nieprawidłowe dane celu");
+        throw new Error(errorData.error || errorData.message || "Nieprawidłowe dane celu");
       } else {
         throw new Error("Nie udało się dodać celu");
       }
@@ -96,7 +86,7 @@ const goalsDefinitionApi = {
 
   // Update an existing goal
   updateGoal: async (goalId: string, goal: UpdateGoalCommand) => {
-    const response = await fetch(`/api/goals/${goalId}`, {
+    const response = await authFetch(`/api/goals/${goalId}`, {
       method: "PUT",
       headers: {
         "Content-Type": "application/json",
@@ -107,7 +97,7 @@ const goalsDefinitionApi = {
     if (!response.ok) {
       if (response.status === 400) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Nieprawidłowe dane celu");
+        throw new Error(errorData.error || errorData.message || "Nieprawidłowe dane celu");
       } else {
         throw new Error("Nie udało się zaktualizować celu");
       }
@@ -118,7 +108,7 @@ const goalsDefinitionApi = {
 
   // Delete a goal
   deleteGoal: async (goalId: string) => {
-    const response = await fetch(`/api/goals/${goalId}`, {
+    const response = await authFetch(`/api/goals/${goalId}`, {
       method: "DELETE",
     });
 
@@ -127,17 +117,21 @@ const goalsDefinitionApi = {
     }
   },
 
-  // Update process status
-  updateProcessStatus: async (processId: string, status: AssessmentProcessStatus) => {
-    const response = await fetch(`/api/assessment-processes/${processId}/status`, {
+  // Update the employee's status within the process
+  updateProcessStatus: async (processId: string, employeeId: string, status: AssessmentProcessStatus) => {
+    const response = await authFetch(`/api/assessment-processes/${processId}/participants/status`, {
       method: "PUT",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({ status, employeeIds: [employeeId] }),
     });
 
     if (!response.ok) {
+      if (response.status === 400) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Nie udało się zmienić statusu procesu");
+      }
       throw new Error("Nie udało się zmienić statusu procesu");
     }
   },
@@ -190,6 +184,9 @@ export function useGoalsDefinition({ processId, employeeId }: UseGoalsDefinition
         description: goal.description,
         weight: goal.weight,
         category: goal.category,
+        sharedGoalId: goal.sharedGoalId,
+        parentGoalId: goal.parentGoalId,
+        metric: goal.metric,
         formattedWeight: `${goal.weight}%`,
         isReadOnly: false,
       }));
@@ -226,6 +223,9 @@ export function useGoalsDefinition({ processId, employeeId }: UseGoalsDefinition
             description: newGoal.description,
             weight: newGoal.weight,
             category: newGoal.category,
+            sharedGoalId: newGoal.sharedGoalId,
+            parentGoalId: newGoal.parentGoalId,
+            metric: newGoal.metric,
             formattedWeight: `${newGoal.weight}%`,
             isReadOnly: false,
           },
@@ -267,6 +267,9 @@ export function useGoalsDefinition({ processId, employeeId }: UseGoalsDefinition
                   description: updatedGoal.description,
                   weight: updatedGoal.weight,
                   category: updatedGoal.category,
+                  sharedGoalId: updatedGoal.sharedGoalId,
+                  parentGoalId: updatedGoal.parentGoalId,
+                  metric: updatedGoal.metric,
                   formattedWeight: `${updatedGoal.weight}%`,
                   isReadOnly: false,
                 }
@@ -319,8 +322,8 @@ export function useGoalsDefinition({ processId, employeeId }: UseGoalsDefinition
   const updateProcessStatus = useCallback(
     async (status: AssessmentProcessStatus) => {
       // Validate total weight before changing status
-      if (status === "in_self_assessment" && totalWeight !== 100) {
-        setError("Suma wag celów musi wynosić 100% przed przejściem do etapu samooceny.");
+      if (status !== "in_definition" && totalWeight !== 100) {
+        setError("Suma wag celów musi wynosić 100% przed zakończeniem definiowania celów.");
         return;
       }
 
@@ -328,7 +331,7 @@ export function useGoalsDefinition({ processId, employeeId }: UseGoalsDefinition
       setError(null);
 
       try {
-        await goalsDefinitionApi.updateProcessStatus(processId, status);
+        await goalsDefinitionApi.updateProcessStatus(processId, employeeId, status);
 
         // Update local state
         setProcessStatus(status);
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import type { GoalDTO } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook pobierający cele kierownika pracownika, z którymi można powiązać cele pracownika
+export function useParentGoals(processId: string, employeeId: string) {
+  const [parentGoals, setParentGoals] = useState<GoalDTO[]>([]);
+
+  useEffect(() => {
+    const fetchParentGoals = async () => {
+      try {
+        const response = await authFetch(
+          `/api/assessment-processes/${processId}/employees/${employeeId}/goals/parent-options`
+        );
+        if (!response.ok) {
+          throw new Error("Nie udało się pobrać celów kierownika");
+        }
+
+        const data: { goals: GoalDTO[] } = await response.json();
+        setParentGoals(data.goals);
+      } catch (err) {
+        // Brak celów kierownika nie blokuje definiowania celów
+        console.error("Error fetching parent goals:", err);
+        setParentGoals([]);
+      }
+    };
+
+    fetchParentGoals();
+  }, [processId, employeeId]);
+
+  return { parentGoals };
+}
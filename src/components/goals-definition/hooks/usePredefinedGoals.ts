@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import type { PredefinedGoalDTO, PredefinedGoalListResponse } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+const PAGE_SIZE = 10;
+
+// Hook browsing the predefined goal library with category filter and pagination
+export function usePredefinedGoals() {
+  const [goals, setGoals] = useState<PredefinedGoalDTO[]>([]);
+  const [category, setCategory] = useState<string | undefined>();
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGoals = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const queryParams = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (category) queryParams.set("category", category);
+
+      const response = await authFetch(`/api/predefined-goals?${queryParams.toString()}`);
+      if (!response.ok) {
+        throw new Error("Nie udało się pobrać biblioteki celów");
+      }
+
+      const data: PredefinedGoalListResponse = await response.json();
+      setGoals(data.goals);
+      setTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać biblioteki celów");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [category, page]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const changeCategory = (categoryId: string | undefined) => {
+    setCategory(categoryId);
+    setPage(1);
+  };
+
+  return {
+    goals,
+    category,
+    changeCategory,
+    page,
+    setPage,
+    totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+    isLoading,
+    error,
+  };
+}
@@ -2,6 +2,8 @@ import type {
   AssessmentProcessStatus,
   GoalCategoryDTO,
   GoalDTO,
+  GoalMetricDTO,
+  PredefinedGoalDTO,
   EmployeeDTO,
   CreateGoalCommand,
   UpdateGoalCommand,
@@ -19,6 +21,9 @@ export interface GoalViewModel {
   };
   formattedWeight: string; // "XX%" - dla prezentacji
   isReadOnly: boolean; // w tym przypadku zawsze false, bo widok umożliwia edycję
+  sharedGoalId?: string | null; // cel wspólny kilku pracowników
+  parentGoalId?: string | null; // cel kierownika, który realizuje ten cel
+  metric?: GoalMetricDTO | null; // miernik celu mierzalnego
 }
 
 // Props dla komponentów
@@ -44,6 +49,7 @@ export interface GoalsListProps {
   onEditGoal: (goal: GoalViewModel) => void;
   onDeleteGoal: (goalId: string) => Promise<void>;
   isDeletingGoal: Record<string, boolean>;
+  parentGoals?: GoalDTO[]; // cele kierownika - do wyświetlenia celu nadrzędnego
 }
 
 export interface GoalCardProps {
@@ -60,21 +66,74 @@ export interface GoalFormProps {
     description: string;
     categoryId: string;
     weight: number;
+    parentGoalId?: string | null;
+    metric?: GoalMetricDTO | null;
   };
   categories: GoalCategoryDTO[];
   totalWeight: number;
   currentGoalWeight: number; // Current weight in case of edit
+  parentGoals?: GoalDTO[]; // cele kierownika do wyboru celu nadrzędnego (brak - pole ukryte)
   onSave: (goal: {
     description: string;
     categoryId: string;
     weight: number;
     id?: string;
     title: string;
+    parentGoalId?: string | null;
+    metric?: GoalMetricDTO | null;
   }) => Promise<void>;
   onCancel: () => void;
   isSaving: boolean;
 }
 
+// Wartości pól miernika w formularzu (liczby jako tekst - pola mogą być puste)
+export interface GoalMetricFormValues {
+  name: string;
+  unit: string;
+  baselineValue: string;
+  targetValue: string;
+  actualValue: string;
+}
+
+export interface GoalMetricFieldsProps {
+  values: GoalMetricFormValues;
+  onChange: (values: GoalMetricFormValues) => void;
+  errors: Partial<Record<keyof GoalMetricFormValues, string>>;
+  disabled: boolean;
+}
+
+export interface PredefinedGoalPickerProps {
+  categories: GoalCategoryDTO[];
+  onPick: (goal: PredefinedGoalDTO) => void;
+  onClose: () => void;
+}
+
+export interface GoalImportPanelProps {
+  processId: string;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+export interface CopyGoalsPanelProps {
+  processId: string;
+  employeeId: string;
+  currentStartDate?: string;
+  /** Tytuły celów istniejących w bieżącym procesie - nie można ich skopiować ponownie */
+  existingTitles: string[];
+  totalWeight: number;
+  onCopied: () => void;
+  onClose: () => void;
+}
+
+export interface BulkGoalPanelProps {
+  processId: string;
+  /** Pracownik, którego cele są aktualnie edytowane - domyślnie zaznaczony */
+  employeeId: string;
+  categories: GoalCategoryDTO[];
+  onCreated: () => void;
+  onClose: () => void;
+}
+
 // Hook props i rezultaty
 export interface UseGoalsDefinitionProps {
   processId: string;
@@ -116,5 +175,5 @@ export interface GoalsDefinitionApi {
   addGoal: (processId?: string, employeeId?: string, goal?: CreateGoalCommand) => Promise<GoalDTO>;
   updateGoal: (goalId?: string, goal?: UpdateGoalCommand) => Promise<GoalDTO>;
   deleteGoal: (goalId?: string) => Promise<void>;
-  updateProcessStatus: (processId?: string, status?: AssessmentProcessStatus) => Promise<void>;
+  updateProcessStatus: (processId?: string, employeeId?: string, status?: AssessmentProcessStatus) => Promise<void>;
 }
@@ -1,12 +1,16 @@
 import React, { useEffect } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { formatRating } from "@/lib/rating-scale";
+import { calculateAchievement, formatMetricValue } from "@/lib/goal-metrics";
 import type { GoalCardProps } from "./types";
 import { SelfAssessmentForm } from "./SelfAssessmentForm";
 import { ManagerAssessmentForm } from "./ManagerAssessmentForm";
+import { GoalProgressLog } from "./GoalProgressLog";
 
 export function GoalCard({
   goal,
+  ratingScale,
   canEditSelfAssessment,
   saveSelfAssessment,
   isSaving,
@@ -34,9 +38,16 @@ export function GoalCard({
     <Card className="mb-4 shadow-sm hover:shadow transition-shadow">
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
-          <Badge variant="outline" className="text-xs">
-            {goal.category.name}
-          </Badge>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="outline" className="text-xs">
+              {goal.category.name}
+            </Badge>
+            {goal.sharedGoalId && (
+              <Badge variant="secondary" className="text-xs">
+                Cel wspólny
+              </Badge>
+            )}
+          </div>
           <span className="font-medium text-sm">{goal.formattedWeight}</span>
         </div>
       </CardHeader>
@@ -44,12 +55,41 @@ export function GoalCard({
         <h3 className="text-lg font-medium mb-1">{goal.title}</h3>
         <p className="text-sm text-gray-600 dark:text-gray-400">{goal.description}</p>
 
+        {goal.metric && (
+          <dl className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <div>
+              <dt className="text-xs text-muted-foreground">Miernik</dt>
+              <dd className="font-medium">{goal.metric.name}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-muted-foreground">Wartość bazowa</dt>
+              <dd>{formatMetricValue(goal.metric.baselineValue, goal.metric.unit)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-muted-foreground">Cel</dt>
+              <dd>{formatMetricValue(goal.metric.targetValue, goal.metric.unit)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-muted-foreground">Wykonanie</dt>
+              <dd>
+                {formatMetricValue(goal.metric.actualValue, goal.metric.unit)}
+                {calculateAchievement(goal.metric) !== null && ` (${calculateAchievement(goal.metric)}%)`}
+              </dd>
+            </div>
+          </dl>
+        )}
+
+        {/* Dziennik postępów - wpisy pracownika i odpowiedzi kierownika */}
+        <GoalProgressLog goalId={goal.id} />
+
         {/* Wyświetlenie formularza samooceny tylko gdy canEditSelfAssessment jest true */}
         {canEditSelfAssessment && saveSelfAssessment && (
           <SelfAssessmentForm
             goalId={goal.id}
+            ratingScale={ratingScale}
             initialRating={goal.selfAssessment?.rating}
             initialComment={goal.selfAssessment?.comment}
+            metric={goal.metric}
             onSave={saveSelfAssessment}
             isSaving={!!isSaving}
           />
@@ -61,7 +101,7 @@ export function GoalCard({
             <div className="space-y-3">
               <div>
                 <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Samoocena</h4>
-                <p className="text-lg font-medium">{goal.selfAssessment.rating}/150</p>
+                <p className="text-lg font-medium">{formatRating(ratingScale, goal.selfAssessment.rating)}</p>
               </div>
 
               {goal.selfAssessment.comment && (
@@ -78,6 +118,7 @@ export function GoalCard({
         {saveManagerAssessment && (
           <ManagerAssessmentForm
             goalId={goal.id}
+            ratingScale={ratingScale}
             initialRating={goal.managerAssessment?.rating}
             initialComment={goal.managerAssessment?.comment}
             onSave={saveManagerAssessment}
@@ -92,7 +133,7 @@ export function GoalCard({
             <div className="space-y-3">
               <div>
                 <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Ocena kierownika</h4>
-                <p className="text-lg font-medium">{goal.managerAssessment.rating}/150</p>
+                <p className="text-lg font-medium">{formatRating(ratingScale, goal.managerAssessment.rating)}</p>
               </div>
 
               {goal.managerAssessment.comment && (
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useGoalProgress } from "./hooks/useGoalProgress";
+import type { GoalProgressLogProps, ProgressReplyFormProps } from "./types";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("pl-PL");
+
+// Formularz odpowiedzi kierownika na pojedynczy wpis
+function ProgressReplyForm({ entryId, onReply, isSaving }: ProgressReplyFormProps) {
+  const [note, setNote] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) return;
+
+    try {
+      await onReply(entryId, note.trim());
+      setNote("");
+    } catch {
+      // Błąd jest wyświetlany przez komponent nadrzędny
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 mt-2">
+      <Input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Odpowiedz na wpis"
+        disabled={isSaving}
+        aria-label="Odpowiedź kierownika"
+      />
+      <Button type="submit" variant="outline" size="sm" disabled={isSaving || !note.trim()}>
+        Odpowiedz
+      </Button>
+    </form>
+  );
+}
+
+export function GoalProgressLog({ goalId }: GoalProgressLogProps) {
+  const { entries, canAddEntry, canReply, isLoading, isSaving, error, addEntry, addReply } = useGoalProgress(goalId);
+  const [progress, setProgress] = useState(0);
+  const [note, setNote] = useState("");
+  const [entryDate, setEntryDate] = useState(today());
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Nowy wpis zaczyna od ostatnio zgłoszonego stopnia realizacji
+  useEffect(() => {
+    setProgress(entries[0]?.progress ?? 0);
+  }, [entries]);
+
+  // Sekcja jest ukryta, gdy nie ma wpisów i nie można niczego dodać
+  if (isLoading || (entries.length === 0 && !canAddEntry && !error)) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!note.trim()) {
+      setFormError("Opis postępu jest wymagany");
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await addEntry({ progress, note: note.trim(), entryDate });
+      setNote("");
+      setEntryDate(today());
+    } catch {
+      // Błąd jest ustawiany przez hook
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+      <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Postępy realizacji</h4>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {canAddEntry && (
+        <form onSubmit={handleSubmit} className="space-y-2 p-3 rounded-md bg-gray-50 dark:bg-gray-900">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`progress-${goalId}`} className="text-xs">
+                Stopień realizacji (%)
+              </Label>
+              <Input
+                id={`progress-${goalId}`}
+                type="number"
+                min="0"
+                max="100"
+                value={progress}
+                onChange={(e) => setProgress(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`progress-date-${goalId}`} className="text-xs">
+                Data
+              </Label>
+              <Input
+                id={`progress-date-${goalId}`}
+                type="date"
+                value={entryDate}
+                max={today()}
+                onChange={(e) => setEntryDate(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`progress-note-${goalId}`} className="text-xs">
+              Opis postępu
+            </Label>
+            <textarea
+              id={`progress-note-${goalId}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={isSaving}
+              className="w-full min-h-[60px] px-3 py-2 rounded-md border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="Co udało się zrealizować od ostatniego wpisu?"
+            />
+          </div>
+          {formError && <p className="text-destructive text-sm">{formError}</p>}
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? "Zapisywanie..." : "Dodaj wpis"}
+          </Button>
+        </form>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak wpisów postępu.</p>
+      ) : (
+        <ol className="space-y-3">
+          {entries.map((entry) => (
+            <li key={entry.id} className="text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {formatDate(entry.entryDate)}
+                  {entry.author.name && ` - ${entry.author.name}`}
+                </span>
+                <span className="font-medium">{entry.progress}%</span>
+              </div>
+              <div className="h-1.5 mt-1 rounded-full bg-gray-200 dark:bg-gray-800">
+                <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${entry.progress}%` }} />
+              </div>
+              <p className="mt-1 whitespace-pre-line">{entry.note}</p>
+
+              {entry.replies.length > 0 && (
+                <ul className="mt-2 ml-4 pl-3 border-l-2 border-amber-300 space-y-1">
+                  {entry.replies.map((reply) => (
+                    <li key={reply.id}>
+                      <span className="text-xs text-muted-foreground">
+                        {reply.author.name || "Kierownik"}, {formatDate(reply.createdAt)}
+                      </span>
+                      <p className="whitespace-pre-line">{reply.note}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canReply && <ProgressReplyForm entryId={entry.id} onReply={addReply} isSaving={isSaving} />}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
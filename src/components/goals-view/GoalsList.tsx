@@ -7,6 +7,7 @@ export function GoalsList({
   totalWeight,
   isLoading,
   processStatus,
+  ratingScale,
   canEditSelfAssessment,
   saveSelfAssessment,
   isSaving,
@@ -46,6 +47,12 @@ export function GoalsList({
         <p>Proces jest obecnie w etapie samooceny. Możesz wprowadzić samoocenę dla każdego celu.</p>
       </div>
     );
+  } else if (processStatus === "in_progress") {
+    messageToShow = (
+      <div className="p-4 bg-blue-50 text-blue-700 rounded-md mb-4">
+        <p>Cele są obecnie w realizacji. Pod każdym celem możesz śledzić i dokumentować postępy.</p>
+      </div>
+    );
   } else if (processStatus === "awaiting_manager_assessment" && canEditManagerAssessment) {
     messageToShow = (
       <div className="p-4 bg-amber-50 text-amber-700 rounded-md mb-4">
@@ -72,6 +79,7 @@ export function GoalsList({
             key={goal.id}
             goal={goal}
             processStatus={processStatus}
+            ratingScale={ratingScale}
             canEditSelfAssessment={canEditSelfAssessment}
             saveSelfAssessment={saveSelfAssessment}
             isSaving={isSaving?.[goal.id]}
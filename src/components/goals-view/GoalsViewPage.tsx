@@ -1,11 +1,15 @@
 import { ProcessStepper } from "../dashboard/ProcessStepper";
+import { ProcessStatusTimeline } from "../dashboard/ProcessStatusTimeline";
 import { GoalsList } from "./GoalsList";
 import { useGoals } from "./hooks/useGoals";
 import { useManagerAssessment } from "./hooks/useManagerAssessment";
+import { useScoreSummary } from "./hooks/useScoreSummary";
+import { ScoreSummaryPanel } from "./ScoreSummaryPanel";
 import type { AssessmentProcessStatus, AssessmentProcessViewModel } from "@/types";
 import { useEffect, useState } from "react";
 import { Button } from "../ui/button";
-import { ArrowLeft, User } from "lucide-react";
+import { ArrowLeft, FileDown, User } from "lucide-react";
+import { authFetch } from "@/lib/auth-client";
 
 interface GoalsViewPageProps {
   processId: string;
@@ -59,6 +63,7 @@ export function GoalsViewPage({ processId, employeeId, process }: GoalsViewPageP
     isSaving: isSavingSelfAssessment,
     employee,
     processStatus,
+    ratingScale,
   } = useGoals({
     processId,
     employeeId: localEmployeeId,
@@ -79,28 +84,56 @@ export function GoalsViewPage({ processId, employeeId, process }: GoalsViewPageP
     employeeId: localEmployeeId,
   });
 
+  // Hook do pobierania ważonych wyników pracownika
+  const {
+    summary,
+    isLoading: isLoadingSummary,
+    error: summaryError,
+    reload: reloadSummary,
+  } = useScoreSummary({
+    processId,
+    employeeId: localEmployeeId,
+  });
+
   // Funkcja do przeładowania wszystkich danych
   const reload = () => {
     reloadGoals();
     reloadManagerAssessments();
+    reloadSummary();
   };
 
-  // Handler dla zmiany statusu procesu
-  const handleStatusChange = async (newStatus: AssessmentProcessStatus) => {
+  // Po zapisaniu oceny przelicz wynik ważony
+  const handleSaveSelfAssessment = async (
+    goalId: string,
+    rating: number,
+    comment: string,
+    actualValue?: number | null
+  ) => {
+    await saveSelfAssessment(goalId, rating, comment, actualValue);
+    reloadSummary();
+  };
+
+  const handleSaveManagerAssessment = async (goalId: string, rating: number, comment: string) => {
+    await saveManagerAssessment(goalId, rating, comment);
+    reloadSummary();
+  };
+
+  // Handler dla zmiany statusu pracownika w procesie
+  const handleStatusChange = async (newStatus: AssessmentProcessStatus, reason?: string) => {
     if (!process || isUpdatingStatus) return;
 
     try {
       setIsUpdatingStatus(true);
 
-      const response = await fetch(`/api/assessment-processes/${processId}/status`, {
+      const response = await authFetch(`/api/assessment-processes/${processId}/participants/status`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({
           status: newStatus,
-          processId: processId,
+          employeeIds: [localEmployeeId],
+          reason,
         }),
       });
 
@@ -214,23 +247,40 @@ export function GoalsViewPage({ processId, employeeId, process }: GoalsViewPageP
 
   return (
     <div className="container mx-auto px-4 py-6">
-      <div className="flex items-center mb-4">
+      <div className="flex items-center justify-between mb-4">
         <Button variant="ghost" size="sm" className="flex items-center gap-1" asChild>
           <a href="/dashboard">
             <ArrowLeft className="h-4 w-4" /> Powrót do strony głównej
           </a>
         </Button>
+
+        {/* Raport do podpisu jest dostępny po zakończeniu oceny */}
+        {processStatus === "completed" && localEmployeeId && (
+          <Button variant="outline" size="sm" className="flex items-center gap-1" asChild>
+            <a href={`/api/assessment-processes/${processId}/employees/${localEmployeeId}/report`} download>
+              <FileDown className="h-4 w-4" /> Pobierz raport PDF
+            </a>
+          </Button>
+        )}
       </div>
 
+      <ScoreSummaryPanel
+        summary={summary}
+        ratingScale={ratingScale}
+        isLoading={isLoadingSummary}
+        error={summaryError}
+      />
+
       {process && (
         <div className="mb-6">
           <h1 className="text-2xl font-bold mb-4">{process.name}</h1>
           <ProcessStepper
-            currentStatus={process.status}
+            currentStatus={processStatus}
             isManager={isManager}
             onStatusChange={handleStatusChange}
             processId={process.id}
           />
+          <ProcessStatusTimeline processId={process.id} employeeId={localEmployeeId} currentStatus={processStatus} />
         </div>
       )}
 
@@ -255,11 +305,12 @@ export function GoalsViewPage({ processId, employeeId, process }: GoalsViewPageP
           totalWeight={totalWeight}
           isLoading={fullIsLoading}
           processStatus={processStatus}
+          ratingScale={ratingScale}
           canEditSelfAssessment={canEditSelfAssessment}
-          saveSelfAssessment={saveSelfAssessment}
+          saveSelfAssessment={handleSaveSelfAssessment}
           isSaving={isSavingSelfAssessment}
           canEditManagerAssessment={canEditManagerAssessment}
-          saveManagerAssessment={saveManagerAssessment}
+          saveManagerAssessment={handleSaveManagerAssessment}
           isSavingManagerAssessment={isSavingManagerAssessment}
         />
       </div>
@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from "react";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { getRatingScaleBounds, validateRating } from "@/lib/rating-scale";
+import { RatingInput } from "./RatingInput";
 import type { ManagerAssessmentFormProps } from "./types";
 
 export function ManagerAssessmentForm({
   goalId,
+  ratingScale,
   initialRating,
   initialComment,
   onSave,
@@ -36,20 +38,11 @@ export function ManagerAssessmentForm({
     }
   }, [initialRating, initialComment]);
 
-  const handleRatingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10);
-    if (isNaN(value)) {
-      setRating(undefined);
-      return;
-    }
-
-    // Walidacja zakresu 0-150
-    if (value < 0 || value > 150) {
-      setError("Ocena musi być w zakresie 0-150");
-    } else {
-      setError(null);
-    }
+  const { min, max } = getRatingScaleBounds(ratingScale);
 
+  const handleRatingChange = (value: number) => {
+    // Walidacja zgodnie ze skalą ocen procesu
+    setError(validateRating(ratingScale, value));
     setRating(value);
   };
 
@@ -62,8 +55,9 @@ export function ManagerAssessmentForm({
       return;
     }
 
-    if (rating < 0 || rating > 150) {
-      setError("Ocena musi być w zakresie 0-150");
+    const ratingError = validateRating(ratingScale, rating);
+    if (ratingError) {
+      setError(ratingError);
       return;
     }
 
@@ -76,18 +70,14 @@ export function ManagerAssessmentForm({
       <div className="space-y-4">
         <div className="space-y-2">
           <Label htmlFor={`manager-rating-${goalId}`} className="text-sm font-medium">
-            Ocena kierownika (0-150)
+            Ocena kierownika ({min}-{max})
           </Label>
-          <Input
+          <RatingInput
             id={`manager-rating-${goalId}`}
-            type="number"
-            min={0}
-            max={150}
-            value={rating ?? ""}
+            scale={ratingScale}
+            value={rating}
             onChange={handleRatingChange}
             disabled={isSaving || !canEdit}
-            className="w-full"
-            placeholder="Wprowadź ocenę (0-150)"
           />
         </div>
 
@@ -0,0 +1,49 @@
+import React from "react";
+import { getRatingScaleBounds } from "@/lib/rating-scale";
+import type { RatingInputProps } from "./types";
+
+// Pole oceny renderowane zgodnie ze skalą procesu: suwak dla zakresu liczbowego lub lista opisanych ocen
+export function RatingInput({ id, scale, value, onChange, disabled }: RatingInputProps) {
+  if (scale.type === "options") {
+    return (
+      <div id={id} role="radiogroup" className="space-y-1">
+        {scale.options.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center gap-2 p-2 rounded-md border cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            <input
+              type="radio"
+              name={id}
+              value={option.value}
+              checked={value === option.value}
+              onChange={() => onChange(option.value)}
+              disabled={disabled}
+            />
+            <span className="text-sm font-medium">{option.value}</span>
+            <span className="text-sm text-gray-600 dark:text-gray-400">{option.label}</span>
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  const { min, max } = getRatingScaleBounds(scale);
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={scale.step}
+        value={value ?? min}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(parseInt(e.target.value, 10))}
+        disabled={disabled}
+        className="w-full accent-primary"
+      />
+      <span className="w-16 text-right text-sm font-medium">{value !== undefined ? value : "—"}</span>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getRatingScaleBounds } from "@/lib/rating-scale";
+import type { WeightedScoreDTO } from "@/types";
+import type { ScoreSummaryPanelProps } from "./types";
+
+interface ScoreTileProps {
+  label: string;
+  score: WeightedScoreDTO;
+  totalGoals: number;
+  maxRating: number;
+}
+
+function ScoreTile({ label, score, totalGoals, maxRating }: ScoreTileProps) {
+  return (
+    <div className="p-4 rounded-md border bg-gray-50 dark:bg-gray-800">
+      <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="text-2xl font-bold">{score.score !== null ? `${score.score}/${maxRating}` : "—"}</p>
+      <p className="text-xs text-muted-foreground">
+        {score.isComplete ? "Wszystkie cele ocenione" : `Ocenione cele: ${score.ratedGoals} z ${totalGoals}`}
+      </p>
+    </div>
+  );
+}
+
+// Panel z ważonymi wynikami pracownika wyświetlany nad listą celów
+export function ScoreSummaryPanel({ summary, ratingScale, isLoading, error }: ScoreSummaryPanelProps) {
+  if (error) {
+    return <div className="mb-6 bg-red-50 text-red-600 p-4 rounded-md">{error}</div>;
+  }
+
+  if (isLoading && !summary) {
+    return <div className="mb-6 p-4 text-sm text-muted-foreground">Obliczanie wyników...</div>;
+  }
+
+  if (!summary || summary.totalGoals === 0) {
+    return null;
+  }
+
+  const { max } = getRatingScaleBounds(ratingScale);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Wynik ważony</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <ScoreTile label="Samoocena" score={summary.selfAssessment} totalGoals={summary.totalGoals} maxRating={max} />
+          <ScoreTile
+            label="Ocena kierownika"
+            score={summary.managerAssessment}
+            totalGoals={summary.totalGoals}
+            maxRating={max}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ScoreSummaryPanel;
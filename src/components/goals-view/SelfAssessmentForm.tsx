@@ -1,18 +1,24 @@
 import React, { useState, useEffect } from "react";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { getRatingScaleBounds, validateRating } from "@/lib/rating-scale";
+import { calculateAchievement, suggestRating } from "@/lib/goal-metrics";
+import { RatingInput } from "./RatingInput";
 import type { SelfAssessmentFormProps } from "./types";
 
 export function SelfAssessmentForm({
   goalId,
+  ratingScale,
   initialRating,
   initialComment,
+  metric,
   onSave,
   isSaving,
 }: SelfAssessmentFormProps) {
   const [rating, setRating] = useState<number | undefined>(initialRating);
   const [comment, setComment] = useState(initialComment || "");
+  const [actualValue, setActualValue] = useState(metric?.actualValue?.toString() ?? "");
   const [error, setError] = useState<string | null>(null);
 
   // Log initial values for debugging
@@ -34,20 +40,19 @@ export function SelfAssessmentForm({
     }
   }, [initialRating, initialComment]);
 
-  const handleRatingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10);
-    if (isNaN(value)) {
-      setRating(undefined);
-      return;
-    }
+  const { min, max } = getRatingScaleBounds(ratingScale);
 
-    // Walidacja zakresu 0-150
-    if (value < 0 || value > 150) {
-      setError("Ocena musi być w zakresie 0-150");
-    } else {
-      setError(null);
-    }
+  // Podpowiedź oceny na podstawie wykonania miernika względem wartości docelowej
+  const parsedActualValue = actualValue.trim() === "" ? null : Number(actualValue.trim().replace(",", "."));
+  const achievement =
+    metric && parsedActualValue !== null && !Number.isNaN(parsedActualValue)
+      ? calculateAchievement({ ...metric, actualValue: parsedActualValue })
+      : null;
+  const suggestedRating = achievement !== null ? suggestRating(ratingScale, achievement) : null;
 
+  const handleRatingChange = (value: number) => {
+    // Walidacja zgodnie ze skalą ocen procesu
+    setError(validateRating(ratingScale, value));
     setRating(value);
   };
 
@@ -60,32 +65,67 @@ export function SelfAssessmentForm({
       return;
     }
 
-    if (rating < 0 || rating > 150) {
-      setError("Ocena musi być w zakresie 0-150");
+    const ratingError = validateRating(ratingScale, rating);
+    if (ratingError) {
+      setError(ratingError);
+      return;
+    }
+
+    if (parsedActualValue !== null && Number.isNaN(parsedActualValue)) {
+      setError("Wartość rzeczywista musi być liczbą");
       return;
     }
 
     setError(null);
-    await onSave(goalId, rating, comment);
+    await onSave(goalId, rating, comment, metric ? parsedActualValue : undefined);
   };
 
   return (
     <form onSubmit={handleSubmit} className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
       <div className="space-y-4">
+        {metric && (
+          <div className="space-y-2">
+            <Label htmlFor={`actual-${goalId}`} className="text-sm font-medium">
+              Wartość rzeczywista ({metric.name}
+              {metric.unit ? `, ${metric.unit}` : ""})
+            </Label>
+            <Input
+              id={`actual-${goalId}`}
+              inputMode="decimal"
+              value={actualValue}
+              onChange={(e) => setActualValue(e.target.value)}
+              disabled={isSaving}
+              placeholder={`Cel: ${metric.targetValue}`}
+            />
+            {suggestedRating !== null && (
+              <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span>
+                  Wykonanie celu: {achievement}% - sugerowana ocena: {suggestedRating}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRatingChange(suggestedRating)}
+                  disabled={isSaving || rating === suggestedRating}
+                >
+                  Zastosuj
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="space-y-2">
           <Label htmlFor={`rating-${goalId}`} className="text-sm font-medium">
-            Samoocena (0-150)
+            Samoocena ({min}-{max})
           </Label>
-          <Input
+          <RatingInput
             id={`rating-${goalId}`}
-            type="number"
-            min={0}
-            max={150}
-            value={rating ?? ""}
+            scale={ratingScale}
+            value={rating}
             onChange={handleRatingChange}
             disabled={isSaving}
-            className="w-full"
-            placeholder="Wprowadź ocenę (0-150)"
           />
         </div>
 
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  CreateGoalProgressEntryCommand,
+  GoalProgressEntryDTO,
+  GoalProgressReplyDTO,
+  GoalProgressResponse,
+} from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Odczytuje komunikat błędu z odpowiedzi API
+const readErrorMessage = async (response: Response, fallback: string) => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Hook pobierający dziennik postępów celu oraz zapisujący wpisy pracownika i odpowiedzi kierownika
+export function useGoalProgress(goalId: string) {
+  const [entries, setEntries] = useState<GoalProgressEntryDTO[]>([]);
+  const [canAddEntry, setCanAddEntry] = useState(false);
+  const [canReply, setCanReply] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!goalId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/goals/${goalId}/progress`);
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, "Nie udało się pobrać postępów celu"));
+      }
+
+      const data: GoalProgressResponse = await response.json();
+      setEntries(data.entries);
+      setCanAddEntry(data.canAddEntry);
+      setCanReply(data.canReply);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać postępów celu");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [goalId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Dodanie wpisu postępu (właściciel celu)
+  const addEntry = useCallback(
+    async (command: CreateGoalProgressEntryCommand) => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const response = await authFetch(`/api/goals/${goalId}/progress`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(command),
+        });
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response, "Nie udało się zapisać postępu celu"));
+        }
+
+        const entry: GoalProgressEntryDTO = await response.json();
+        setEntries((prev) =>
+          [entry, ...prev].sort(
+            (a, b) => b.entryDate.localeCompare(a.entryDate) || b.createdAt.localeCompare(a.createdAt)
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się zapisać postępu celu");
+        throw err;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [goalId]
+  );
+
+  // Odpowiedź kierownika na wpis postępu
+  const addReply = useCallback(
+    async (entryId: string, note: string) => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const response = await authFetch(`/api/goals/${goalId}/progress/${entryId}/replies`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ note }),
+        });
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response, "Nie udało się zapisać odpowiedzi"));
+        }
+
+        const reply: GoalProgressReplyDTO = await response.json();
+        setEntries((prev) =>
+          prev.map((entry) => (entry.id === entryId ? { ...entry, replies: [...entry.replies, reply] } : entry))
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Nie udało się zapisać odpowiedzi");
+        throw err;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [goalId]
+  );
+
+  return { entries, canAddEntry, canReply, isLoading, isSaving, error, reload, addEntry, addReply };
+}
@@ -1,15 +1,8 @@
 import { useCallback, useEffect, useState } from "react";
 import type { UseGoalsProps, UseGoalsResult, GoalViewModel } from "../types";
-import type { AssessmentProcessStatus, EmployeeDTO, GoalDTO } from "@/types";
-import { mockGoalsResponse } from "@/api/goals/mock";
-
-// Extended type for GoalDTO with selfAssessment
-interface GoalWithSelfAssessmentDTO extends GoalDTO {
-  selfAssessment?: {
-    rating: number;
-    comment: string;
-  };
-}
+import type { AssessmentProcessStatus, EmployeeDTO, GoalDTO, GoalListResponse, RatingScale } from "@/types";
+import { DEFAULT_RATING_SCALE } from "@/lib/rating-scale";
+import { authFetch } from "@/lib/auth-client";
 
 export function useGoals({ processId, employeeId, process }: UseGoalsProps): UseGoalsResult {
   const [goals, setGoals] = useState<GoalViewModel[]>([]);
@@ -19,6 +12,7 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
   const [processStatus, setProcessStatus] = useState<AssessmentProcessStatus>(
     (process?.status as AssessmentProcessStatus) || "in_definition"
   );
+  const [ratingScale, setRatingScale] = useState<RatingScale>(DEFAULT_RATING_SCALE);
   const [isSaving, setIsSaving] = useState<Record<string, boolean>>({});
   const [employee, setEmployee] = useState<EmployeeDTO | null>(null);
   const [, setCurrentUser] = useState<EmployeeDTO | null>(null);
@@ -37,7 +31,7 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
   // Pomocnicza funkcja do pobierania danych o zalogowanym użytkowniku
   const fetchCurrentUser = async () => {
     try {
-      const response = await fetch(`/api/auth/me`);
+      const response = await authFetch(`/api/auth/me`);
       if (!response.ok) {
         console.warn(`Nie udało się pobrać danych zalogowanego użytkownika`);
         return null;
@@ -61,7 +55,7 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
   // Pomocnicza funkcja do pobierania danych pracownika
   const fetchEmployeeData = async (empId: string) => {
     try {
-      const response = await fetch(`/api/users/${empId}`);
+      const response = await authFetch(`/api/users/${empId}`);
       if (!response.ok) {
         console.warn(`Nie udało się pobrać danych pracownika ${empId}`);
         return null;
@@ -86,7 +80,7 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
   // Pomocnicza funkcja do pobierania samooceny dla pojedynczego celu
   const fetchSelfAssessment = async (goalId: string) => {
     try {
-      const response = await fetch(`/api/goals/${goalId}/self-assessment`);
+      const response = await authFetch(`/api/goals/${goalId}/self-assessment`);
       if (!response.ok) {
         console.warn(`Nie udało się pobrać samooceny dla celu ${goalId}`);
         return null;
@@ -161,44 +155,25 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
 
     try {
       // Wywołanie API
-      const response = await fetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`);
+      const response = await authFetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`);
 
-      // Jeśli API zwraca błąd, używamy mockowych danych w trybie deweloperskim
+      // Wygasła sesja kończy się przekierowaniem do logowania (authFetch), pozostałe błędy pokazujemy
       if (!response.ok) {
-        console.warn("API zwróciło błąd. Używam mockowych danych w trybie deweloperskim.");
-
-        // Pobierz status procesu z mocka
-        const mockStatus = (mockGoalsResponse.processStatus as AssessmentProcessStatus) || "in_self_assessment";
-        setProcessStatus(mockStatus);
-
-        // Transformacja mockowych danych na ViewModel
-        const goalsViewModel = mockGoalsResponse.goals.map((goal: GoalWithSelfAssessmentDTO) => ({
-          ...goal,
-          formattedWeight: `${goal.weight}%`,
-          isReadOnly: mockStatus !== "in_self_assessment",
-          selfAssessment: goal.selfAssessment,
-        }));
-
-        setGoals(goalsViewModel);
-        setTotalWeight(mockGoalsResponse.totalWeight);
-
-        // Log dla debugowania
-
-        console.log("Mock status:", mockStatus, "canEdit:", mockStatus === "in_self_assessment");
-
-        console.log("Mock goals:", goalsViewModel);
-
-        setIsLoading(false);
-        return;
+        throw new Error("Nie udało się pobrać celów pracownika");
       }
 
-      const data = await response.json();
+      const data: GoalListResponse = await response.json();
+
+      // Status pracownika w procesie może różnić się od statusu całego procesu
+      const participantStatus = data.participantStatus;
+      setProcessStatus(participantStatus);
+      setRatingScale(data.ratingScale);
 
       // Transformacja DTO na ViewModel (bez samoocen)
-      const goalsViewModel = data.goals.map((goal: GoalDTO) => ({
+      const goalsViewModel: GoalViewModel[] = data.goals.map((goal: GoalDTO) => ({
         ...goal,
         formattedWeight: `${goal.weight}%`,
-        isReadOnly: processStatus !== "in_self_assessment", // Edycja tylko dla statusu in_self_assessment
+        isReadOnly: participantStatus !== "in_self_assessment", // Edycja tylko dla statusu in_self_assessment
       }));
 
       setGoals(goalsViewModel);
@@ -230,35 +205,13 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
       }
     } catch (err) {
       console.error("Błąd pobierania celów:", err);
-
-      // W przypadku błędu używamy mockowych danych w trybie deweloperskim
-
-      console.warn("Używam mockowych danych w trybie deweloperskim po błędzie.");
-
-      // Pobierz status procesu z mocka
-      const mockStatus = (mockGoalsResponse.processStatus as AssessmentProcessStatus) || "in_self_assessment";
-      setProcessStatus(mockStatus);
-
-      // Transformacja mockowych danych na ViewModel
-      const goalsViewModel = mockGoalsResponse.goals.map((goal: GoalWithSelfAssessmentDTO) => ({
-        ...goal,
-        formattedWeight: `${goal.weight}%`,
-        isReadOnly: mockStatus !== "in_self_assessment",
-        selfAssessment: goal.selfAssessment,
-      }));
-
-      setGoals(goalsViewModel);
-      setTotalWeight(mockGoalsResponse.totalWeight);
-
-      // Log dla debugowania
-
-      console.log("Mock status:", mockStatus, "canEdit:", mockStatus === "in_self_assessment");
-
-      console.log("Mock goals:", goalsViewModel);
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać celów pracownika");
+      setGoals([]);
+      setTotalWeight(0);
     } finally {
       setIsLoading(false);
     }
-  }, [processId, employeeId, processStatus]);
+  }, [processId, employeeId]);
 
   useEffect(() => {
     if (processId && employeeId) {
@@ -273,11 +226,11 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
     error,
     reload,
     canEditSelfAssessment,
-    saveSelfAssessment: async (goalId: string, rating: number, comment: string) => {
+    saveSelfAssessment: async (goalId: string, rating: number, comment: string, actualValue?: number | null) => {
       try {
         setIsSaving((prev) => ({ ...prev, [goalId]: true }));
 
-        const response = await fetch(`/api/goals/${goalId}/self-assessment`, {
+        const response = await authFetch(`/api/goals/${goalId}/self-assessment`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -285,6 +238,8 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
           body: JSON.stringify({
             rating,
             comments: comment || null,
+            // Wartość rzeczywista wysyłana tylko dla celów mierzalnych
+            ...(actualValue !== undefined && { actualValue }),
           }),
         });
 
@@ -304,6 +259,7 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
                     rating: data.rating,
                     comment: data.comments || "",
                   },
+                  metric: goal.metric && actualValue !== undefined ? { ...goal.metric, actualValue } : goal.metric,
                 }
               : goal
           )
@@ -320,5 +276,6 @@ export function useGoals({ processId, employeeId, process }: UseGoalsProps): Use
     isSaving,
     employee,
     processStatus,
+    ratingScale,
   };
 }
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import type { ManagerAssessmentDTO } from "@/components/goals-view/types";
-import type { AssessmentProcessStatus } from "@/types";
+import type { AssessmentProcessStatus, GoalListResponse } from "@/types";
+import { authFetch } from "@/lib/auth-client";
 
 interface UseManagerAssessmentProps {
   processId: string;
@@ -20,47 +21,26 @@ export function useManagerAssessment({ processId, employeeId }: UseManagerAssess
       setIsLoading(true);
       setError(null);
 
-      // Najpierw pobieramy status procesu, aby określić, czy kierownik może edytować oceny
-      const processResponse = await fetch(`/api/assessment-processes/${processId}`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
-
-      if (!processResponse.ok) {
-        throw new Error("Nie udało się pobrać informacji o procesie oceny");
-      }
-
-      const processData = await processResponse.json();
-      setProcessStatus(processData.status);
-
-      // Kierownik może edytować oceny tylko gdy status procesu to "awaiting_manager_assessment"
-      const canEdit = processData.status === "awaiting_manager_assessment";
-      setCanEditManagerAssessment(canEdit);
-
-      // Pobieramy wszystkie cele pracownika
-      const goalsResponse = await fetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`, {
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
-      });
+      // Pobieramy wszystkie cele pracownika wraz z jego statusem w procesie
+      const goalsResponse = await authFetch(`/api/assessment-processes/${processId}/employees/${employeeId}/goals`);
 
       if (!goalsResponse.ok) {
         throw new Error("Nie udało się pobrać celów pracownika");
       }
 
-      const goalsData = await goalsResponse.json();
+      const goalsData: GoalListResponse = await goalsResponse.json();
+      setProcessStatus(goalsData.participantStatus);
+
+      // Kierownik może edytować oceny tylko gdy pracownik jest na etapie "awaiting_manager_assessment"
+      const canEdit = goalsData.participantStatus === "awaiting_manager_assessment";
+      setCanEditManagerAssessment(canEdit);
 
       // Dla każdego celu pobieramy ocenę kierownika (jeśli istnieje)
       const assessmentsMap: Record<string, ManagerAssessmentDTO> = {};
 
       for (const goal of goalsData.goals) {
         try {
-          const assessmentResponse = await fetch(`/api/goals/${goal.id}/manager-assessment`, {
-            headers: {
-              Authorization: `Bearer ${localStorage.getItem("token")}`,
-            },
-          });
+          const assessmentResponse = await authFetch(`/api/goals/${goal.id}/manager-assessment`);
 
           if (assessmentResponse.ok) {
             const assessmentData = await assessmentResponse.json();
@@ -96,11 +76,10 @@ export function useManagerAssessment({ processId, employeeId }: UseManagerAssess
       // Ustaw stan zapisywania dla tego celu
       setIsSaving((prev) => ({ ...prev, [goalId]: true }));
 
-      const response = await fetch(`/api/goals/${goalId}/manager-assessment`, {
+      const response = await authFetch(`/api/goals/${goalId}/manager-assessment`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
         },
         body: JSON.stringify({
           rating,
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import type { EmployeeScoreSummaryDTO } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+interface UseScoreSummaryProps {
+  processId: string;
+  employeeId: string;
+}
+
+// Hook pobierający ważone wyniki samooceny i oceny kierownika pracownika
+export function useScoreSummary({ processId, employeeId }: UseScoreSummaryProps) {
+  const [summary, setSummary] = useState<EmployeeScoreSummaryDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!processId || !employeeId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}/employees/${employeeId}/summary`);
+      if (!response.ok) {
+        throw new Error("Nie udało się pobrać wyników pracownika");
+      }
+
+      const data: EmployeeScoreSummaryDTO = await response.json();
+      setSummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać wyników pracownika");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [processId, employeeId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { summary, isLoading, error, reload };
+}
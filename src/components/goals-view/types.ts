@@ -1,3 +1,5 @@
+import type { AssessmentProcessStatus, EmployeeScoreSummaryDTO, GoalMetricDTO, RatingScale } from "@/types";
+
 // Model widoku dla pojedynczego celu
 export interface GoalViewModel {
   id: string;
@@ -10,6 +12,8 @@ export interface GoalViewModel {
   };
   formattedWeight: string; // "XX%" - dla prezentacji
   isReadOnly: boolean; // zawsze true dla tego widoku
+  metric?: GoalMetricDTO | null; // miernik celu mierzalnego
+  sharedGoalId?: string | null; // cel wspólny kilku pracowników
   selfAssessment?: {
     rating: number;
     comment: string;
@@ -59,10 +63,11 @@ export interface UseGoalsResult {
   error: string | null;
   reload: () => void;
   canEditSelfAssessment: boolean;
-  saveSelfAssessment: (goalId: string, rating: number, comment: string) => Promise<void>;
+  saveSelfAssessment: (goalId: string, rating: number, comment: string, actualValue?: number | null) => Promise<void>;
   isSaving: Record<string, boolean>;
   employee: EmployeeDTO | null;
-  processStatus: string;
+  processStatus: AssessmentProcessStatus;
+  ratingScale: RatingScale;
 }
 
 // Props dla komponentów
@@ -71,8 +76,9 @@ export interface GoalsListProps {
   totalWeight: number;
   isLoading: boolean;
   processStatus?: string;
+  ratingScale: RatingScale;
   canEditSelfAssessment?: boolean;
-  saveSelfAssessment?: (goalId: string, rating: number, comment: string) => Promise<void>;
+  saveSelfAssessment?: (goalId: string, rating: number, comment: string, actualValue?: number | null) => Promise<void>;
   isSaving?: Record<string, boolean>;
   canEditManagerAssessment?: boolean; // Nowe pole dla uprawnień kierownika
   saveManagerAssessment?: (goalId: string, rating: number, comment: string) => Promise<void>; // Nowa funkcja dla zapisywania oceny kierownika
@@ -87,8 +93,9 @@ export interface GoalsListProps {
 export interface GoalCardProps {
   goal: GoalViewModel;
   processStatus?: string;
+  ratingScale: RatingScale;
   canEditSelfAssessment?: boolean;
-  saveSelfAssessment?: (goalId: string, rating: number, comment: string) => Promise<void>;
+  saveSelfAssessment?: (goalId: string, rating: number, comment: string, actualValue?: number | null) => Promise<void>;
   isSaving?: boolean;
   canEditManagerAssessment?: boolean; // Nowe pole dla uprawnień kierownika
   saveManagerAssessment?: (goalId: string, rating: number, comment: string) => Promise<void>; // Nowa funkcja dla zapisywania oceny kierownika
@@ -98,15 +105,30 @@ export interface GoalCardProps {
 // Props dla formularza samooceny
 export interface SelfAssessmentFormProps {
   goalId: string;
+  ratingScale: RatingScale;
   initialRating?: number;
   initialComment?: string;
-  onSave: (goalId: string, rating: number, comment: string) => Promise<void>;
+  metric?: GoalMetricDTO | null; // miernik celu - pozwala wpisać wartość rzeczywistą i podpowiada ocenę
+  onSave: (goalId: string, rating: number, comment: string, actualValue?: number | null) => Promise<void>;
+  isSaving: boolean;
+}
+
+// Props dla dziennika postępów celu
+export interface GoalProgressLogProps {
+  goalId: string;
+}
+
+// Props dla formularza odpowiedzi kierownika na wpis postępu
+export interface ProgressReplyFormProps {
+  entryId: string;
+  onReply: (entryId: string, note: string) => Promise<void>;
   isSaving: boolean;
 }
 
 // Props dla formularza oceny kierownika
 export interface ManagerAssessmentFormProps {
   goalId: string;
+  ratingScale: RatingScale;
   initialRating?: number;
   initialComment?: string;
   onSave: (goalId: string, rating: number, comment: string) => Promise<void>;
@@ -129,3 +151,20 @@ export interface EmployeeDTO {
   name: string;
   email: string;
 }
+
+// Props dla panelu wyników ważonych
+export interface ScoreSummaryPanelProps {
+  summary: EmployeeScoreSummaryDTO | null;
+  ratingScale: RatingScale;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Props dla pola oceny zgodnego ze skalą procesu
+export interface RatingInputProps {
+  id: string;
+  scale: RatingScale;
+  value?: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
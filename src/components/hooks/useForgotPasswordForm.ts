@@ -0,0 +1,36 @@
+import { useState } from "react";
+import type { ForgotPasswordRequest } from "@/types";
+
+// Hook wysyłający prośbę o link do ustawienia nowego hasła
+export const useForgotPasswordForm = () => {
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (formData: ForgotPasswordRequest) => {
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Nie udało się wysłać linku");
+      }
+
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się wysłać linku");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { isLoading, error, message, handleSubmit };
+};
@@ -11,7 +11,7 @@ interface LoginFormData {
   password: string;
 }
 
-export const useLoginForm = () => {
+export const useLoginForm = (redirectTo = "/dashboard") => {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<LoginError | null>(null);
 
@@ -22,13 +22,11 @@ export const useLoginForm = () => {
     try {
       const response = await login(formData);
 
-      // Store token in localStorage
-      localStorage.setItem("token", response.token);
-      // Store user data in localStorage
+      // The session is kept in HTTP-only cookies set by the API; store only basic user data
       localStorage.setItem("user", JSON.stringify(response.user));
 
-      // Redirect to dashboard
-      window.location.href = "/dashboard";
+      // Redirect to dashboard (or back to the page where the session ended)
+      window.location.href = redirectTo;
     } catch (err) {
       if (err instanceof Error) {
         setError({ message: err.message });
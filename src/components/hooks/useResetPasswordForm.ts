@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import type { LoginResponse, ResetPasswordRequest } from "@/types";
+
+// Rodzaj linku wysłanego przez Supabase Auth: reset hasła albo zaproszenie do systemu
+export type PasswordLinkType = "recovery" | "invite";
+
+interface PasswordLink {
+  accessToken: string;
+  refreshToken: string;
+  type: PasswordLinkType;
+}
+
+// Odczytuje tokeny z fragmentu adresu (#access_token=...&refresh_token=...&type=...) dodanego przez Supabase Auth
+const readPasswordLink = (hash: string): { link: PasswordLink | null; error: string | null } => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+
+  if (params.get("error")) {
+    return { link: null, error: "Link wygasł lub został już wykorzystany. Poproś o nowy" };
+  }
+
+  const accessToken = params.get("access_token");
+  const refreshToken = params.get("refresh_token");
+  if (!accessToken || !refreshToken) {
+    return { link: null, error: "Nieprawidłowy link. Otwórz link z wiadomości email lub poproś o nowy" };
+  }
+
+  return {
+    link: { accessToken, refreshToken, type: params.get("type") === "invite" ? "invite" : "recovery" },
+    error: null,
+  };
+};
+
+// Hook ustawiający hasło z linku resetu hasła lub zaproszenia
+export const useResetPasswordForm = () => {
+  const [link, setLink] = useState<PasswordLink | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const result = readPasswordLink(window.location.hash);
+    setLink(result.link);
+    setError(result.error);
+
+    // Tokeny nie powinny zostać w historii przeglądarki
+    if (window.location.hash) {
+      window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+    }
+  }, []);
+
+  const handleSubmit = async (password: string) => {
+    if (!link) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const request: ResetPasswordRequest = {
+        accessToken: link.accessToken,
+        refreshToken: link.refreshToken,
+        password,
+      };
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Nie udało się ustawić hasła");
+      }
+
+      // Po ustawieniu hasła użytkownik jest zalogowany (sesja w ciasteczkach HTTP-only)
+      localStorage.setItem("user", JSON.stringify((data as LoginResponse).user));
+      window.location.href = "/dashboard";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się ustawić hasła");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { linkType: link?.type ?? null, hasLink: !!link, isLoading, error, handleSubmit };
+};
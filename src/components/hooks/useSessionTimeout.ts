@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { authFetch, logout } from "@/lib/auth-client";
+import {
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_IDLE_WARNING_MS,
+  SESSION_REFRESH_INTERVAL_MS,
+  isSessionIdle,
+} from "@/lib/session-policy";
+
+// Zdarzenia traktowane jako aktywność użytkownika
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "scroll", "touchstart"] as const;
+
+// Jak często sprawdzamy bezczynność
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// Hook pilnujący czasu bezczynności: odświeża sesję aktywnego użytkownika,
+// ostrzega przed wygaśnięciem i wylogowuje po przekroczeniu limitu
+export const useSessionTimeout = () => {
+  const lastActivityRef = useRef(Date.now());
+  const lastRefreshRef = useRef(Date.now());
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+
+  const refreshSession = useCallback(async () => {
+    lastRefreshRef.current = Date.now();
+    try {
+      await authFetch("/api/auth/refresh", { method: "POST" });
+    } catch (err) {
+      console.error("Błąd podczas odświeżania sesji:", err);
+    }
+  }, []);
+
+  // Przedłużenie sesji na żądanie użytkownika (przycisk w ostrzeżeniu)
+  const extendSession = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setRemainingMs(null);
+    refreshSession();
+  }, [refreshSession]);
+
+  useEffect(() => {
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+
+    const interval = window.setInterval(() => {
+      const now = Date.now();
+
+      if (isSessionIdle(lastActivityRef.current, now)) {
+        window.clearInterval(interval);
+        logout("idle");
+        return;
+      }
+
+      const remaining = lastActivityRef.current + SESSION_IDLE_TIMEOUT_MS - now;
+      setRemainingMs(remaining <= SESSION_IDLE_WARNING_MS ? remaining : null);
+
+      // Sesję odświeżamy tylko dla aktywnego użytkownika, żeby serwer liczył czas bezczynności tak samo
+      const isActive = now - lastActivityRef.current < SESSION_REFRESH_INTERVAL_MS;
+      if (isActive && now - lastRefreshRef.current >= SESSION_REFRESH_INTERVAL_MS) {
+        refreshSession();
+      }
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity);
+      }
+    };
+  }, [refreshSession]);
+
+  return { remainingMs, extendSession };
+};
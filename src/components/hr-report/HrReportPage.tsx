@@ -0,0 +1,160 @@
+import { ArrowLeft } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  STATUS_LABELS,
+  type AssessmentProcessViewModel,
+  type HrReportEmployeeDTO,
+  type HrReportTeamDTO,
+} from "@/types";
+import { useHrReport } from "./hooks/useHrReport";
+
+interface HrReportPageProps {
+  processId: string;
+  process?: AssessmentProcessViewModel;
+}
+
+// Lista pracowników w jednej z sekcji raportu
+function EmployeeSection({ title, employees }: { title: string; employees: HrReportEmployeeDTO[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          {title} ({employees.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {employees.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Brak</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {employees.map((employee) => (
+              <li key={employee.employeeId} className="flex justify-between gap-2">
+                <span>{employee.employeeName}</span>
+                <span className="text-muted-foreground">{STATUS_LABELS[employee.status]}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Zespół kierownika wraz z zespołami podległych kierowników
+function TeamNode({ team }: { team: HrReportTeamDTO }) {
+  return (
+    <div className="border-l-2 border-gray-200 pl-4 space-y-2">
+      <h3 className="font-medium">{team.managerName}</h3>
+      <ul className="space-y-1 text-sm">
+        {team.members.map((member) => (
+          <li key={member.employeeId} className="flex flex-wrap items-center gap-2">
+            <span className="min-w-48">{member.employeeName}</span>
+            <Badge variant="outline">{STATUS_LABELS[member.status]}</Badge>
+            <span className="text-muted-foreground">Cele: {member.totalGoals}</span>
+            <span className={member.selfAssessmentComplete ? "text-emerald-700" : "text-muted-foreground"}>
+              Samoocena {member.selfAssessmentComplete ? "✓" : "–"}
+            </span>
+            <span className={member.managerAssessmentComplete ? "text-emerald-700" : "text-muted-foreground"}>
+              Ocena kierownika {member.managerAssessmentComplete ? "✓" : "–"}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {team.subteams.map((subteam) => (
+        <TeamNode key={subteam.managerId} team={subteam} />
+      ))}
+    </div>
+  );
+}
+
+export function HrReportPage({ processId, process }: HrReportPageProps) {
+  const { report, isLoading, error, reload } = useHrReport(processId);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8">
+        <div className="bg-red-50 text-red-600 p-4 rounded-md mb-4">{error}</div>
+        <button
+          onClick={reload}
+          className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors"
+        >
+          Spróbuj ponownie
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div className="flex items-center">
+        <Button variant="ghost" size="sm" className="flex items-center gap-1" asChild>
+          <a href="/dashboard">
+            <ArrowLeft className="h-4 w-4" /> Powrót do strony głównej
+          </a>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold mb-1">Raport HR</h1>
+        {process && <p className="text-gray-500">{process.name}</p>}
+      </div>
+
+      {isLoading || !report ? (
+        <div className="bg-gray-50 p-4 rounded-md">Przygotowywanie raportu...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {report.phases.map((phase) => (
+              <div key={phase.status} className="p-4 rounded-md border">
+                <p className="text-sm text-gray-500">{STATUS_LABELS[phase.status]}</p>
+                <p className="text-2xl font-bold">{phase.completionRate}%</p>
+                <p className="text-xs text-muted-foreground">
+                  Ukończyło: {phase.completedCount} z {report.totalEmployees}, obecnie: {phase.currentCount}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <EmployeeSection title="Pracownicy bez celów" employees={report.employeesWithoutGoals} />
+            <EmployeeSection title="Niekompletne samooceny" employees={report.incompleteSelfAssessments} />
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  Kierownicy z nieukończonymi ocenami ({report.managersWithPendingAssessments.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.managersWithPendingAssessments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Brak</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {report.managersWithPendingAssessments.map((manager) => (
+                      <li key={manager.managerId} className="flex justify-between gap-2">
+                        <span>{manager.managerName}</span>
+                        <span className="text-muted-foreground">Do oceny: {manager.pendingEmployees}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">Struktura zespołów</h2>
+            {report.teams.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Brak zdefiniowanych zespołów</p>
+            ) : (
+              report.teams.map((team) => <TeamNode key={team.managerId} team={team} />)
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default HrReportPage;
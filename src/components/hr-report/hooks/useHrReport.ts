@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import type { HrReportDTO } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook pobierający raport HR z postępem procesu w całej firmie
+export function useHrReport(processId: string) {
+  const [report, setReport] = useState<HrReportDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}/hr-report`);
+      if (!response.ok) {
+        throw new Error(
+          response.status === 403 ? "Raport jest dostępny tylko dla administratorów" : "Nie udało się pobrać raportu"
+        );
+      }
+
+      const data: HrReportDTO = await response.json();
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać raportu");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [processId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { report, isLoading, error, reload };
+}
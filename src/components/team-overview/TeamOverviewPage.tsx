@@ -0,0 +1,116 @@
+import { ArrowLeft } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { getRatingScaleBounds } from "@/lib/rating-scale";
+import { STATUS_LABELS, type AssessmentProcessViewModel, type WeightedScoreDTO } from "@/types";
+import { useTeamSummary } from "./hooks/useTeamSummary";
+
+interface TeamOverviewPageProps {
+  processId: string;
+  process?: AssessmentProcessViewModel;
+}
+
+// Postęp oceny w formacie "ocenione/wszystkie" wraz z wynikiem ważonym
+function ScoreCell({
+  score,
+  totalGoals,
+  maxRating,
+}: {
+  score: WeightedScoreDTO;
+  totalGoals: number;
+  maxRating: number;
+}) {
+  return (
+    <td className="px-3 py-2">
+      <div className={score.isComplete ? "text-emerald-700" : "text-gray-600"}>
+        {score.ratedGoals}/{totalGoals}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {score.score !== null ? `Wynik: ${score.score}/${maxRating}` : "Brak ocen"}
+      </div>
+    </td>
+  );
+}
+
+export function TeamOverviewPage({ processId, process }: TeamOverviewPageProps) {
+  const { summary, isLoading, error, reload } = useTeamSummary(processId);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8">
+        <div className="bg-red-50 text-red-600 p-4 rounded-md mb-4">{error}</div>
+        <button
+          onClick={reload}
+          className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors"
+        >
+          Spróbuj ponownie
+        </button>
+      </div>
+    );
+  }
+
+  const maxRating = summary ? getRatingScaleBounds(summary.ratingScale).max : 0;
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center mb-4">
+        <Button variant="ghost" size="sm" className="flex items-center gap-1" asChild>
+          <a href="/dashboard">
+            <ArrowLeft className="h-4 w-4" /> Powrót do strony głównej
+          </a>
+        </Button>
+      </div>
+
+      <h1 className="text-2xl font-bold mb-1">Wyniki zespołu</h1>
+      {process && <p className="text-gray-500 mb-6">{process.name}</p>}
+
+      {isLoading ? (
+        <div className="bg-gray-50 p-4 rounded-md">Ładowanie wyników zespołu...</div>
+      ) : !summary || summary.members.length === 0 ? (
+        <div className="bg-gray-50 p-4 rounded-md text-gray-500">Brak pracowników w zespole</div>
+      ) : (
+        <div className="overflow-x-auto border rounded-md">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">Pracownik</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+                <th className="px-3 py-2 font-medium">Cele</th>
+                <th className="px-3 py-2 font-medium">Suma wag</th>
+                <th className="px-3 py-2 font-medium">Samoocena</th>
+                <th className="px-3 py-2 font-medium">Ocena kierownika</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {summary.members.map((member) => (
+                <tr key={member.employeeId} className="border-t">
+                  <td className="px-3 py-2 font-medium">{member.employeeName}</td>
+                  <td className="px-3 py-2">
+                    <Badge variant="outline">{STATUS_LABELS[member.status]}</Badge>
+                  </td>
+                  <td className="px-3 py-2">{member.totalGoals}</td>
+                  <td className={`px-3 py-2 ${member.totalWeight !== 100 ? "text-destructive" : ""}`}>
+                    {member.totalWeight}%
+                  </td>
+                  <ScoreCell score={member.selfAssessment} totalGoals={member.totalGoals} maxRating={maxRating} />
+                  <ScoreCell score={member.managerAssessment} totalGoals={member.totalGoals} maxRating={maxRating} />
+                  <td className="px-3 py-2 text-right">
+                    <a
+                      href={`/process/${processId}/goals-view?employeeId=${member.employeeId}`}
+                      className="text-primary hover:underline"
+                    >
+                      Szczegóły
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TeamOverviewPage;
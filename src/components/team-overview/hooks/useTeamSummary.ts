@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import type { TeamSummaryResponse } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook pobierający zagregowane wyniki bezpośrednich podwładnych w procesie
+export function useTeamSummary(processId: string) {
+  const [summary, setSummary] = useState<TeamSummaryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch(`/api/assessment-processes/${processId}/team-summary`);
+      if (!response.ok) {
+        throw new Error("Nie udało się pobrać wyników zespołu");
+      }
+
+      const data: TeamSummaryResponse = await response.json();
+      setSummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się pobrać wyników zespołu");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [processId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { summary, isLoading, error, reload };
+}
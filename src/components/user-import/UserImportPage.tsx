@@ -0,0 +1,203 @@
+import { useState, type ChangeEvent, type FormEvent } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import type { UserImportAction, UserImportFieldChangeDTO } from "@/types";
+import { useUserImport } from "./hooks/useUserImport";
+import { useUserInvite } from "./hooks/useUserInvite";
+
+const ACTION_LABELS: Record<UserImportAction, string> = {
+  create: "Nowy",
+  update: "Zmiana",
+  unchanged: "Bez zmian",
+};
+
+const FIELD_LABELS: Record<UserImportFieldChangeDTO["field"], string> = {
+  firstName: "Imię",
+  lastName: "Nazwisko",
+  manager: "Kierownik",
+};
+
+const SAMPLE_HEADER = "email,first_name,last_name,manager_email";
+
+export function UserImportPage() {
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const { preview, isLoading, error, checkFile, applyImport, reset } = useUserImport();
+  const { invitations, pendingEmail, error: inviteError, invite, isInvited } = useUserInvite();
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    reset();
+    if (!file) {
+      setCsv("");
+      setFileName(null);
+      return;
+    }
+
+    setCsv(await file.text());
+    setFileName(file.name);
+  };
+
+  const handleInviteSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (await invite(inviteEmail.trim())) {
+      setInviteEmail("");
+    }
+  };
+
+  const canApply = !!preview && !preview.applied && preview.errors.length === 0 && !isLoading;
+  const changedRows = preview?.changes.filter((change) => change.action !== "unchanged") || [];
+
+  return (
+    <div className="container mx-auto px-4 py-6 space-y-6">
+      <div className="flex items-center">
+        <Button variant="ghost" size="sm" className="flex items-center gap-1" asChild>
+          <a href="/dashboard">
+            <ArrowLeft className="h-4 w-4" /> Powrót do strony głównej
+          </a>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold mb-1">Import użytkowników</h1>
+        <p className="text-gray-500">
+          Plik CSV z nagłówkiem <code>{SAMPLE_HEADER}</code>. Użytkownicy są dopasowywani po adresie email, a pusty
+          adres kierownika oznacza brak przełożonego.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="text-sm" />
+          <Button variant="outline" disabled={!csv || isLoading} onClick={() => checkFile(csv)}>
+            Sprawdź plik
+          </Button>
+          <Button disabled={!canApply} onClick={() => applyImport(csv)}>
+            Importuj
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Zaproszenia</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-gray-500">
+            Zaproszony użytkownik otrzyma email z jednorazowym linkiem do ustawienia hasła. Zaprosić można osoby, które
+            mają profil w systemie, ale jeszcze nie mają konta.
+          </p>
+          <form onSubmit={handleInviteSubmit} className="flex flex-wrap items-center gap-2">
+            <Input
+              type="email"
+              placeholder="jankowalski@example.com"
+              value={inviteEmail}
+              onChange={(event) => setInviteEmail(event.target.value)}
+              className="max-w-sm"
+            />
+            <Button type="submit" variant="outline" disabled={!inviteEmail.trim() || !!pendingEmail}>
+              {pendingEmail && pendingEmail === inviteEmail.trim() ? "Wysyłanie..." : "Wyślij zaproszenie"}
+            </Button>
+          </form>
+          {inviteError && <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">{inviteError}</div>}
+          {invitations.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {invitations.map((invitation) => (
+                <li key={invitation.email} className="text-emerald-700">
+                  Wysłano zaproszenie do {invitation.email} ({new Date(invitation.invitedAt).toLocaleString("pl-PL")})
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && <div className="bg-red-50 text-red-600 p-4 rounded-md">{error}</div>}
+
+      {isLoading && <div className="bg-gray-50 p-4 rounded-md">Przetwarzanie pliku...</div>}
+
+      {preview && !isLoading && (
+        <>
+          {preview.applied && (
+            <div className="bg-emerald-50 text-emerald-700 p-4 rounded-md">
+              Import pliku {fileName} został zakończony
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            {(Object.keys(ACTION_LABELS) as UserImportAction[]).map((action) => (
+              <div key={action} className="p-4 rounded-md border">
+                <p className="text-sm text-gray-500">{ACTION_LABELS[action]}</p>
+                <p className="text-2xl font-bold">{preview.summary[action]}</p>
+              </div>
+            ))}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base text-red-600">Błędy ({preview.errors.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {preview.errors.map((importError, index) => (
+                    <li key={`${importError.line}-${index}`}>
+                      <span className="text-muted-foreground">Wiersz {importError.line}:</span> {importError.message}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Zmiany ({changedRows.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {changedRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Plik nie wprowadza żadnych zmian</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {changedRows.map((change) => (
+                    <li key={change.email} className="flex flex-wrap items-start gap-2">
+                      <Badge variant={change.action === "create" ? "default" : "outline"}>
+                        {ACTION_LABELS[change.action]}
+                      </Badge>
+                      <span className="min-w-48">
+                        {change.name} <span className="text-muted-foreground">({change.email})</span>
+                      </span>
+                      <span className="text-muted-foreground">
+                        {change.changes
+                          .map((field) => `${FIELD_LABELS[field.field]}: ${field.from || "—"} → ${field.to || "—"}`)
+                          .join(", ")}
+                      </span>
+                      {/* Nowo zaimportowani użytkownicy nie mają jeszcze konta - można ich od razu zaprosić */}
+                      {preview.applied && change.action === "create" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="ml-auto"
+                          disabled={!!pendingEmail || isInvited(change.email)}
+                          onClick={() => invite(change.email)}
+                        >
+                          {isInvited(change.email) ? "Zaproszono" : "Zaproś"}
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default UserImportPage;
@@ -0,0 +1,47 @@
+import { useCallback, useState } from "react";
+import type { ImportUsersCommand, UserImportPreviewDTO } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook sprawdzający plik importu użytkowników (dry run) i wykonujący import
+export function useUserImport() {
+  const [preview, setPreview] = useState<UserImportPreviewDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = useCallback(async (command: ImportUsersCommand) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authFetch("/api/users/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        // Odpowiedź z błędami walidacji zawiera podgląd z listą błędów
+        if (data.details?.errors) {
+          setPreview(data.details);
+        }
+        throw new Error(data.error || "Nie udało się zaimportować użytkowników");
+      }
+
+      setPreview(data as UserImportPreviewDTO);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się zaimportować użytkowników");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const checkFile = useCallback((csv: string) => submit({ csv, dryRun: true }), [submit]);
+  const applyImport = useCallback((csv: string) => submit({ csv, dryRun: false }), [submit]);
+  const reset = useCallback(() => {
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  return { preview, isLoading, error, checkFile, applyImport, reset };
+}
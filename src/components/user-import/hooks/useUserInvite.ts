@@ -0,0 +1,49 @@
+import { useCallback, useState } from "react";
+import type { InviteUserCommand, UserInvitationDTO } from "@/types";
+import { authFetch } from "@/lib/auth-client";
+
+// Hook wysyłający użytkownikom zaproszenia z linkiem do ustawienia hasła
+export function useUserInvite() {
+  const [invitations, setInvitations] = useState<UserInvitationDTO[]>([]);
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const invite = useCallback(async (email: string) => {
+    setPendingEmail(email);
+    setError(null);
+
+    try {
+      const command: InviteUserCommand = { email };
+      const response = await authFetch("/api/users/invite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Nie udało się wysłać zaproszenia");
+      }
+
+      const invitation = data as UserInvitationDTO;
+      setInvitations((prev) => [
+        invitation,
+        ...prev.filter((item) => item.email.toLowerCase() !== invitation.email.toLowerCase()),
+      ]);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Nie udało się wysłać zaproszenia");
+      return false;
+    } finally {
+      setPendingEmail(null);
+    }
+  }, []);
+
+  // Czy zaproszenie na dany adres zostało już wysłane w tej sesji
+  const isInvited = useCallback(
+    (email: string) => invitations.some((item) => item.email.toLowerCase() === email.toLowerCase()),
+    [invitations]
+  );
+
+  return { invitations, pendingEmail, error, invite, isInvited };
+}
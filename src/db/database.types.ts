@@ -3,6 +3,29 @@ export type Json = string | number | boolean | null | { [key: string]: Json | un
 export interface Database {
   public: {
     Tables: {
+      admins: {
+        Row: {
+          created_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "admins_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: true;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       assessment_processes: {
         Row: {
           created_at: string;
@@ -10,6 +33,7 @@ export interface Database {
           end_date: string;
           id: string;
           is_active: boolean;
+          rating_scale: Json;
           start_date: string;
           status: Database["public"]["Enums"]["assessment_process_status"];
           title: string;
@@ -21,6 +45,7 @@ export interface Database {
           end_date: string;
           id?: string;
           is_active?: boolean;
+          rating_scale?: Json;
           start_date: string;
           status?: Database["public"]["Enums"]["assessment_process_status"];
           title: string;
@@ -32,6 +57,7 @@ export interface Database {
           end_date?: string;
           id?: string;
           is_active?: boolean;
+          rating_scale?: Json;
           start_date?: string;
           status?: Database["public"]["Enums"]["assessment_process_status"];
           title?: string;
@@ -63,35 +89,111 @@ export interface Database {
         };
         Relationships: [];
       };
+      goal_progress_updates: {
+        Row: {
+          author_id: string;
+          created_at: string;
+          entry_date: string;
+          goal_id: string;
+          id: string;
+          note: string;
+          progress: number | null;
+          reply_to_id: string | null;
+        };
+        Insert: {
+          author_id: string;
+          created_at?: string;
+          entry_date?: string;
+          goal_id: string;
+          id?: string;
+          note: string;
+          progress?: number | null;
+          reply_to_id?: string | null;
+        };
+        Update: {
+          author_id?: string;
+          created_at?: string;
+          entry_date?: string;
+          goal_id?: string;
+          id?: string;
+          note?: string;
+          progress?: number | null;
+          reply_to_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "goal_progress_updates_goal_id_fkey";
+            columns: ["goal_id"];
+            isOneToOne: false;
+            referencedRelation: "goals";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_progress_updates_author_id_fkey";
+            columns: ["author_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goal_progress_updates_reply_to_id_fkey";
+            columns: ["reply_to_id"];
+            isOneToOne: false;
+            referencedRelation: "goal_progress_updates";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       goals: {
         Row: {
+          actual_value: number | null;
           assessment_process_id: string;
+          baseline_value: number | null;
           category_id: string | null;
           created_at: string;
           description: string | null;
           id: string;
+          metric_name: string | null;
+          metric_unit: string | null;
+          parent_goal_id: string | null;
+          shared_goal_id: string | null;
+          target_value: number | null;
           title: string;
           updated_at: string;
           user_id: string;
           weight: number;
         };
         Insert: {
+          actual_value?: number | null;
           assessment_process_id: string;
+          baseline_value?: number | null;
           category_id?: string | null;
           created_at?: string;
           description?: string | null;
           id?: string;
+          metric_name?: string | null;
+          metric_unit?: string | null;
+          parent_goal_id?: string | null;
+          shared_goal_id?: string | null;
+          target_value?: number | null;
           title: string;
           updated_at?: string;
           user_id: string;
           weight: number;
         };
         Update: {
+          actual_value?: number | null;
           assessment_process_id?: string;
+          baseline_value?: number | null;
           category_id?: string | null;
           created_at?: string;
           description?: string | null;
           id?: string;
+          metric_name?: string | null;
+          metric_unit?: string | null;
+          parent_goal_id?: string | null;
+          shared_goal_id?: string | null;
+          target_value?: number | null;
           title?: string;
           updated_at?: string;
           user_id?: string;
@@ -112,6 +214,20 @@ export interface Database {
             referencedRelation: "goal_categories";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "goals_parent_goal_id_fkey";
+            columns: ["parent_goal_id"];
+            isOneToOne: false;
+            referencedRelation: "goals";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "goals_shared_goal_id_fkey";
+            columns: ["shared_goal_id"];
+            isOneToOne: false;
+            referencedRelation: "shared_goals";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "goals_user_id_fkey";
             columns: ["user_id"];
@@ -156,6 +272,145 @@ export interface Database {
           },
         ];
       };
+      predefined_goals: {
+        Row: {
+          category_id: string;
+          created_at: string;
+          created_by: string | null;
+          description: string;
+          id: string;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          category_id: string;
+          created_at?: string;
+          created_by?: string | null;
+          description: string;
+          id?: string;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          category_id?: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string;
+          id?: string;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "predefined_goals_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "goal_categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "predefined_goals_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      process_participants: {
+        Row: {
+          assessment_process_id: string;
+          created_at: string;
+          status: Database["public"]["Enums"]["assessment_process_status"];
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          assessment_process_id: string;
+          created_at?: string;
+          status?: Database["public"]["Enums"]["assessment_process_status"];
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          assessment_process_id?: string;
+          created_at?: string;
+          status?: Database["public"]["Enums"]["assessment_process_status"];
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "process_participants_assessment_process_id_fkey";
+            columns: ["assessment_process_id"];
+            isOneToOne: false;
+            referencedRelation: "assessment_processes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "process_participants_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      process_status_history: {
+        Row: {
+          assessment_process_id: string;
+          changed_at: string;
+          changed_by: string;
+          employee_id: string | null;
+          from_status: Database["public"]["Enums"]["assessment_process_status"] | null;
+          id: string;
+          reason: string | null;
+          to_status: Database["public"]["Enums"]["assessment_process_status"];
+        };
+        Insert: {
+          assessment_process_id: string;
+          changed_at?: string;
+          changed_by: string;
+          employee_id?: string | null;
+          from_status?: Database["public"]["Enums"]["assessment_process_status"] | null;
+          id?: string;
+          reason?: string | null;
+          to_status: Database["public"]["Enums"]["assessment_process_status"];
+        };
+        Update: {
+          assessment_process_id?: string;
+          changed_at?: string;
+          changed_by?: string;
+          employee_id?: string | null;
+          from_status?: Database["public"]["Enums"]["assessment_process_status"] | null;
+          id?: string;
+          reason?: string | null;
+          to_status?: Database["public"]["Enums"]["assessment_process_status"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "process_status_history_assessment_process_id_fkey";
+            columns: ["assessment_process_id"];
+            isOneToOne: false;
+            referencedRelation: "assessment_processes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "process_status_history_employee_id_fkey";
+            columns: ["employee_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "process_status_history_changed_by_fkey";
+            columns: ["changed_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       self_assessments: {
         Row: {
           comments: string | null;
@@ -191,6 +446,61 @@ export interface Database {
           },
         ];
       };
+      shared_goals: {
+        Row: {
+          assessment_process_id: string;
+          category_id: string | null;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          id: string;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          assessment_process_id: string;
+          category_id?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          assessment_process_id?: string;
+          category_id?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "shared_goals_assessment_process_id_fkey";
+            columns: ["assessment_process_id"];
+            isOneToOne: false;
+            referencedRelation: "assessment_processes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "shared_goals_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "goal_categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "shared_goals_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       users: {
         Row: {
           created_at: string;
@@ -231,9 +541,46 @@ export interface Database {
       };
     };
     Views: Record<string, never>; // this means: intentionally empty
-    Functions: Record<string, never>;
+    Functions: {
+      get_reporting_line_goals: {
+        Args: { _process_id: string; _employee_id: string };
+        Returns: {
+          id: string;
+          title: string;
+          weight: number;
+          user_id: string;
+          parent_goal_id: string | null;
+          category_id: string | null;
+          category_name: string | null;
+          owner_first_name: string | null;
+          owner_last_name: string | null;
+          owner_manager_id: string | null;
+        }[];
+      };
+      import_users: {
+        Args: { _users: Json };
+        Returns: undefined;
+      };
+      is_in_reporting_line: {
+        Args: { _employee_id: string; _manager_id: string };
+        Returns: boolean;
+      };
+      set_goal_actual_value: {
+        Args: { _goal_id: string; _actual_value: number | null };
+        Returns: undefined;
+      };
+      update_shared_goal_assignment: {
+        Args: { _goal_id: string; _title: string; _description: string; _category_id: string; _assignment: Json };
+        Returns: undefined;
+      };
+    };
     Enums: {
-      assessment_process_status: "in_definition" | "in_self_assessment" | "awaiting_manager_assessment" | "completed";
+      assessment_process_status:
+        | "in_definition"
+        | "in_progress"
+        | "in_self_assessment"
+        | "awaiting_manager_assessment"
+        | "completed";
     };
     CompositeTypes: Record<string, never>;
   };
@@ -337,7 +684,13 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      assessment_process_status: ["in_definition", "in_self_assessment", "awaiting_manager_assessment", "completed"],
+      assessment_process_status: [
+        "in_definition",
+        "in_progress",
+        "in_self_assessment",
+        "awaiting_manager_assessment",
+        "completed",
+      ],
     },
   },
 } as const;
@@ -1,37 +1,170 @@
-import { createClient } from "@supabase/supabase-js";
+import type { AstroCookies, AstroCookieSetOptions } from "astro";
+import { createClient, type Session, type SupabaseClient, type SupportedStorage } from "@supabase/supabase-js";
 
 import type { Database } from "./database.types";
 
 /**
  * @file Supabase client configuration and instantiation.
- * This module initializes and exports a singleton Supabase client instance for interacting with the Supabase backend.
+ * This module creates request-scoped Supabase clients for interacting with the Supabase backend
+ * and manages the HTTP-only cookies that carry the user's session between requests.
  * It reads the Supabase URL and anonymous key from environment variables.
  * @module db/supabase.client
  * @see module:db/database.types
+ * @see module:middleware/index
  */
 
 const supabaseUrl = import.meta.env.SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.SUPABASE_KEY;
 
 /**
- * The Supabase client instance, typed with the project's database schema.
- * This client is used throughout the application to interact with Supabase services (Auth, Database, Storage, etc.).
- * It is configured with the Supabase URL and anonymous key retrieved from environment variables.
+ * Names of the cookies holding the session tokens.
+ * @constant {object} AUTH_COOKIES
+ */
+export const AUTH_COOKIES = {
+  accessToken: "sb-access-token",
+  refreshToken: "sb-refresh-token",
+  // Timestamp of the last request of the user, used by the idle timeout
+  lastActivity: "sb-last-activity",
+  // PKCE code verifier kept between the start of a single sign-on and its callback
+  codeVerifier: "sb-code-verifier",
+} as const;
+
+/**
+ * Options of the session cookies. The cookies are HTTP-only, so the tokens are never exposed to client-side scripts;
+ * they outlive the access token so that the middleware can refresh an expired session.
+ * @constant {AstroCookieSetOptions} AUTH_COOKIE_OPTIONS
+ */
+export const AUTH_COOKIE_OPTIONS: AstroCookieSetOptions = {
+  path: "/",
+  httpOnly: true,
+  secure: import.meta.env.PROD,
+  sameSite: "lax",
+  maxAge: 60 * 60 * 24 * 7,
+};
+
+/**
+ * Creates a Supabase client for a single request, typed with the project's database schema.
+ * The client keeps its session in memory only, so concurrent requests never share authentication state;
+ * the session is restored from the session cookies by the middleware.
  *
  * Ensure that `SUPABASE_URL` and `SUPABASE_KEY` are correctly set in your environment variables
  * (e.g., in a `.env` file).
  *
- * @constant {SupabaseClient<Database>} supabaseClient
+ * @function createSupabaseServerClient
+ * @returns {SupabaseClient<Database>} A new client instance without a session.
  * @example
  * ```ts
- * // Example usage in a server-side component or API route
- * import { supabaseClient } from "../db/supabase.client";
- *
- * async function fetchData() {
- *   const { data, error } = await supabaseClient.from("users").select("*");
- *   if (error) console.error("Error fetching users:", error);
- *   else console.log("Users:", data);
- * }
+ * // In an API route or Astro page use the client created for the request by the middleware
+ * const { supabase } = Astro.locals;
+ * const { data, error } = await supabase.from("users").select("*");
  * ```
  */
-export const supabaseClient = createClient<Database>(supabaseUrl, supabaseAnonKey);
+export function createSupabaseServerClient(): SupabaseClient<Database> {
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
+
+/**
+ * Creates a Supabase client authenticated with the service role key, which bypasses RLS and gives access
+ * to the auth admin API (e.g. sending invitations). Use it only in API routes, after checking the caller's role.
+ *
+ * @function createSupabaseAdminClient
+ * @returns {SupabaseClient<Database> | null} A new admin client, or null when `SUPABASE_SERVICE_ROLE_KEY` is not set.
+ */
+export function createSupabaseAdminClient(): SupabaseClient<Database> | null {
+  const serviceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    return null;
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
+
+/**
+ * Creates a Supabase client for single sign-on with an external identity provider (PKCE flow).
+ * The PKCE code verifier is kept in a short-lived HTTP-only cookie, so that the client created for the callback request
+ * can exchange the authorization code for a session; everything else stays in memory, as in the request-scoped client.
+ *
+ * @function createSupabaseSsoClient
+ * @param {AstroCookies} cookies - The cookies of the current request.
+ * @returns {SupabaseClient<Database>} A new client instance using the PKCE flow.
+ */
+export function createSupabaseSsoClient(cookies: AstroCookies): SupabaseClient<Database> {
+  const memory = new Map<string, string>();
+  const isCodeVerifier = (key: string) => key.endsWith("-code-verifier");
+
+  const storage: SupportedStorage = {
+    getItem: (key) =>
+      isCodeVerifier(key) ? (cookies.get(AUTH_COOKIES.codeVerifier)?.value ?? null) : (memory.get(key) ?? null),
+    setItem: (key, value) => {
+      if (isCodeVerifier(key)) {
+        cookies.set(AUTH_COOKIES.codeVerifier, value, { ...AUTH_COOKIE_OPTIONS, maxAge: 60 * 10 });
+      } else {
+        memory.set(key, value);
+      }
+    },
+    removeItem: (key) => {
+      if (isCodeVerifier(key)) {
+        cookies.delete(AUTH_COOKIES.codeVerifier, { path: AUTH_COOKIE_OPTIONS.path });
+      } else {
+        memory.delete(key);
+      }
+    },
+  };
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      flowType: "pkce",
+      storage,
+      persistSession: true,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
+
+/**
+ * Stores the session tokens in the HTTP-only session cookies and records the activity.
+ *
+ * @function setAuthCookies
+ * @param {AstroCookies} cookies - The cookies of the current request.
+ * @param {Session} session - The Supabase session to store.
+ */
+export function setAuthCookies(cookies: AstroCookies, session: Session): void {
+  cookies.set(AUTH_COOKIES.accessToken, session.access_token, AUTH_COOKIE_OPTIONS);
+  cookies.set(AUTH_COOKIES.refreshToken, session.refresh_token, AUTH_COOKIE_OPTIONS);
+  touchSessionActivity(cookies);
+}
+
+/**
+ * Records the current time as the last activity of the session.
+ *
+ * @function touchSessionActivity
+ * @param {AstroCookies} cookies - The cookies of the current request.
+ */
+export function touchSessionActivity(cookies: AstroCookies): void {
+  cookies.set(AUTH_COOKIES.lastActivity, String(Date.now()), AUTH_COOKIE_OPTIONS);
+}
+
+/**
+ * Removes the session cookies, e.g. when the session can no longer be refreshed.
+ *
+ * @function clearAuthCookies
+ * @param {AstroCookies} cookies - The cookies of the current request.
+ */
+export function clearAuthCookies(cookies: AstroCookies): void {
+  cookies.delete(AUTH_COOKIES.accessToken, { path: AUTH_COOKIE_OPTIONS.path });
+  cookies.delete(AUTH_COOKIES.refreshToken, { path: AUTH_COOKIE_OPTIONS.path });
+  cookies.delete(AUTH_COOKIES.lastActivity, { path: AUTH_COOKIE_OPTIONS.path });
+}
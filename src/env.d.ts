@@ -1,7 +1,8 @@
 /// <reference types="astro/client" />
 
-import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
 import type { Database } from "./db/database.types";
+import type { UserRole } from "./lib/auth-utils";
 
 /**
  * @file Type declarations for environment variables and Astro's `context.locals`.
@@ -20,10 +21,21 @@ declare global {
      */
     interface Locals {
       /**
-       * The Supabase client instance, injected by middleware.
+       * The Supabase client instance created for the current request, injected by middleware.
        * @see module:middleware/index
        */
       supabase: SupabaseClient<Database>;
+      /**
+       * The user authenticated by the session cookies, or null for anonymous requests.
+       * @see module:middleware/index
+       */
+      user: User | null;
+      /**
+       * The roles of the authenticated user, resolved by middleware for page requests.
+       * Empty for anonymous users, regular employees and API routes.
+       * @see module:lib/auth-utils
+       */
+      roles: UserRole[];
     }
   }
 }
@@ -39,6 +51,16 @@ interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   /** @description The anonymous public key for the Supabase project. */
   readonly SUPABASE_KEY: string;
+  /**
+   * @description The service role key for the Supabase project. Server-side only; used to send user invitations.
+   * Never expose it to the browser.
+   */
+  readonly SUPABASE_SERVICE_ROLE_KEY?: string;
+  /**
+   * @description Supabase Auth provider of the corporate identity provider used for single sign-on (e.g. `keycloak`
+   * for an OIDC issuer). Leave empty to disable the "Zaloguj przez konto firmowe" button.
+   */
+  readonly SSO_PROVIDER?: string;
   /** @description API key for the OpenRouter service. (Example, adjust as needed) */
   readonly OPENROUTER_API_KEY: string;
   // more env variables...
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { calculateAchievement, suggestRating } from "@/lib/goal-metrics";
+import { DEFAULT_RATING_SCALE, RATING_SCALE_PRESETS } from "@/lib/rating-scale";
+
+const metric = { name: "NPS", unit: "pkt", baselineValue: 40, targetValue: 60, actualValue: 64 };
+
+describe("calculateAchievement", () => {
+  it("powinien obliczyć wykonanie względem drogi od wartości bazowej do docelowej", () => {
+    expect(calculateAchievement(metric)).toBe(120);
+    expect(calculateAchievement({ ...metric, baselineValue: null, targetValue: 200, actualValue: 150 })).toBe(75);
+  });
+
+  it("powinien obsłużyć cele malejące", () => {
+    expect(calculateAchievement({ ...metric, baselineValue: 10, targetValue: 5, actualValue: 6 })).toBe(80);
+  });
+
+  it("powinien zwrócić brak wykonania, gdy nie ma wartości rzeczywistej", () => {
+    expect(calculateAchievement({ ...metric, actualValue: null })).toBeNull();
+  });
+});
+
+describe("suggestRating", () => {
+  it("powinien przyjąć wykonanie jako ocenę w skali procentowej, w granicach skali", () => {
+    expect(suggestRating(DEFAULT_RATING_SCALE, 120)).toBe(120);
+    expect(suggestRating(DEFAULT_RATING_SCALE, 180)).toBe(150);
+    expect(suggestRating(DEFAULT_RATING_SCALE, -20)).toBe(0);
+  });
+
+  it("powinien umieścić pełne wykonanie w środku skali opisowej", () => {
+    const scale = RATING_SCALE_PRESETS.five_point.scale;
+
+    expect(suggestRating(scale, 100)).toBe(3);
+    expect(suggestRating(scale, 150)).toBe(4);
+    expect(suggestRating(scale, 20)).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RATING_SCALE, RATING_SCALE_PRESETS, ratingScaleSchema, validateRating } from "@/lib/rating-scale";
+
+const fivePoint = RATING_SCALE_PRESETS.five_point.scale;
+
+describe("validateRating", () => {
+  it("powinien przyjąć ocenę z zakresu skali i odrzucić wartości spoza niego", () => {
+    expect(validateRating(DEFAULT_RATING_SCALE, 0)).toBeNull();
+    expect(validateRating(DEFAULT_RATING_SCALE, 150)).toBeNull();
+    expect(validateRating(DEFAULT_RATING_SCALE, 151)).toBe("Ocena musi być liczbą całkowitą w zakresie 0-150");
+    expect(validateRating(DEFAULT_RATING_SCALE, 12.5)).toBe("Ocena musi być liczbą całkowitą w zakresie 0-150");
+  });
+
+  it("powinien sprawdzić krok skali liczony od wartości minimalnej", () => {
+    const scale = { type: "range" as const, min: 10, max: 100, step: 10 };
+    expect(validateRating(scale, 30)).toBeNull();
+    expect(validateRating(scale, 35)).toBe("Ocena musi być wielokrotnością kroku 10");
+  });
+
+  it("powinien przyjąć tylko wartości zdefiniowane w skali opisowej", () => {
+    expect(validateRating(fivePoint, 3)).toBeNull();
+    expect(validateRating(fivePoint, 0)).toBe("Ocena musi być jedną z wartości: 1, 2, 3, 4, 5");
+  });
+});
+
+describe("ratingScaleSchema", () => {
+  it("powinien przyjąć predefiniowane skale", () => {
+    expect(ratingScaleSchema.safeParse(DEFAULT_RATING_SCALE).success).toBe(true);
+    expect(ratingScaleSchema.safeParse(fivePoint).success).toBe(true);
+  });
+
+  it("powinien odrzucić zakres z maksimum nie większym od minimum i niedodatnim krokiem", () => {
+    expect(ratingScaleSchema.safeParse({ type: "range", min: 5, max: 5, step: 1 }).success).toBe(false);
+    expect(ratingScaleSchema.safeParse({ type: "range", min: 0, max: 10, step: 0 }).success).toBe(false);
+  });
+
+  it("powinien odrzucić skalę opisową z powtórzonymi wartościami lub mniej niż dwiema ocenami", () => {
+    expect(
+      ratingScaleSchema.safeParse({
+        type: "options",
+        options: [
+          { value: 1, label: "Słabo" },
+          { value: 1, label: "Dobrze" },
+        ],
+      }).success
+    ).toBe(false);
+    expect(ratingScaleSchema.safeParse({ type: "options", options: [{ value: 1, label: "Jedyna" }] }).success).toBe(
+      false
+    );
+  });
+});
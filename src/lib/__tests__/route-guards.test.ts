@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { buildLoginUrl, getSafeNextPath, isProtectedPath } from "@/lib/route-guards";
+
+describe("isProtectedPath", () => {
+  it("powinien chronić strony panelu i procesów wraz z podstronami", () => {
+    expect(isProtectedPath("/dashboard")).toBe(true);
+    expect(isProtectedPath("/process/123/goals-view")).toBe(true);
+    expect(isProtectedPath("/users/import")).toBe(true);
+  });
+
+  it("nie powinien chronić strony logowania ani ścieżek o podobnym początku", () => {
+    expect(isProtectedPath("/login")).toBe(false);
+    expect(isProtectedPath("/")).toBe(false);
+    expect(isProtectedPath("/processes")).toBe(false);
+  });
+});
+
+describe("getSafeNextPath", () => {
+  it("powinien przyjąć ścieżkę w aplikacji", () => {
+    expect(getSafeNextPath("/process/123/goals-view?employeeId=7")).toBe("/process/123/goals-view?employeeId=7");
+  });
+
+  it("powinien odrzucić adresy prowadzące poza aplikację", () => {
+    expect(getSafeNextPath("https://example.com")).toBeUndefined();
+    expect(getSafeNextPath("//example.com")).toBeUndefined();
+    expect(getSafeNextPath("/\\example.com")).toBeUndefined();
+    expect(getSafeNextPath(null)).toBeUndefined();
+  });
+});
+
+describe("buildLoginUrl", () => {
+  it("powinien zakodować adres powrotu w parametrze next", () => {
+    expect(buildLoginUrl("/process/1/team?x=1")).toBe("/login?next=%2Fprocess%2F1%2Fteam%3Fx%3D1");
+    expect(buildLoginUrl("/dashboard", { reason: "expired" })).toBe("/login?reason=expired&next=%2Fdashboard");
+  });
+});
@@ -1,6 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../db/database.types";
-import { requireAuth, type AuthResult } from "./auth-utils";
+import { requireAuth, requireRole, type AuthResult, type UserRole } from "./auth-utils";
 
 /**
  * @file API utility functions.
@@ -65,17 +65,19 @@ interface AuthenticatedUserResult extends Omit<AuthResult, "error"> {
 
 /**
  * Authenticates a user for an API request using Supabase.
- * It leverages the `requireAuth` function and wraps the result in a way suitable for API route handlers,
- * providing either the authenticated user or a pre-formatted error `Response`.
+ * It leverages the `requireAuth` function (or `requireRole` when roles are given) and wraps the result
+ * in a way suitable for API route handlers, providing either the authenticated user or a pre-formatted error `Response`.
  *
  * @async
  * @function authenticateUser
  * @param {SupabaseClient<Database>} supabase - The Supabase client instance.
+ * @param {UserRole | UserRole[]} [roles] - Optional role (or alternative roles) the user must hold; a 403 response is returned otherwise.
  * @returns {Promise<AuthenticatedUserResult>} A promise that resolves to an `AuthenticatedUserResult` object.
  * If authenticated, `isAuthenticated` is true, `user` contains the user object, and `error` is null.
  * If not authenticated, `isAuthenticated` is false, `user` is null, and `error` contains a `Response` object
  * with the appropriate error message and status code.
  * @see module:lib/auth-utils~requireAuth
+ * @see module:lib/auth-utils~requireRole
  * @example
  * ```ts
  * // In an Astro API route (e.g., src/pages/api/protected.ts)
@@ -92,8 +94,11 @@ interface AuthenticatedUserResult extends Omit<AuthResult, "error"> {
  * }
  * ```
  */
-export async function authenticateUser(supabase: SupabaseClient<Database>): Promise<AuthenticatedUserResult> {
-  const { user, error } = await requireAuth(supabase);
+export async function authenticateUser(
+  supabase: SupabaseClient<Database>,
+  roles?: UserRole | UserRole[]
+): Promise<AuthenticatedUserResult> {
+  const { user, error } = roles ? await requireRole(supabase, roles) : await requireAuth(supabase);
   if (error || !user) {
     return {
       isAuthenticated: false,
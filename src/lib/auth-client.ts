@@ -0,0 +1,60 @@
+import type { SessionEndReason } from "./session-policy";
+import { buildLoginUrl } from "./route-guards";
+
+/**
+ * @file Browser-side helpers for the cookie-based session.
+ * React hooks use `authFetch` instead of `fetch` so that an expired session sends the user
+ * back to the login page instead of leaving the view with failed requests.
+ * @module lib/auth-client
+ * @see module:lib/session-policy
+ */
+
+/**
+ * Sends the user to the login page, remembering why the session ended and which page to return to.
+ *
+ * @function redirectToLogin
+ * @param {SessionEndReason} reason - Why the session ended; shown on the login page.
+ */
+export function redirectToLogin(reason: SessionEndReason): void {
+  localStorage.removeItem("user");
+
+  window.location.href =
+    reason === "logout"
+      ? `/login?${new URLSearchParams({ reason }).toString()}`
+      : buildLoginUrl(`${window.location.pathname}${window.location.search}`, { reason });
+}
+
+/**
+ * `fetch` for API calls of the logged-in user. Redirects to the login page when the API responds with 401.
+ * The response is returned as is, so callers handle other errors the usual way.
+ *
+ * @async
+ * @function authFetch
+ * @param {RequestInfo | URL} input - The resource to fetch.
+ * @param {RequestInit} [init] - Request options.
+ * @returns {Promise<Response>} The API response.
+ */
+export async function authFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 401) {
+    redirectToLogin("expired");
+  }
+  return response;
+}
+
+/**
+ * Ends the session on the server and sends the user to the login page.
+ *
+ * @async
+ * @function logout
+ * @param {SessionEndReason} [reason="logout"] - Why the session ends.
+ */
+export async function logout(reason: SessionEndReason = "logout"): Promise<void> {
+  try {
+    await fetch("/api/auth/logout", { method: "POST" });
+  } catch (error) {
+    // The session cookies stay until they expire, but the user still leaves the application
+    console.error("Error logging out:", error);
+  }
+  redirectToLogin(reason);
+}
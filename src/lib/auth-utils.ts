@@ -61,3 +61,116 @@ export async function requireAuth(supabase: SupabaseClient<Database>): Promise<A
     user,
   };
 }
+
+/**
+ * Checks whether the given user has an entry in the `admins` table.
+ * Administrators (HR) manage assessment processes, goal categories and user profiles.
+ *
+ * @async
+ * @function isAdmin
+ * @param {SupabaseClient<Database>} supabase - The Supabase client instance, typed with the project's database schema.
+ * @param {string} userId - The identifier of the user to check.
+ * @returns {Promise<boolean>} A promise that resolves to `true` if the user is an administrator, `false` otherwise
+ * (including when the lookup itself fails).
+ * @example
+ * ```ts
+ * const { user } = await requireAuth(supabase);
+ * if (user && (await isAdmin(supabase, user.id))) {
+ *   // Show process management actions
+ * }
+ * ```
+ */
+export async function isAdmin(supabase: SupabaseClient<Database>, userId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("admins").select("user_id").eq("user_id", userId).maybeSingle();
+
+  return !error && !!data;
+}
+
+/**
+ * Checks whether the given user is a manager, i.e. has at least one direct report.
+ *
+ * @async
+ * @function isManager
+ * @param {SupabaseClient<Database>} supabase - The Supabase client instance, typed with the project's database schema.
+ * @param {string} userId - The identifier of the user to check.
+ * @returns {Promise<boolean>} A promise that resolves to `true` if any user has `manager_id` set to `userId`.
+ */
+export async function isManager(supabase: SupabaseClient<Database>, userId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("users").select("id").eq("manager_id", userId).limit(1);
+
+  return !error && data.length > 0;
+}
+
+/**
+ * Roles recognised by the application.
+ * - `admin`: HR administrator listed in the `admins` table.
+ * - `manager`: user with at least one direct report.
+ */
+export type UserRole = "admin" | "manager";
+
+const roleCheckers: Record<UserRole, (supabase: SupabaseClient<Database>, userId: string) => Promise<boolean>> = {
+  admin: isAdmin,
+  manager: isManager,
+};
+
+/**
+ * Checks that the current user is authenticated and holds at least one of the given roles.
+ * Use it in API routes and Astro pages instead of ad-hoc role lookups.
+ *
+ * @async
+ * @function requireRole
+ * @param {SupabaseClient<Database>} supabase - The Supabase client instance, typed with the project's database schema.
+ * @param {UserRole | UserRole[]} roles - The role, or list of alternative roles, required for the operation.
+ * @returns {Promise<AuthResult>} A promise that resolves to an `AuthResult` object.
+ * If the user is not logged in, `AuthResult.error` has status 401.
+ * If the user is logged in but holds none of the roles, `AuthResult.error` has status 403 and `user` is null.
+ * @see {@link requireAuth}
+ * @example
+ * ```ts
+ * const { user, error } = await requireRole(supabase, ["admin", "manager"]);
+ * if (error || !user) {
+ *   return createErrorResponse(error?.message || "Brak uprawnień", error?.status || 403);
+ * }
+ * ```
+ */
+export async function requireRole(
+  supabase: SupabaseClient<Database>,
+  roles: UserRole | UserRole[]
+): Promise<AuthResult> {
+  const authResult = await requireAuth(supabase);
+  if (authResult.error || !authResult.user) {
+    return authResult;
+  }
+
+  const requiredRoles = Array.isArray(roles) ? roles : [roles];
+  for (const role of requiredRoles) {
+    if (await roleCheckers[role](supabase, authResult.user.id)) {
+      return authResult;
+    }
+  }
+
+  return {
+    user: null,
+    error: {
+      status: 403,
+      message: "Brak uprawnień do wykonania tej operacji",
+    },
+  };
+}
+
+/**
+ * Resolves all roles held by the given user.
+ * The middleware uses it to expose the roles of the logged-in user to pages via `Astro.locals.roles`.
+ *
+ * @async
+ * @function getUserRoles
+ * @param {SupabaseClient<Database>} supabase - The Supabase client instance, typed with the project's database schema.
+ * @param {string} userId - The identifier of the user.
+ * @returns {Promise<UserRole[]>} A promise that resolves to the roles of the user (empty for a regular employee).
+ */
+export async function getUserRoles(supabase: SupabaseClient<Database>, userId: string): Promise<UserRole[]> {
+  const roles = Object.keys(roleCheckers) as UserRole[];
+  const checks = await Promise.all(roles.map((role) => roleCheckers[role](supabase, userId)));
+
+  return roles.filter((_, index) => checks[index]);
+}
@@ -0,0 +1,61 @@
+/** A parsed record with the line of the file it starts on (1-based), so errors can point to the right line. */
+export interface CsvRecord {
+  line: number;
+  values: string[];
+}
+
+/**
+ * Parses CSV text into records, honouring quoted values with embedded separators, quotes and line breaks.
+ * The separator is detected from the header row: spreadsheets with Polish locale save CSV files with semicolons.
+ * Line breaks inside quoted values are counted, so every record keeps the line number shown by a text editor.
+ */
+export function parseCsv(csv: string): CsvRecord[] {
+  const text = csv.replace(/^\uFEFF/, "");
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const separator = headerLine.includes(";") && !headerLine.includes(",") ? ";" : ",";
+
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let value = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      record.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(value);
+      records.push({ line: recordLine, values: record });
+      record = [];
+      value = "";
+      line++;
+      recordLine = line;
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== "" || record.length > 0) {
+    record.push(value);
+    records.push({ line: recordLine, values: record });
+  }
+
+  return records;
+}
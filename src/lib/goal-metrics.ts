@@ -0,0 +1,80 @@
+import type { GoalMetricDTO, RatingScale } from "../types";
+import { getRatingScaleBounds } from "./rating-scale";
+
+interface GoalMetricColumns {
+  metric_name: string | null;
+  metric_unit: string | null;
+  baseline_value: number | null;
+  target_value: number | null;
+  actual_value: number | null;
+}
+
+/**
+ * Maps the metric columns of a goal row to the DTO (null when the goal is not measurable)
+ */
+export function toGoalMetricDTO(row: GoalMetricColumns): GoalMetricDTO | null {
+  if (!row.metric_name || row.target_value === null) {
+    return null;
+  }
+  return {
+    name: row.metric_name,
+    unit: row.metric_unit,
+    baselineValue: row.baseline_value,
+    targetValue: row.target_value,
+    actualValue: row.actual_value,
+  };
+}
+
+/**
+ * Maps a metric to goal columns; null clears all metric columns
+ */
+export function toGoalMetricColumns(metric: GoalMetricDTO | null): GoalMetricColumns {
+  return {
+    metric_name: metric?.name ?? null,
+    metric_unit: metric?.unit ?? null,
+    baseline_value: metric?.baselineValue ?? null,
+    target_value: metric?.targetValue ?? null,
+    actual_value: metric?.actualValue ?? null,
+  };
+}
+
+/**
+ * Returns how much of the way from baseline (0 when not set) to target the actual value got, in percent.
+ * Works for decreasing targets too; null when there is no actual value yet.
+ */
+export function calculateAchievement(metric: GoalMetricDTO): number | null {
+  const baseline = metric.baselineValue ?? 0;
+  if (metric.actualValue === null || metric.targetValue === baseline) {
+    return null;
+  }
+  return Math.round(((metric.actualValue - baseline) / (metric.targetValue - baseline)) * 100);
+}
+
+/**
+ * Suggests a rating on the process scale for the given achievement percentage.
+ * Percentage scales (containing 100) take the achievement directly; other scales place
+ * full achievement in the middle of the scale, so ratings above the middle mean exceeding the target.
+ */
+export function suggestRating(scale: RatingScale, achievement: number): number {
+  if (scale.type === "options") {
+    const options = [...scale.options].sort((a, b) => a.value - b.value);
+    const middle = (options.length - 1) / 2;
+    const index = Math.min(options.length - 1, Math.max(0, Math.round((achievement / 100) * middle)));
+    return options[index].value;
+  }
+
+  const { min, max } = getRatingScaleBounds(scale);
+  const value = min <= 100 && 100 <= max ? achievement : min + (achievement / 100) * ((max - min) / 2);
+  const stepped = min + Math.round((value - min) / scale.step) * scale.step;
+  return Math.min(max - ((max - min) % scale.step), Math.max(min, stepped));
+}
+
+/**
+ * Formats a metric value with its unit for display
+ */
+export function formatMetricValue(value: number | null, unit: string | null): string {
+  if (value === null) {
+    return "-";
+  }
+  return unit ? `${value.toLocaleString("pl-PL")} ${unit}` : value.toLocaleString("pl-PL");
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * Optional metric of a measurable goal
+ */
+export const goalMetricSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, { message: "Nazwa miernika jest wymagana" })
+      .max(100, { message: "Nazwa miernika nie może przekraczać 100 znaków" }),
+    unit: z.string().trim().max(20, { message: "Jednostka nie może przekraczać 20 znaków" }).nullable(),
+    baselineValue: z.number({ invalid_type_error: "Wartość bazowa musi być liczbą" }).nullable(),
+    targetValue: z.number({ invalid_type_error: "Wartość docelowa musi być liczbą" }),
+    actualValue: z.number({ invalid_type_error: "Wartość rzeczywista musi być liczbą" }).nullable(),
+  })
+  .refine((metric) => metric.targetValue !== (metric.baselineValue ?? null), {
+    message: "Wartość docelowa musi różnić się od wartości bazowej",
+    path: ["targetValue"],
+  });
+
+/**
+ * Goal fields accepted when creating or editing a goal, shared by the goal routes and the goal import
+ */
+export const goalSchema = z.object({
+  title: z
+    .string()
+    .min(5, { message: "Tytuł celu musi mieć minimum 5 znaków" })
+    .max(50, { message: "Tytuł celu nie może przekraczać 50 znaków" }),
+  description: z
+    .string()
+    .min(5, { message: "Opis celu musi mieć minimum 5 znaków" })
+    .max(500, { message: "Opis celu nie może przekraczać 500 znaków" }),
+  weight: z
+    .number()
+    .int({ message: "Waga celu musi być liczbą całkowitą" })
+    .min(1, { message: "Waga celu musi wynosić co najmniej 1%" })
+    .max(100, { message: "Waga celu nie może przekraczać 100%" }),
+  categoryId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora kategorii" }),
+  metric: goalMetricSchema.nullish(),
+});
+
+/**
+ * Goal fields of a single employee's goal, optionally aligned with a goal of their manager
+ */
+export const alignedGoalSchema = goalSchema.extend({
+  parentGoalId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora celu nadrzędnego" }).nullish(),
+});
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import type { RatingScale } from "../types";
+
+// Scale used by processes created before rating scales became configurable
+export const DEFAULT_RATING_SCALE: RatingScale = { type: "range", min: 0, max: 150, step: 1 };
+
+// Scales offered when creating a process
+export const RATING_SCALE_PRESETS: Record<string, { label: string; scale: RatingScale }> = {
+  percentage: {
+    label: "Procentowa (0-150%)",
+    scale: DEFAULT_RATING_SCALE,
+  },
+  five_point: {
+    label: "Pięciostopniowa (1-5)",
+    scale: {
+      type: "options",
+      options: [
+        { value: 1, label: "Nie spełnia" },
+        { value: 2, label: "Częściowo spełnia" },
+        { value: 3, label: "Spełnia" },
+        { value: 4, label: "Częściowo przekracza" },
+        { value: 5, label: "Przekracza" },
+      ],
+    },
+  },
+};
+
+// Validation schema for rating scale definitions (mirrors public.rating_in_scale)
+export const ratingScaleSchema = z.union([
+  z
+    .object({
+      type: z.literal("range"),
+      min: z.number().int().min(0, { message: "Minimalna ocena nie może być ujemna" }),
+      max: z.number().int(),
+      step: z.number().int().positive({ message: "Krok skali musi być większy od 0" }),
+    })
+    .refine((scale) => scale.max > scale.min, {
+      message: "Maksymalna ocena musi być większa od minimalnej",
+      path: ["max"],
+    }),
+  z.object({
+    type: z.literal("options"),
+    options: z
+      .array(
+        z.object({
+          value: z.number().int().min(0, { message: "Wartość oceny nie może być ujemna" }),
+          label: z.string().trim().min(1, { message: "Etykieta oceny jest wymagana" }).max(50),
+        })
+      )
+      .min(2, { message: "Skala musi mieć co najmniej 2 oceny" })
+      .refine((options) => new Set(options.map((option) => option.value)).size === options.length, {
+        message: "Wartości ocen w skali muszą być unikalne",
+      }),
+  }),
+]);
+
+/**
+ * Reads a rating scale stored as JSON, falling back to the default scale for malformed values
+ */
+export function parseRatingScale(value: unknown): RatingScale {
+  const result = ratingScaleSchema.safeParse(value);
+  return result.success ? result.data : DEFAULT_RATING_SCALE;
+}
+
+/**
+ * Returns the lowest and highest rating allowed by the scale
+ */
+export function getRatingScaleBounds(scale: RatingScale): { min: number; max: number } {
+  if (scale.type === "range") {
+    return { min: scale.min, max: scale.max };
+  }
+  const values = scale.options.map((option) => option.value);
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/**
+ * Checks a rating against the scale and returns an error message, or null when the rating is valid
+ */
+export function validateRating(scale: RatingScale, rating: number): string | null {
+  if (scale.type === "options") {
+    return scale.options.some((option) => option.value === rating)
+      ? null
+      : `Ocena musi być jedną z wartości: ${scale.options.map((option) => option.value).join(", ")}`;
+  }
+
+  if (!Number.isInteger(rating) || rating < scale.min || rating > scale.max) {
+    return `Ocena musi być liczbą całkowitą w zakresie ${scale.min}-${scale.max}`;
+  }
+  if ((rating - scale.min) % scale.step !== 0) {
+    return `Ocena musi być wielokrotnością kroku ${scale.step}`;
+  }
+  return null;
+}
+
+/**
+ * Formats a rating for display, using the option label when the scale defines one
+ */
+export function formatRating(scale: RatingScale, rating: number): string {
+  if (scale.type === "options") {
+    const option = scale.options.find((item) => item.value === rating);
+    return option ? `${option.label} (${rating})` : String(rating);
+  }
+  return `${rating}/${scale.max}`;
+}
+
+/**
+ * Finds the preset matching the given scale, if any
+ */
+export function findRatingScalePreset(scale: RatingScale): string | undefined {
+  return Object.keys(RATING_SCALE_PRESETS).find(
+    (key) => JSON.stringify(RATING_SCALE_PRESETS[key].scale) === JSON.stringify(scale)
+  );
+}
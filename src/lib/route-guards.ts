@@ -0,0 +1,56 @@
+/**
+ * @file Rules deciding which pages require a logged-in user and where to return after login.
+ * Used by the middleware to protect pages centrally and by the login page to validate the return URL.
+ * @module lib/route-guards
+ * @see module:middleware/index
+ */
+
+/** @description Path prefixes of the pages available only to logged-in users. */
+export const PROTECTED_PATH_PREFIXES = ["/dashboard", "/process", "/users"] as const;
+
+/** @description Page where users set a password from a link sent by email (password reset or invitation). */
+export const PASSWORD_RESET_PATH = "/reset-password";
+
+/** @description Query parameter of the login page holding the URL to return to after login. */
+export const LOGIN_NEXT_PARAM = "next";
+
+/**
+ * Checks whether the page under the given path requires a logged-in user.
+ * A prefix matches the path itself and everything below it, but not paths merely starting with the same text.
+ *
+ * @function isProtectedPath
+ * @param {string} pathname - The path of the requested page.
+ * @returns {boolean} True when anonymous users must be sent to the login page.
+ */
+export function isProtectedPath(pathname: string): boolean {
+  return PROTECTED_PATH_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+/**
+ * Validates the URL to return to after login. Only paths within the application are accepted,
+ * so the parameter cannot be used to send the user to another site.
+ *
+ * @function getSafeNextPath
+ * @param {string | null | undefined} next - The value of the `next` parameter.
+ * @returns {string | undefined} The path to return to, or undefined when the value is missing or not allowed.
+ */
+export function getSafeNextPath(next: string | null | undefined): string | undefined {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) {
+    return undefined;
+  }
+  return next;
+}
+
+/**
+ * Builds the URL of the login page that returns to the given page after login.
+ *
+ * @function buildLoginUrl
+ * @param {string} next - The path (with query string) of the page to return to.
+ * @param {Record<string, string>} [params] - Additional query parameters, e.g. the reason the session ended.
+ * @returns {string} The login page URL.
+ */
+export function buildLoginUrl(next: string, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams(params);
+  query.set(LOGIN_NEXT_PARAM, next);
+  return `/login?${query.toString()}`;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { buildCsv, type ExportGoalRow } from "@/lib/services/export.service";
+
+const ROW: ExportGoalRow = {
+  employee: "Bartosz Bednarski",
+  manager: "Alicja Adamska",
+  category: "Rozwój",
+  title: "Wdrożenie CRM",
+  weight: 40,
+  selfRating: 100,
+  selfComments: "",
+  managerRating: null,
+  managerComments: "",
+};
+
+const dataLine = (row: ExportGoalRow) => buildCsv({ goals: [row], summaries: [] }, "goals").split("\r\n")[1];
+
+describe("buildCsv", () => {
+  it("powinien poprzedzić apostrofem teksty rozpoczynające formułę", () => {
+    expect(
+      dataLine({ ...ROW, title: '=HYPERLINK("http://x")', selfComments: "@SUM(A1)", managerComments: "-1+1" })
+    ).toBe('Bartosz Bednarski,Alicja Adamska,Rozwój,"\'=HYPERLINK(""http://x"")",40,100,\'@SUM(A1),,\'-1+1');
+    expect(dataLine({ ...ROW, title: "\tCel" })).toContain(",'\tCel,");
+  });
+
+  it("nie powinien zmieniać zwykłych tekstów ani liczb", () => {
+    expect(dataLine(ROW)).toBe("Bartosz Bednarski,Alicja Adamska,Rozwój,Wdrożenie CRM,40,100,,,");
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { validateGoalImport, type GoalImportEmployee } from "@/lib/services/goal-import.service";
+
+const PROCESS_ID = "process-1";
+const CATEGORY_ID = "3f1b8a52-5c5e-4d3a-9a55-6d2f2f7c1a10";
+
+const EMPLOYEES: GoalImportEmployee[] = [
+  {
+    id: "e1",
+    email: "bartosz@firma.pl",
+    name: "Bartosz Bednarski",
+    status: "in_definition",
+    currentWeight: 40,
+    currentTitles: ["Szkolenie zespołu"],
+  },
+  {
+    id: "e2",
+    email: "cezary@firma.pl",
+    name: "Cezary Czerski",
+    status: "in_self_assessment",
+    currentWeight: 100,
+    currentTitles: [],
+  },
+];
+
+const HEADER = ["employee_email", "title", "description", "category", "weight"];
+
+// Records as read from an XLSX worksheet, where the line is the row number
+const toRecords = (rows: string[][]) => rows.map((values, index) => ({ line: index + 1, values }));
+
+describe("validateGoalImport", () => {
+  it("powinien przygotować cele do zapisu, gdy wszystkie wiersze są poprawne", () => {
+    const { preview, goals } = validateGoalImport(
+      PROCESS_ID,
+      toRecords([HEADER, ["Bartosz@firma.pl", "Wdrożenie CRM", "Wdrożenie systemu CRM w dziale", "rozwój", "60%"]]),
+      EMPLOYEES,
+      [{ id: CATEGORY_ID, name: "Rozwój" }]
+    );
+
+    expect(preview.rows[0].errors).toEqual([]);
+    expect(preview.employees).toEqual([
+      { employeeId: "e1", employeeName: "Bartosz Bednarski", currentWeight: 40, importedWeight: 60 },
+    ]);
+    expect(goals).toEqual([
+      {
+        title: "Wdrożenie CRM",
+        description: "Wdrożenie systemu CRM w dziale",
+        weight: 60,
+        category_id: CATEGORY_ID,
+        user_id: "e1",
+        assessment_process_id: PROCESS_ID,
+      },
+    ]);
+  });
+
+  it("powinien zgłosić błędy wierszy i nie zwrócić celów do zapisu", () => {
+    const { preview, goals } = validateGoalImport(
+      PROCESS_ID,
+      toRecords([
+        HEADER,
+        ["bartosz@firma.pl", "Cel A", "Opis pierwszego celu", "Rozwój", "50"],
+        ["bartosz@firma.pl", "Cel B", "Opis drugiego celu", "Rozwój", "20"],
+        ["cezary@firma.pl", "Cel C", "Opis trzeciego celu", "Nieznana", "10"],
+        ["obcy@firma.pl", "X", "Opis", "Rozwój", "abc"],
+      ]),
+      EMPLOYEES,
+      [{ id: CATEGORY_ID, name: "Rozwój" }]
+    );
+
+    expect(goals).toEqual([]);
+    expect(preview.rows[0].errors).toEqual([]);
+    expect(preview.rows[1].errors).toEqual(["Suma wag celów pracownika przekroczyłaby 100% (110%)"]);
+    expect(preview.rows[2].errors).toEqual([
+      "Cele można dodawać tylko dla pracowników w fazie definiowania",
+      'Nieznana kategoria "Nieznana"',
+    ]);
+    expect(preview.rows[3].errors).toEqual([
+      "Pracownik obcy@firma.pl nie należy do Twojego zespołu",
+      "Waga celu musi być liczbą",
+      "Tytuł celu musi mieć minimum 5 znaków",
+      "Opis celu musi mieć minimum 5 znaków",
+    ]);
+  });
+
+  it("powinien odrzucić wagi ułamkowe i mniejsze niż 1%", () => {
+    const { preview, goals } = validateGoalImport(
+      PROCESS_ID,
+      toRecords([
+        HEADER,
+        ["bartosz@firma.pl", "Wdrożenie CRM", "Opis pierwszego celu", "Rozwój", "12,5"],
+        ["bartosz@firma.pl", "Audyt procesów", "Opis drugiego celu", "Rozwój", "0%"],
+      ]),
+      EMPLOYEES,
+      [{ id: CATEGORY_ID, name: "Rozwój" }]
+    );
+
+    expect(goals).toEqual([]);
+    expect(preview.rows.map((row) => row.errors)).toEqual([
+      ["Waga celu musi być liczbą całkowitą"],
+      ["Waga celu musi wynosić co najmniej 1%"],
+    ]);
+  });
+
+  it("powinien zgłosić tytuły, które pracownik już ma, i powtórzone w pliku", () => {
+    const { preview, goals } = validateGoalImport(
+      PROCESS_ID,
+      toRecords([
+        HEADER,
+        ["bartosz@firma.pl", "Szkolenie zespołu", "Opis pierwszego celu", "Rozwój", "10"],
+        ["bartosz@firma.pl", "Wdrożenie CRM", "Opis drugiego celu", "Rozwój", "10"],
+        ["bartosz@firma.pl", "Wdrożenie CRM", "Opis trzeciego celu", "Rozwój", "10"],
+      ]),
+      EMPLOYEES,
+      [{ id: CATEGORY_ID, name: "Rozwój" }]
+    );
+
+    expect(goals).toEqual([]);
+    expect(preview.rows.map((row) => row.errors)).toEqual([
+      ["Pracownik ma już cel o tym tytule"],
+      [],
+      ["Cel o tym tytule występuje w pliku więcej niż raz dla tego pracownika"],
+    ]);
+  });
+
+  it("powinien podać wiersz pliku CSV, w którym zaczyna się cel z wieloliniowym opisem", () => {
+    const csv = [
+      HEADER.join(","),
+      'bartosz@firma.pl,Wdrożenie CRM,"Pierwsza linia opisu\nDruga linia opisu",Rozwój,10',
+      "bartosz@firma.pl,Cel,Opis celu,Rozwój,10",
+    ].join("\n");
+
+    const { preview } = validateGoalImport(PROCESS_ID, parseCsv(csv), EMPLOYEES, [{ id: CATEGORY_ID, name: "Rozwój" }]);
+
+    expect(preview.rows.map((row) => row.line)).toEqual([2, 4]);
+    expect(preview.rows[0].description).toBe("Pierwsza linia opisu\nDruga linia opisu");
+    expect(preview.rows[1].errors).toEqual(["Tytuł celu musi mieć minimum 5 znaków"]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { calculateWeightedScore } from "@/lib/services/scoring.service";
+
+describe("calculateWeightedScore", () => {
+  it("powinien obliczyć średnią ważoną ocen wszystkich celów", () => {
+    const result = calculateWeightedScore([
+      { weight: 50, rating: 100 },
+      { weight: 30, rating: 150 },
+      { weight: 20, rating: 50 },
+    ]);
+
+    expect(result).toEqual({ score: 105, ratedGoals: 3, ratedWeight: 100, isComplete: true });
+  });
+
+  it("powinien pominąć nieocenione cele przy obliczaniu wyniku częściowego", () => {
+    const result = calculateWeightedScore([
+      { weight: 60, rating: 120 },
+      { weight: 40, rating: null },
+    ]);
+
+    expect(result).toEqual({ score: 120, ratedGoals: 1, ratedWeight: 60, isComplete: false });
+  });
+
+  it("powinien zwrócić brak wyniku, gdy żaden cel nie został oceniony", () => {
+    expect(calculateWeightedScore([{ weight: 100, rating: null }]).score).toBeNull();
+    expect(calculateWeightedScore([])).toEqual({ score: null, ratedGoals: 0, ratedWeight: 0, isComplete: false });
+  });
+
+  it("powinien zaokrąglić wynik do dwóch miejsc po przecinku", () => {
+    const result = calculateWeightedScore([
+      { weight: 1, rating: 100 },
+      { weight: 2, rating: 101 },
+    ]);
+
+    expect(result.score).toBe(100.67);
+  });
+});
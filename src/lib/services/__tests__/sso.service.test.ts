@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import type { Database } from "@/db/database.types";
+import { mapIdentityClaims, syncSsoProfile } from "@/lib/services/sso.service";
+
+interface Profile {
+  id: string;
+  email: string;
+  manager_id: string | null;
+}
+
+const PROFILES: Profile[] = [
+  { id: "alicja", email: "alicja@firma.pl", manager_id: null },
+  { id: "cezary", email: "cezary@firma.pl", manager_id: null },
+];
+
+// Service role client that answers profile lookups from the given profiles and records updates
+const createAdminClient = (profiles: Profile[]) => {
+  const updates: Record<string, unknown>[] = [];
+  const client = {
+    from: () => ({
+      select: () => {
+        const filters: ((profile: Profile) => boolean)[] = [];
+        const query = {
+          eq: (column: keyof Profile, value: string) => {
+            filters.push((profile) => profile[column] === value);
+            return query;
+          },
+          ilike: (column: keyof Profile, pattern: string) => {
+            filters.push((profile) => String(profile[column]).toLowerCase() === pattern.toLowerCase());
+            return query;
+          },
+          maybeSingle: async () => ({
+            data: profiles.find((profile) => filters.every((filter) => filter(profile))) ?? null,
+            error: null,
+          }),
+        };
+        return query;
+      },
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(values);
+          return { error: null };
+        },
+      }),
+    }),
+  };
+  return { client: client as unknown as SupabaseClient<Database>, updates };
+};
+
+// Client with the user's session; is_in_reporting_line tells whether the manager reports to the user
+const createUserClient = (managerReportsToUser: boolean) => {
+  const rpc = vi.fn(async () => ({ data: managerReportsToUser, error: null }));
+  return { client: { rpc } as unknown as SupabaseClient<Database>, rpc };
+};
+
+const ssoUser = (claims: Record<string, unknown>) =>
+  ({ id: "cezary", identities: [{ provider: "keycloak", identity_data: claims }] }) as unknown as User;
+
+describe("mapIdentityClaims", () => {
+  it("powinien odczytać imię, nazwisko i kierownika z oświadczeń dostawcy", () => {
+    expect(
+      mapIdentityClaims({
+        email: "cezary@firma.pl",
+        given_name: "Cezary",
+        family_name: "Czerski",
+        manager_email: "Alicja@Firma.pl",
+      })
+    ).toEqual({ firstName: "Cezary", lastName: "Czerski", managerEmail: "alicja@firma.pl" });
+  });
+
+  it("powinien podzielić pełne imię i nazwisko, gdy dostawca nie przesyła ich osobno", () => {
+    expect(mapIdentityClaims({ name: "Anna Maria  Nowak-Kowalska" })).toEqual({
+      firstName: "Anna",
+      lastName: "Maria Nowak-Kowalska",
+      managerEmail: null,
+    });
+    expect(mapIdentityClaims({ full_name: "Cher" })).toEqual({ firstName: "Cher", lastName: null, managerEmail: null });
+  });
+
+  it("powinien odczytać kierownika z oświadczeń niestandardowych i pominąć nieprawidłowy adres", () => {
+    expect(mapIdentityClaims({ custom_claims: { manager_email: "bartosz@firma.pl" } }).managerEmail).toBe(
+      "bartosz@firma.pl"
+    );
+    expect(mapIdentityClaims({ manager_email: "nie-email" }).managerEmail).toBeNull();
+  });
+});
+
+describe("syncSsoProfile", () => {
+  const claims = { given_name: "Cezary", family_name: "Czerski", manager_email: "Alicja@firma.pl" };
+
+  it("powinien uzupełnić imię, nazwisko i kierownika, gdy profil nie ma jeszcze kierownika", async () => {
+    const admin = createAdminClient(PROFILES);
+    const { client, rpc } = createUserClient(false);
+
+    const { error } = await syncSsoProfile(client, admin.client, ssoUser(claims), "keycloak");
+
+    expect(error).toBeUndefined();
+    expect(rpc).toHaveBeenCalledWith("is_in_reporting_line", { _employee_id: "alicja", _manager_id: "cezary" });
+    expect(admin.updates).toEqual([
+      expect.objectContaining({ first_name: "Cezary", last_name: "Czerski", manager_id: "alicja" }),
+    ]);
+  });
+
+  it("powinien zachować kierownika ustawionego wcześniej w profilu", async () => {
+    const admin = createAdminClient([PROFILES[0], { ...PROFILES[1], manager_id: "dorota" }]);
+    const { client, rpc } = createUserClient(false);
+
+    await syncSsoProfile(client, admin.client, ssoUser(claims), "keycloak");
+
+    expect(rpc).not.toHaveBeenCalled();
+    expect(admin.updates[0]).not.toHaveProperty("manager_id");
+    expect(admin.updates[0]).toMatchObject({ first_name: "Cezary", last_name: "Czerski" });
+  });
+
+  it("powinien pominąć kierownika, który podlega użytkownikowi albo nie jest zarejestrowany", async () => {
+    const cycle = createAdminClient(PROFILES);
+    await syncSsoProfile(createUserClient(true).client, cycle.client, ssoUser(claims), "keycloak");
+    expect(cycle.updates[0]).not.toHaveProperty("manager_id");
+
+    const unknown = createAdminClient(PROFILES);
+    await syncSsoProfile(
+      createUserClient(false).client,
+      unknown.client,
+      ssoUser({ ...claims, manager_email: "nieznany@firma.pl" }),
+      "keycloak"
+    );
+    expect(unknown.updates[0]).not.toHaveProperty("manager_id");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { buildUserImportPreview, parseUserCsv, type ExistingUser } from "@/lib/services/user-import.service";
+
+const EXISTING_USERS: ExistingUser[] = [
+  { id: "1", email: "alicja@firma.pl", first_name: "Alicja", last_name: "Adamska", manager_id: null },
+  { id: "2", email: "bartosz@firma.pl", first_name: "Bartosz", last_name: "Bednarski", manager_id: "1" },
+];
+
+describe("parseUserCsv", () => {
+  it("powinien odczytać plik rozdzielany średnikami z cudzysłowami", () => {
+    const { rows, errors } = parseUserCsv(
+      '\uFEFFemail;first_name;last_name;manager_email\r\nCezary@Firma.pl;"Cezary";"Czerski; Jr.";alicja@firma.pl\r\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      {
+        line: 2,
+        email: "cezary@firma.pl",
+        firstName: "Cezary",
+        lastName: "Czerski; Jr.",
+        managerEmail: "alicja@firma.pl",
+      },
+    ]);
+  });
+
+  it("powinien zgłosić brakujące kolumny i nieprawidłowe wiersze", () => {
+    expect(parseUserCsv("email,first_name\n").errors).toEqual([
+      { line: 1, message: "Brak wymaganych kolumn: last_name, manager_email" },
+    ]);
+
+    const { rows, errors } = parseUserCsv("email,first_name,last_name,manager_email\nniepoprawny,Jan,Nowak,\n");
+    expect(rows).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(2);
+  });
+
+  it("powinien podać numer linii pliku, gdy wcześniejszy wiersz ma wartość w wielu liniach", () => {
+    const { rows, errors } = parseUserCsv(
+      [
+        "email,first_name,last_name,manager_email",
+        'alicja@firma.pl,Alicja,"Adamska',
+        'Nowak",',
+        "niepoprawny,Jan,Nowak,",
+      ].join("\r\n")
+    );
+
+    expect(rows).toEqual([
+      { line: 2, email: "alicja@firma.pl", firstName: "Alicja", lastName: "Adamska\r\nNowak", managerEmail: null },
+    ]);
+    expect(errors).toEqual([{ line: 4, message: 'Nieprawidłowy adres email: "niepoprawny"' }]);
+  });
+});
+
+describe("buildUserImportPreview", () => {
+  it("powinien rozróżnić nowych, zmienionych i niezmienionych użytkowników", () => {
+    const { rows } = parseUserCsv(
+      [
+        "email,first_name,last_name,manager_email",
+        "alicja@firma.pl,Alicja,Adamska,",
+        "bartosz@firma.pl,Bartosz,Bednarski,cezary@firma.pl",
+        "cezary@firma.pl,Cezary,Czerski,alicja@firma.pl",
+      ].join("\n")
+    );
+
+    const { changes, errors } = buildUserImportPreview(rows, EXISTING_USERS);
+
+    expect(errors).toEqual([]);
+    expect(changes.map((change) => change.action)).toEqual(["unchanged", "update", "create"]);
+    expect(changes[1].changes).toEqual([{ field: "manager", from: "alicja@firma.pl", to: "cezary@firma.pl" }]);
+  });
+
+  it("powinien wykryć duplikaty, nieznanych kierowników i cykle", () => {
+    const { rows } = parseUserCsv(
+      [
+        "email,first_name,last_name,manager_email",
+        "alicja@firma.pl,Alicja,Adamska,bartosz@firma.pl",
+        "dorota@firma.pl,Dorota,Dąbrowska,nieznany@firma.pl",
+        "dorota@firma.pl,Dorota,Dąbrowska,",
+      ].join("\n")
+    );
+
+    const { errors } = buildUserImportPreview(rows, EXISTING_USERS);
+
+    expect(errors.map((error) => error.line)).toEqual([2, 3, 4]);
+    expect(errors[0].message).toContain("Cykl");
+    expect(errors[1].message).toContain("Nieznany kierownik");
+    expect(errors[2].message).toContain("wierszu 3");
+  });
+});
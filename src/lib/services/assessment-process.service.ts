@@ -0,0 +1,194 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  AssessmentProcess,
+  AssessmentProcessDTO,
+  CreateAssessmentProcessCommand,
+  UpdateAssessmentProcessCommand,
+} from "../../types";
+import { DEFAULT_RATING_SCALE, parseRatingScale } from "../rating-scale";
+
+type AssessmentProcessServiceResult = Promise<{
+  data: AssessmentProcessDTO | null;
+  error?: string;
+  statusCode?: number;
+}>;
+
+const PROCESS_COLUMNS = "id, title, description, status, is_active, start_date, end_date, rating_scale";
+
+/**
+ * Maps an assessment process row to the DTO returned by the API
+ */
+export function mapAssessmentProcessToDTO(
+  process: Pick<
+    AssessmentProcess,
+    "id" | "title" | "description" | "status" | "is_active" | "start_date" | "end_date" | "rating_scale"
+  >
+): AssessmentProcessDTO {
+  return {
+    id: process.id,
+    name: process.title,
+    description: process.description,
+    status: process.status,
+    active: process.is_active,
+    startDate: process.start_date,
+    endDate: process.end_date,
+    ratingScale: parseRatingScale(process.rating_scale),
+  };
+}
+
+/**
+ * Creates a new assessment process in the 'in_definition' status
+ */
+export async function createAssessmentProcess(
+  supabase: SupabaseClient<Database>,
+  command: CreateAssessmentProcessCommand
+): AssessmentProcessServiceResult {
+  const { data, error } = await supabase
+    .from("assessment_processes")
+    .insert({
+      title: command.title,
+      description: command.description ?? null,
+      start_date: command.startDate,
+      end_date: command.endDate,
+      is_active: command.isActive ?? true,
+      rating_scale: command.ratingScale ?? DEFAULT_RATING_SCALE,
+    })
+    .select(PROCESS_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Błąd podczas tworzenia procesu oceny:", error);
+    return { data: null, error: "Wystąpił błąd podczas tworzenia procesu oceny", statusCode: 500 };
+  }
+
+  return { data: mapAssessmentProcessToDTO(data) };
+}
+
+/**
+ * Checks whether any goal of the process already has a self or manager assessment.
+ * Participants may be past the definition phase while the process-level status is not,
+ * so the ratings themselves are checked rather than the status.
+ */
+async function hasProcessAssessments(
+  supabase: SupabaseClient<Database>,
+  processId: string
+): Promise<{ data: boolean | null; error?: string }> {
+  for (const table of ["self_assessments", "manager_assessments"] as const) {
+    const { count, error } = await supabase
+      .from(table)
+      .select("id, goals!inner(assessment_process_id)", { count: "exact", head: true })
+      .eq("goals.assessment_process_id", processId);
+
+    if (error) {
+      console.error("Błąd podczas sprawdzania ocen procesu:", error);
+      return { data: null, error: "Wystąpił błąd podczas sprawdzania ocen procesu" };
+    }
+    if (count) {
+      return { data: true };
+    }
+  }
+
+  return { data: false };
+}
+
+/**
+ * Updates selected fields of an assessment process.
+ * The date range is validated against the stored values, because a partial update
+ * may change only one of the dates. The rating scale can only change before any goal is rated.
+ */
+export async function updateAssessmentProcess(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  command: UpdateAssessmentProcessCommand
+): AssessmentProcessServiceResult {
+  const { data: existing, error: fetchError } = await supabase
+    .from("assessment_processes")
+    .select("id, status, start_date, end_date")
+    .eq("id", processId)
+    .single();
+
+  if (fetchError || !existing) {
+    return { data: null, error: "Nie znaleziono procesu oceny o podanym identyfikatorze", statusCode: 404 };
+  }
+
+  const startDate = command.startDate ?? existing.start_date;
+  const endDate = command.endDate ?? existing.end_date;
+
+  if (endDate < startDate) {
+    return {
+      data: null,
+      error: "Data zakończenia nie może być wcześniejsza niż data rozpoczęcia",
+      statusCode: 400,
+    };
+  }
+
+  if (command.ratingScale !== undefined) {
+    if (existing.status !== "in_definition") {
+      return {
+        data: null,
+        error: "Skalę ocen można zmienić tylko dla procesu w fazie definiowania celów",
+        statusCode: 400,
+      };
+    }
+
+    const { data: hasAssessments, error: assessmentsError } = await hasProcessAssessments(supabase, processId);
+    if (assessmentsError || hasAssessments === null) {
+      return { data: null, error: assessmentsError, statusCode: 500 };
+    }
+    if (hasAssessments) {
+      return {
+        data: null,
+        error: "Skali ocen nie można zmienić, bo w procesie wystawiono już oceny",
+        statusCode: 400,
+      };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("assessment_processes")
+    .update({
+      ...(command.title !== undefined && { title: command.title }),
+      ...(command.description !== undefined && { description: command.description }),
+      ...(command.isActive !== undefined && { is_active: command.isActive }),
+      ...(command.ratingScale !== undefined && { rating_scale: command.ratingScale }),
+      start_date: startDate,
+      end_date: endDate,
+    })
+    .eq("id", processId)
+    .select(PROCESS_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Błąd podczas aktualizacji procesu oceny:", error);
+    return { data: null, error: "Wystąpił błąd podczas aktualizacji procesu oceny", statusCode: 500 };
+  }
+
+  return { data: mapAssessmentProcessToDTO(data) };
+}
+
+/**
+ * Archives an assessment process by marking it as inactive.
+ * Processes are never deleted, so their goals and assessments stay available.
+ */
+export async function archiveAssessmentProcess(
+  supabase: SupabaseClient<Database>,
+  processId: string
+): AssessmentProcessServiceResult {
+  const { data, error } = await supabase
+    .from("assessment_processes")
+    .update({ is_active: false })
+    .eq("id", processId)
+    .select(PROCESS_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      return { data: null, error: "Nie znaleziono procesu oceny o podanym identyfikatorze", statusCode: 404 };
+    }
+    console.error("Błąd podczas archiwizacji procesu oceny:", error);
+    return { data: null, error: "Wystąpił błąd podczas archiwizacji procesu oceny", statusCode: 500 };
+  }
+
+  return { data: mapAssessmentProcessToDTO(data) };
+}
@@ -0,0 +1,142 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { BulkGoalResultDTO, CreateGoalCommand } from "../../types";
+import { REQUIRED_TOTAL_WEIGHT, getWeightWarnings } from "./goal-weight.service";
+import { getParticipantStatuses } from "./participant-status.service";
+import { toGoalMetricColumns, toGoalMetricDTO } from "../goal-metrics";
+
+interface BulkGoalEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+/** Employee receiving a goal with the weight it gets in their goal list. */
+export interface GoalAssignment {
+  employee: BulkGoalEmployee;
+  weight: number;
+}
+
+/**
+ * Creates the same goal for each of the given employees, optionally linked to a shared goal definition.
+ * Employees outside the definition phase, with a goal of the same title or whose weights would exceed
+ * the limit are reported as failures; the goal is still created for the others.
+ */
+export async function createGoalForEmployees(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  goal: Omit<CreateGoalCommand, "weight">,
+  assignments: GoalAssignment[],
+  sharedGoalId: string | null = null
+): Promise<{ data: BulkGoalResultDTO[] | null; error?: string; statusCode?: number }> {
+  const employees = assignments.map((assignment) => assignment.employee);
+  const weightByEmployee = new Map(assignments.map(({ employee, weight }) => [employee.id, weight]));
+
+  const { data: category, error: categoryError } = await supabase
+    .from("goal_categories")
+    .select("id, name")
+    .eq("id", goal.categoryId)
+    .single();
+
+  if (categoryError || !category) {
+    return { data: null, error: "Kategoria celu o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const {
+    data: statuses,
+    error: statusError,
+    statusCode,
+  } = await getParticipantStatuses(supabase, processId, employees);
+
+  if (statusError || !statuses) {
+    return { data: null, error: statusError, statusCode };
+  }
+
+  const { data: currentGoals, error: goalsError } = await supabase
+    .from("goals")
+    .select("user_id, title, weight")
+    .eq("assessment_process_id", processId)
+    .in(
+      "user_id",
+      employees.map((employee) => employee.id)
+    );
+
+  if (goalsError || !currentGoals) {
+    console.error("Błąd podczas pobierania celów pracowników:", goalsError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania celów pracowników", statusCode: 500 };
+  }
+
+  const results: BulkGoalResultDTO[] = [];
+  const eligible: { employeeId: string; employeeName: string; weight: number; totalWeight: number }[] = [];
+
+  for (const { employeeId, employeeName, status } of statuses) {
+    const weight = weightByEmployee.get(employeeId) || 0;
+    const employeeGoals = currentGoals.filter((current) => current.user_id === employeeId);
+    const totalWeight = employeeGoals.reduce((sum, current) => sum + current.weight, 0) + weight;
+
+    let error: string | undefined;
+    if (status !== "in_definition") {
+      error = "Cele można dodawać tylko dla pracowników w fazie definiowania";
+    } else if (employeeGoals.some((current) => current.title === goal.title)) {
+      error = "Pracownik ma już cel o tym tytule";
+    } else if (totalWeight > REQUIRED_TOTAL_WEIGHT) {
+      error = `Suma wag celów nie może przekraczać ${REQUIRED_TOTAL_WEIGHT}% (obecnie ${totalWeight - weight}%)`;
+    }
+
+    if (error) {
+      results.push({ employeeId, employeeName, success: false, error });
+    } else {
+      eligible.push({ employeeId, employeeName, weight, totalWeight });
+    }
+  }
+
+  if (eligible.length > 0) {
+    const { data: createdGoals, error: insertError } = await supabase
+      .from("goals")
+      .insert(
+        eligible.map(({ employeeId, weight }) => ({
+          title: goal.title,
+          description: goal.description,
+          weight,
+          category_id: goal.categoryId,
+          user_id: employeeId,
+          assessment_process_id: processId,
+          shared_goal_id: sharedGoalId,
+          ...toGoalMetricColumns(goal.metric ?? null),
+        }))
+      )
+      .select(
+        "id, user_id, title, description, weight, shared_goal_id, metric_name, metric_unit, baseline_value, target_value, actual_value"
+      );
+
+    if (insertError || !createdGoals) {
+      console.error("Błąd podczas tworzenia celów:", insertError);
+      return { data: null, error: "Wystąpił błąd podczas tworzenia celów", statusCode: 500 };
+    }
+
+    for (const { employeeId, employeeName, totalWeight } of eligible) {
+      const created = createdGoals.find((row) => row.user_id === employeeId);
+      if (!created) continue;
+
+      results.push({
+        employeeId,
+        employeeName,
+        success: true,
+        goal: {
+          id: created.id,
+          title: created.title || "",
+          description: created.description || "",
+          weight: created.weight,
+          category: { id: category.id, name: category.name },
+          sharedGoalId: created.shared_goal_id,
+          metric: toGoalMetricDTO(created),
+          validationErrors: getWeightWarnings(totalWeight),
+        },
+      });
+    }
+  }
+
+  // Keep the order of the given employees
+  const order = new Map(employees.map((employee, index) => [employee.id, index]));
+  return { data: results.sort((a, b) => (order.get(a.employeeId) || 0) - (order.get(b.employeeId) || 0)) };
+}
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import ExcelJS from "exceljs";
+import type { Database } from "../../db/database.types";
+import { STATUS_LABELS, type TeamMemberSummaryDTO } from "../../types";
+import { getTeamScoreSummaries } from "./scoring.service";
+
+export interface ExportEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+  manager_id: string | null;
+}
+
+export interface ExportGoalRow {
+  employee: string;
+  manager: string;
+  category: string;
+  title: string;
+  weight: number;
+  selfRating: number | null;
+  selfComments: string;
+  managerRating: number | null;
+  managerComments: string;
+}
+
+export interface ExportSummaryRow extends TeamMemberSummaryDTO {
+  manager: string;
+}
+
+export interface ProcessExportData {
+  goals: ExportGoalRow[];
+  summaries: ExportSummaryRow[];
+}
+
+// Column headers shared by both formats, in the order of the exported fields
+const GOAL_COLUMNS: { header: string; key: keyof ExportGoalRow }[] = [
+  { header: "Pracownik", key: "employee" },
+  { header: "Kierownik", key: "manager" },
+  { header: "Kategoria", key: "category" },
+  { header: "Cel", key: "title" },
+  { header: "Waga (%)", key: "weight" },
+  { header: "Samoocena", key: "selfRating" },
+  { header: "Komentarz do samooceny", key: "selfComments" },
+  { header: "Ocena kierownika", key: "managerRating" },
+  { header: "Komentarz kierownika", key: "managerComments" },
+];
+
+const SUMMARY_COLUMNS: { header: string; value: (row: ExportSummaryRow) => string | number | null }[] = [
+  { header: "Pracownik", value: (row) => row.employeeName },
+  { header: "Kierownik", value: (row) => row.manager },
+  { header: "Status", value: (row) => STATUS_LABELS[row.status] },
+  { header: "Liczba celów", value: (row) => row.totalGoals },
+  { header: "Suma wag (%)", value: (row) => row.totalWeight },
+  { header: "Wynik samooceny", value: (row) => row.selfAssessment.score },
+  { header: "Wynik oceny kierownika", value: (row) => row.managerAssessment.score },
+];
+
+/**
+ * Collects goal rows and per-employee summaries of the given employees for export
+ */
+export async function getProcessExportData(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employees: ExportEmployee[]
+): Promise<{ data: ProcessExportData | null; error?: string; statusCode?: number }> {
+  const {
+    data: summaries,
+    error: summaryError,
+    statusCode,
+  } = await getTeamScoreSummaries(supabase, processId, employees);
+
+  if (summaryError || !summaries) {
+    return { data: null, error: summaryError, statusCode };
+  }
+
+  if (employees.length === 0) {
+    return { data: { goals: [], summaries: [] } };
+  }
+
+  const employeeById = new Map(employees.map((employee) => [employee.id, employee]));
+  // Only managers outside the exported list need to be fetched (for administrators the list covers everyone),
+  // so the request stays short; goals are likewise fetched for the whole process and filtered here
+  const missingManagerIds = [
+    ...new Set(
+      employees.map((employee) => employee.manager_id).filter((id): id is string => !!id && !employeeById.has(id))
+    ),
+  ];
+
+  const [{ data: goals, error: goalsError }, { data: managers, error: managersError }] = await Promise.all([
+    supabase
+      .from("goals")
+      .select(
+        `
+        user_id,
+        title,
+        weight,
+        goal_categories:category_id ( name ),
+        self_assessments ( rating, comments ),
+        manager_assessments ( rating, comments )
+      `
+      )
+      .eq("assessment_process_id", processId)
+      .order("title", { ascending: true }),
+    missingManagerIds.length > 0
+      ? supabase.from("users").select("id, first_name, last_name").in("id", missingManagerIds)
+      : { data: [], error: null },
+  ]);
+
+  if (goalsError || managersError || !goals || !managers) {
+    console.error("Błąd podczas przygotowywania eksportu:", goalsError || managersError);
+    return { data: null, error: "Wystąpił błąd podczas przygotowywania eksportu", statusCode: 500 };
+  }
+
+  const nameById = new Map(
+    [...employees, ...managers].map((user) => [user.id, `${user.first_name} ${user.last_name}`])
+  );
+  const managerName = (employee: ExportEmployee | undefined) =>
+    (employee?.manager_id && nameById.get(employee.manager_id)) || "";
+  const goalsByEmployee = new Map<string, typeof goals>();
+  for (const goal of goals) {
+    goalsByEmployee.set(goal.user_id, [...(goalsByEmployee.get(goal.user_id) ?? []), goal]);
+  }
+
+  // Keep the order of the employee list, so every employee's goals stay together
+  const goalRows: ExportGoalRow[] = employees.flatMap((employee) =>
+    (goalsByEmployee.get(employee.id) ?? []).map((goal) => ({
+      employee: nameById.get(employee.id) || "",
+      manager: managerName(employee),
+      category: goal.goal_categories?.name || "Bez kategorii",
+      title: goal.title,
+      weight: goal.weight,
+      selfRating: goal.self_assessments?.rating ?? null,
+      selfComments: goal.self_assessments?.comments || "",
+      managerRating: goal.manager_assessments?.rating ?? null,
+      managerComments: goal.manager_assessments?.comments || "",
+    }))
+  );
+
+  return {
+    data: {
+      goals: goalRows,
+      summaries: summaries.map((summary) => ({
+        ...summary,
+        manager: managerName(employeeById.get(summary.employeeId)),
+      })),
+    },
+  };
+}
+
+// Leading characters that make spreadsheet applications evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a value for CSV output (RFC 4180). Texts that would start a formula (titles and comments are written
+ * by employees) are prefixed with an apostrophe, following the OWASP guidance on CSV injection.
+ */
+function toCsvValue(value: string | number | null): string {
+  if (value === null) return "";
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds a CSV document with one row per goal, or one row per employee for the summary sheet.
+ * The UTF-8 byte order mark lets spreadsheet applications detect Polish characters correctly.
+ */
+export function buildCsv(data: ProcessExportData, sheet: "goals" | "summary"): string {
+  const lines =
+    sheet === "goals"
+      ? [
+          GOAL_COLUMNS.map((column) => column.header),
+          ...data.goals.map((row) => GOAL_COLUMNS.map((column) => row[column.key])),
+        ]
+      : [
+          SUMMARY_COLUMNS.map((column) => column.header),
+          ...data.summaries.map((row) => SUMMARY_COLUMNS.map((column) => column.value(row))),
+        ];
+
+  return "\uFEFF" + lines.map((line) => line.map(toCsvValue).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Builds an XLSX workbook with a goals sheet and a per-employee summary sheet
+ */
+export async function buildXlsx(data: ProcessExportData): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+
+  const goalsSheet = workbook.addWorksheet("Cele");
+  goalsSheet.columns = GOAL_COLUMNS.map((column) => ({ header: column.header, key: column.key, width: 20 }));
+  goalsSheet.addRows(data.goals);
+
+  const summarySheet = workbook.addWorksheet("Podsumowanie");
+  summarySheet.columns = SUMMARY_COLUMNS.map((column) => ({ header: column.header, width: 20 }));
+  summarySheet.addRows(data.summaries.map((row) => SUMMARY_COLUMNS.map((column) => column.value(row))));
+
+  for (const sheet of [goalsSheet, summarySheet]) {
+    sheet.getRow(1).font = { bold: true };
+  }
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
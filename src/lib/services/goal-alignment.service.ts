@@ -0,0 +1,179 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { AlignedGoalDTO, GoalAlignmentResponse, GoalDTO } from "../../types";
+
+/**
+ * Fetches the goals of the employee's manager in the process - the goals the employee's goals can be aligned with.
+ */
+export async function getParentGoalOptions(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string
+): Promise<{ data: GoalDTO[] | null; error?: string; statusCode?: number }> {
+  const { data: employee, error: employeeError } = await supabase
+    .from("users")
+    .select("manager_id")
+    .eq("id", employeeId)
+    .single();
+
+  if (employeeError || !employee) {
+    return { data: null, error: "Pracownik o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (!employee.manager_id) {
+    return { data: [] };
+  }
+
+  const { data: goals, error } = await supabase
+    .from("goals")
+    .select(
+      `
+      id,
+      title,
+      description,
+      weight,
+      goal_categories:category_id (
+        id,
+        name
+      )
+    `
+    )
+    .eq("assessment_process_id", processId)
+    .eq("user_id", employee.manager_id)
+    .order("weight", { ascending: false });
+
+  if (error || !goals) {
+    console.error("Błąd podczas pobierania celów kierownika:", error);
+    return { data: null, error: "Wystąpił błąd podczas pobierania celów kierownika", statusCode: 500 };
+  }
+
+  return {
+    data: goals.map((goal) => ({
+      id: goal.id,
+      title: goal.title || "",
+      description: goal.description || "",
+      weight: goal.weight,
+      category: {
+        id: goal.goal_categories?.id || "",
+        name: goal.goal_categories?.name || "Bez kategorii",
+      },
+    })),
+  };
+}
+
+/**
+ * Checks that a parent goal belongs to the employee's manager in the same process.
+ */
+export async function validateParentGoal(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string,
+  parentGoalId: string
+): Promise<{ error?: string; statusCode?: number }> {
+  const { data: employee, error: employeeError } = await supabase
+    .from("users")
+    .select("manager_id")
+    .eq("id", employeeId)
+    .single();
+
+  if (employeeError || !employee) {
+    return { error: "Pracownik o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const { data: parentGoal, error: parentError } = await supabase
+    .from("goals")
+    .select("user_id, assessment_process_id")
+    .eq("id", parentGoalId)
+    .single();
+
+  if (parentError || !parentGoal) {
+    return { error: "Cel nadrzędny o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (parentGoal.user_id !== employee.manager_id || parentGoal.assessment_process_id !== processId) {
+    return { error: "Cel nadrzędny musi być celem kierownika pracownika w tym samym procesie", statusCode: 400 };
+  }
+
+  return {};
+}
+
+/**
+ * Builds the alignment tree of an employee's goals down their reporting line (manager_id hierarchy).
+ * Goals of reports that are not linked to a goal of their manager are returned separately as unaligned.
+ */
+export async function getGoalAlignment(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string
+): Promise<{ data: GoalAlignmentResponse | null; error?: string; statusCode?: number }> {
+  // 1. The employee at the top of the tree
+  const { data: root, error: rootError } = await supabase
+    .from("users")
+    .select("id, first_name, last_name")
+    .eq("id", employeeId)
+    .maybeSingle();
+
+  if (rootError) {
+    console.error("Błąd podczas pobierania pracownika:", rootError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania struktury organizacyjnej", statusCode: 500 };
+  }
+
+  if (!root) {
+    return { data: null, error: "Pracownik o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  // 2. Fetch the goals of everyone in the reporting line; the hierarchy is walked in the database
+  const { data: goals, error: goalsError } = await supabase.rpc("get_reporting_line_goals", {
+    _process_id: processId,
+    _employee_id: employeeId,
+  });
+
+  if (goalsError || !goals) {
+    console.error("Błąd podczas pobierania celów zespołu:", goalsError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania celów zespołu", statusCode: 500 };
+  }
+
+  // 3. Link every goal to its parent; goals without a valid parent become roots
+  const nodes = new Map<string, AlignedGoalDTO>();
+  for (const goal of goals) {
+    nodes.set(goal.id, {
+      id: goal.id,
+      title: goal.title || "",
+      weight: goal.weight,
+      category: {
+        id: goal.category_id || "",
+        name: goal.category_name || "Bez kategorii",
+      },
+      employee: {
+        id: goal.user_id,
+        name: `${goal.owner_first_name ?? ""} ${goal.owner_last_name ?? ""}`.trim(),
+      },
+      children: [],
+    });
+  }
+
+  const rootGoals: AlignedGoalDTO[] = [];
+  const unalignedGoals: AlignedGoalDTO[] = [];
+
+  for (const goal of goals) {
+    const node = nodes.get(goal.id);
+    if (!node) continue;
+
+    const parent = goal.parent_goal_id ? nodes.get(goal.parent_goal_id) : undefined;
+    if (goal.user_id === root.id) {
+      rootGoals.push(node);
+    } else if (parent && parent.employee.id === goal.owner_manager_id) {
+      parent.children.push(node);
+    } else {
+      unalignedGoals.push(node);
+    }
+  }
+
+  return {
+    data: {
+      employee: { id: root.id, name: `${root.first_name} ${root.last_name}` },
+      goals: rootGoals,
+      unalignedGoals,
+    },
+  };
+}
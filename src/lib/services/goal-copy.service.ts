@@ -0,0 +1,175 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { CopyGoalsCommand, CopyGoalsResponse, GoalDTO } from "../../types";
+import { REQUIRED_TOTAL_WEIGHT, getTotalGoalWeight, getWeightWarnings } from "./goal-weight.service";
+import { toGoalMetricDTO } from "../goal-metrics";
+
+// Postgres error code raised by the unique_goal_per_process_user constraint
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Clones selected goals of an employee from an earlier process into the current one with new weights.
+ * Goals whose title already exists in the current process are rejected (unique_goal_per_process_user).
+ */
+export async function copyGoalsFromProcess(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string,
+  command: CopyGoalsCommand
+): Promise<{ data: CopyGoalsResponse | null; error?: string; statusCode?: number; details?: unknown }> {
+  const { sourceProcessId } = command;
+
+  if (sourceProcessId === processId) {
+    return { data: null, error: "Nie można kopiować celów z bieżącego procesu", statusCode: 400 };
+  }
+
+  // 1. The source process has to start before the current one
+  const { data: processes, error: processesError } = await supabase
+    .from("assessment_processes")
+    .select("id, start_date")
+    .in("id", [processId, sourceProcessId]);
+
+  if (processesError || !processes) {
+    console.error("Błąd podczas pobierania procesów oceny:", processesError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania procesów oceny", statusCode: 500 };
+  }
+
+  const target = processes.find((process) => process.id === processId);
+  const source = processes.find((process) => process.id === sourceProcessId);
+
+  if (!target || !source) {
+    return { data: null, error: "Proces oceny o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (source.start_date >= target.start_date) {
+    return { data: null, error: "Cele można kopiować tylko z wcześniejszego procesu oceny", statusCode: 400 };
+  }
+
+  // 2. Fetch the selected goals of the same employee in the source process
+  const goalIds = command.goals.map((goal) => goal.goalId);
+  const { data: sourceGoals, error: sourceError } = await supabase
+    .from("goals")
+    .select("id, title, description, category_id, metric_name, metric_unit, baseline_value, target_value")
+    .eq("assessment_process_id", sourceProcessId)
+    .eq("user_id", employeeId)
+    .in("id", goalIds);
+
+  if (sourceError || !sourceGoals) {
+    console.error("Błąd podczas pobierania celów do skopiowania:", sourceError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania celów do skopiowania", statusCode: 500 };
+  }
+
+  if (sourceGoals.length !== new Set(goalIds).size) {
+    return { data: null, error: "Nie znaleziono wybranych celów w poprzednim procesie", statusCode: 404 };
+  }
+
+  // 3. Reject titles the employee already has in the current process
+  const { data: existingGoals, error: existingError } = await supabase
+    .from("goals")
+    .select("title")
+    .eq("assessment_process_id", processId)
+    .eq("user_id", employeeId)
+    .in(
+      "title",
+      sourceGoals.map((goal) => goal.title)
+    );
+
+  if (existingError || !existingGoals) {
+    console.error("Błąd podczas sprawdzania istniejących celów:", existingError);
+    return { data: null, error: "Wystąpił błąd podczas sprawdzania istniejących celów", statusCode: 500 };
+  }
+
+  if (existingGoals.length > 0) {
+    return {
+      data: null,
+      error: "Pracownik ma już w bieżącym procesie cele o tych samych tytułach",
+      statusCode: 409,
+      details: { titles: existingGoals.map((goal) => goal.title) },
+    };
+  }
+
+  // 4. Check that the total weight stays within the limit
+  const weightByGoal = new Map(command.goals.map((goal) => [goal.goalId, goal.weight]));
+  const copiedWeight = sourceGoals.reduce((sum, goal) => sum + (weightByGoal.get(goal.id) || 0), 0);
+
+  const { data: currentTotalWeight, error: weightError } = await getTotalGoalWeight(supabase, processId, employeeId);
+  if (weightError || currentTotalWeight === null) {
+    return { data: null, error: weightError || "Wystąpił błąd podczas obliczania sumy wag celów", statusCode: 500 };
+  }
+
+  if (currentTotalWeight + copiedWeight > REQUIRED_TOTAL_WEIGHT) {
+    return {
+      data: null,
+      error: `Suma wag celów nie może przekraczać ${REQUIRED_TOTAL_WEIGHT}%`,
+      statusCode: 400,
+      details: { currentTotalWeight, maxWeight: REQUIRED_TOTAL_WEIGHT - currentTotalWeight },
+    };
+  }
+
+  // 5. Clone the goals
+  const { data: copiedGoals, error: insertError } = await supabase
+    .from("goals")
+    .insert(
+      sourceGoals.map((goal) => ({
+        title: goal.title,
+        description: goal.description,
+        category_id: goal.category_id,
+        // The metric definition is copied, its actual value belongs to the earlier process
+        metric_name: goal.metric_name,
+        metric_unit: goal.metric_unit,
+        baseline_value: goal.baseline_value,
+        target_value: goal.target_value,
+        weight: weightByGoal.get(goal.id) || 0,
+        user_id: employeeId,
+        assessment_process_id: processId,
+      }))
+    )
+    .select(
+      `
+      id,
+      title,
+      description,
+      weight,
+      metric_name,
+      metric_unit,
+      baseline_value,
+      target_value,
+      actual_value,
+      goal_categories:category_id (
+        id,
+        name
+      )
+    `
+    );
+
+  if (insertError || !copiedGoals) {
+    if (insertError?.code === UNIQUE_VIOLATION) {
+      return {
+        data: null,
+        error: "Pracownik ma już w bieżącym procesie cele o tych samych tytułach",
+        statusCode: 409,
+      };
+    }
+    console.error("Błąd podczas kopiowania celów:", insertError);
+    return { data: null, error: "Wystąpił błąd podczas kopiowania celów", statusCode: 500 };
+  }
+
+  const goals: GoalDTO[] = copiedGoals.map((goal) => ({
+    id: goal.id,
+    title: goal.title || "",
+    description: goal.description || "",
+    weight: goal.weight,
+    category: {
+      id: goal.goal_categories?.id || "",
+      name: goal.goal_categories?.name || "Bez kategorii",
+    },
+    metric: toGoalMetricDTO(goal),
+  }));
+
+  return {
+    data: {
+      goals,
+      validationErrors: getWeightWarnings(currentTotalWeight + copiedWeight),
+    },
+  };
+}
@@ -0,0 +1,276 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import ExcelJS from "exceljs";
+import type { Database } from "../../db/database.types";
+import type {
+  AssessmentProcessStatus,
+  GoalImportEmployeeDTO,
+  GoalImportPreviewDTO,
+  GoalImportRowDTO,
+} from "../../types";
+import { parseCsv, type CsvRecord } from "../csv";
+import { goalSchema } from "../goal-schema";
+import { REQUIRED_TOTAL_WEIGHT } from "./goal-weight.service";
+import { getParticipantStatuses } from "./participant-status.service";
+
+export interface GoalImportEmployee {
+  id: string;
+  email: string;
+  name: string;
+  status: AssessmentProcessStatus;
+  /** Sum of the weights of goals the employee already has in the process */
+  currentWeight: number;
+  /** Titles of goals the employee already has in the process (unique_goal_per_process_user) */
+  currentTitles: string[];
+}
+
+export interface GoalImportCategory {
+  id: string;
+  name: string;
+}
+
+interface ValidatedGoalImport {
+  preview: Omit<GoalImportPreviewDTO, "applied">;
+  goals: Database["public"]["Tables"]["goals"]["Insert"][];
+}
+
+// Columns expected in the header row, in any order
+const REQUIRED_COLUMNS = ["employee_email", "title", "description", "category", "weight"] as const;
+
+/**
+ * Reads the records of a CSV file or of the first worksheet of an XLSX file; the first record is the header.
+ * XLSX records carry their row number, CSV records the line they start on.
+ */
+export async function readGoalImportFile(fileName: string, content: ArrayBuffer): Promise<CsvRecord[]> {
+  if (!fileName.toLowerCase().endsWith(".xlsx")) {
+    return parseCsv(new TextDecoder().decode(content));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(content);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const records: CsvRecord[] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    records.push({
+      line: rowNumber,
+      values: Array.from({ length: worksheet.columnCount }, (_, index) => row.getCell(index + 1).text),
+    });
+  }
+  return records;
+}
+
+/**
+ * Parses a weight written as "30" or "30%". Fractions (also with a decimal comma) are parsed as well,
+ * so that the goal schema reports them in the row instead of a generic "not a number" error.
+ */
+function parseWeight(value: string): number | null {
+  const normalized = value.trim().replace(/%$/, "").replace(",", ".").trim();
+  if (normalized === "") return null;
+  const weight = Number(normalized);
+  return Number.isFinite(weight) ? weight : null;
+}
+
+/**
+ * Validates import records against the goal schema, the team of the importing manager, the weight-sum rule
+ * and the unique goal titles per employee.
+ * Returns the preview and the goals to insert (empty when any row has errors).
+ */
+export function validateGoalImport(
+  processId: string,
+  records: CsvRecord[],
+  employees: GoalImportEmployee[],
+  categories: GoalImportCategory[]
+): ValidatedGoalImport {
+  const [header, ...dataRecords] = records;
+
+  const columns = (header?.values ?? []).map((column) => column.trim().toLowerCase());
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    return {
+      preview: { rows: [], employees: [], errors: [`Brak wymaganych kolumn: ${missingColumns.join(", ")}`] },
+      goals: [],
+    };
+  }
+
+  const cell = (record: string[], column: (typeof REQUIRED_COLUMNS)[number]) =>
+    (record[columns.indexOf(column)] || "").trim();
+
+  const employeeByEmail = new Map(employees.map((employee) => [employee.email.toLowerCase(), employee]));
+  const categoryByName = new Map(categories.map((category) => [category.name.trim().toLowerCase(), category]));
+  const importedWeight = new Map<string, number>();
+  // Titles taken per employee: current goals plus goals from earlier rows of the file
+  const takenTitles = new Map(employees.map((employee) => [employee.id, new Set(employee.currentTitles)]));
+
+  const rows: GoalImportRowDTO[] = [];
+  const goals: ValidatedGoalImport["goals"] = [];
+
+  dataRecords.forEach(({ line, values: record }) => {
+    if (record.every((value) => value.trim() === "")) return;
+
+    const employeeEmail = cell(record, "employee_email").toLowerCase();
+    const categoryName = cell(record, "category");
+    const employee = employeeByEmail.get(employeeEmail);
+    const category = categoryByName.get(categoryName.toLowerCase());
+    const weight = parseWeight(cell(record, "weight"));
+
+    const row: GoalImportRowDTO = {
+      line,
+      employeeEmail,
+      employeeName: employee?.name ?? null,
+      title: cell(record, "title"),
+      description: cell(record, "description"),
+      categoryName,
+      weight,
+      errors: [],
+    };
+    rows.push(row);
+
+    if (!employee) {
+      row.errors.push(`Pracownik ${employeeEmail || "(brak adresu)"} nie należy do Twojego zespołu`);
+    } else if (employee.status !== "in_definition") {
+      row.errors.push("Cele można dodawać tylko dla pracowników w fazie definiowania");
+    }
+    if (!category) {
+      row.errors.push(`Nieznana kategoria "${categoryName}"`);
+    }
+    if (weight === null) {
+      row.errors.push("Waga celu musi być liczbą");
+    }
+
+    const validationResult = goalSchema.safeParse({
+      title: row.title,
+      description: row.description,
+      weight: weight ?? 0,
+      categoryId: category?.id,
+    });
+    if (!validationResult.success) {
+      for (const issue of validationResult.error.issues) {
+        // Missing categories and weights are already reported above with a clearer message
+        if (issue.path[0] === "categoryId" || (issue.path[0] === "weight" && weight === null)) continue;
+        row.errors.push(issue.message);
+      }
+    }
+
+    if (employee && validationResult.success) {
+      const titles = takenTitles.get(employee.id);
+      if (titles?.has(validationResult.data.title)) {
+        row.errors.push(
+          employee.currentTitles.includes(validationResult.data.title)
+            ? "Pracownik ma już cel o tym tytule"
+            : "Cel o tym tytule występuje w pliku więcej niż raz dla tego pracownika"
+        );
+      }
+      titles?.add(validationResult.data.title);
+    }
+
+    if (!employee || !validationResult.success || row.errors.length > 0) return;
+
+    const total = employee.currentWeight + (importedWeight.get(employee.id) || 0) + validationResult.data.weight;
+    if (total > REQUIRED_TOTAL_WEIGHT) {
+      row.errors.push(`Suma wag celów pracownika przekroczyłaby ${REQUIRED_TOTAL_WEIGHT}% (${total}%)`);
+      return;
+    }
+
+    importedWeight.set(employee.id, (importedWeight.get(employee.id) || 0) + validationResult.data.weight);
+    goals.push({
+      title: validationResult.data.title,
+      description: validationResult.data.description,
+      weight: validationResult.data.weight,
+      category_id: validationResult.data.categoryId,
+      user_id: employee.id,
+      assessment_process_id: processId,
+    });
+  });
+
+  const employeeSummaries: GoalImportEmployeeDTO[] = employees
+    .filter((employee) => importedWeight.has(employee.id))
+    .map((employee) => ({
+      employeeId: employee.id,
+      employeeName: employee.name,
+      currentWeight: employee.currentWeight,
+      importedWeight: importedWeight.get(employee.id) || 0,
+    }));
+
+  const hasErrors = rows.some((row) => row.errors.length > 0);
+
+  return {
+    preview: {
+      rows,
+      employees: employeeSummaries,
+      errors: rows.length === 0 ? ["Plik nie zawiera żadnych celów"] : [],
+    },
+    goals: hasErrors ? [] : goals,
+  };
+}
+
+/**
+ * Validates goals imported by a manager for their direct reports and, unless it is a dry run
+ * or any row has errors, creates all of them at once
+ */
+export async function importGoals(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  managerId: string,
+  records: CsvRecord[],
+  dryRun: boolean
+): Promise<{ data: GoalImportPreviewDTO | null; error?: string; statusCode?: number }> {
+  const [{ data: reports, error: reportsError }, { data: categories, error: categoriesError }] = await Promise.all([
+    supabase.from("users").select("id, email, first_name, last_name").eq("manager_id", managerId),
+    supabase.from("goal_categories").select("id, name"),
+  ]);
+
+  if (reportsError || !reports || categoriesError || !categories) {
+    console.error("Błąd podczas przygotowywania importu celów:", reportsError || categoriesError);
+    return { data: null, error: "Wystąpił błąd podczas przygotowywania importu celów", statusCode: 500 };
+  }
+
+  const { data: statuses, error: statusError, statusCode } = await getParticipantStatuses(supabase, processId, reports);
+
+  if (statusError || !statuses) {
+    return { data: null, error: statusError, statusCode };
+  }
+
+  const { data: currentGoals, error: goalsError } = await supabase
+    .from("goals")
+    .select("user_id, title, weight")
+    .eq("assessment_process_id", processId)
+    .in(
+      "user_id",
+      reports.map((report) => report.id)
+    );
+
+  if (goalsError || !currentGoals) {
+    console.error("Błąd podczas pobierania celów zespołu:", goalsError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania celów zespołu", statusCode: 500 };
+  }
+
+  const statusByEmployee = new Map(statuses.map((status) => [status.employeeId, status.status]));
+  const employees: GoalImportEmployee[] = reports.map((report) => {
+    const employeeGoals = currentGoals.filter((goal) => goal.user_id === report.id);
+    return {
+      id: report.id,
+      email: report.email,
+      name: `${report.first_name} ${report.last_name}`,
+      status: statusByEmployee.get(report.id) || "in_definition",
+      currentWeight: employeeGoals.reduce((sum, goal) => sum + goal.weight, 0),
+      currentTitles: employeeGoals.map((goal) => goal.title),
+    };
+  });
+
+  const { preview, goals } = validateGoalImport(processId, records, employees, categories);
+
+  if (dryRun || goals.length === 0) {
+    return { data: { ...preview, applied: false } };
+  }
+
+  const { error: insertError } = await supabase.from("goals").insert(goals);
+
+  if (insertError) {
+    console.error("Błąd podczas importu celów:", insertError);
+    return { data: null, error: "Wystąpił błąd podczas importu celów", statusCode: 500 };
+  }
+
+  return { data: { ...preview, applied: true } };
+}
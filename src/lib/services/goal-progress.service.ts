@@ -0,0 +1,212 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  AssessmentProcessStatus,
+  CreateGoalProgressEntryCommand,
+  CreateGoalProgressReplyCommand,
+  GoalProgressEntryDTO,
+  GoalProgressReplyDTO,
+  GoalProgressUpdate,
+} from "../../types";
+import { getParticipantStatus } from "./participant-status.service";
+
+// Phases in which the goal owner and their manager can post to the progress log
+export const PROGRESS_LOG_PHASES: AssessmentProcessStatus[] = ["in_progress", "in_self_assessment"];
+
+interface GoalProgressAccess {
+  isOwner: boolean;
+  isManager: boolean;
+  // Whether the goal owner is in a phase that allows posting
+  isOpen: boolean;
+}
+
+type ProgressUpdateRow = GoalProgressUpdate & {
+  users: { first_name: string | null; last_name: string | null } | null;
+};
+
+const PROGRESS_UPDATE_COLUMNS = `
+  id,
+  goal_id,
+  author_id,
+  reply_to_id,
+  progress,
+  note,
+  entry_date,
+  created_at,
+  users:author_id (
+    first_name,
+    last_name
+  )
+`;
+
+function toAuthor(row: ProgressUpdateRow) {
+  return {
+    id: row.author_id,
+    // Authors are the goal owner and their manager, whose profiles both can read; names are optional in profiles
+    name: [row.users?.first_name, row.users?.last_name].filter(Boolean).join(" "),
+  };
+}
+
+function toReplyDTO(row: ProgressUpdateRow): GoalProgressReplyDTO {
+  return {
+    id: row.id,
+    note: row.note,
+    author: toAuthor(row),
+    createdAt: row.created_at,
+  };
+}
+
+function toEntryDTO(row: ProgressUpdateRow, replies: GoalProgressReplyDTO[] = []): GoalProgressEntryDTO {
+  return {
+    id: row.id,
+    progress: row.progress ?? 0,
+    note: row.note,
+    entryDate: row.entry_date,
+    author: toAuthor(row),
+    createdAt: row.created_at,
+    replies,
+  };
+}
+
+/**
+ * Resolves how the user relates to the goal (owner or owner's manager) and whether the progress log is open
+ */
+export async function getGoalProgressAccess(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  userId: string
+): Promise<{ data: GoalProgressAccess | null; error?: string; statusCode?: number }> {
+  const { data: goal, error: goalError } = await supabase
+    .from("goals")
+    .select("user_id, assessment_process_id")
+    .eq("id", goalId)
+    .single();
+
+  if (goalError || !goal) {
+    return { data: null, error: "Cel o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const isOwner = goal.user_id === userId;
+  let isManager = false;
+  if (!isOwner) {
+    const { data: owner } = await supabase.from("users").select("manager_id").eq("id", goal.user_id).single();
+    isManager = owner?.manager_id === userId;
+  }
+
+  const {
+    data: status,
+    error,
+    statusCode,
+  } = await getParticipantStatus(supabase, goal.assessment_process_id, goal.user_id);
+  if (error || !status) {
+    return { data: null, error, statusCode };
+  }
+
+  return { data: { isOwner, isManager, isOpen: PROGRESS_LOG_PHASES.includes(status) } };
+}
+
+/**
+ * Fetches the progress log of a goal, newest entry first, with replies in chronological order
+ */
+export async function getGoalProgress(
+  supabase: SupabaseClient<Database>,
+  goalId: string
+): Promise<{ data: GoalProgressEntryDTO[] | null; error?: string; statusCode?: number }> {
+  const { data, error } = await supabase
+    .from("goal_progress_updates")
+    .select(PROGRESS_UPDATE_COLUMNS)
+    .eq("goal_id", goalId)
+    .order("created_at", { ascending: true });
+
+  if (error || !data) {
+    console.error("Błąd podczas pobierania postępów celu:", error);
+    return { data: null, error: "Wystąpił błąd podczas pobierania postępów celu", statusCode: 500 };
+  }
+
+  const rows = data as ProgressUpdateRow[];
+  const repliesByEntry = new Map<string, GoalProgressReplyDTO[]>();
+  for (const row of rows) {
+    if (row.reply_to_id) {
+      repliesByEntry.set(row.reply_to_id, [...(repliesByEntry.get(row.reply_to_id) || []), toReplyDTO(row)]);
+    }
+  }
+
+  const entries = rows
+    .filter((row) => !row.reply_to_id)
+    .map((row) => toEntryDTO(row, repliesByEntry.get(row.id)))
+    .sort((a, b) => b.entryDate.localeCompare(a.entryDate) || b.createdAt.localeCompare(a.createdAt));
+
+  return { data: entries };
+}
+
+/**
+ * Posts a progress entry on a goal on behalf of its owner
+ */
+export async function createProgressEntry(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  authorId: string,
+  command: CreateGoalProgressEntryCommand
+): Promise<{ data: GoalProgressEntryDTO | null; error?: string; statusCode?: number }> {
+  const { data, error } = await supabase
+    .from("goal_progress_updates")
+    .insert({
+      goal_id: goalId,
+      author_id: authorId,
+      progress: command.progress,
+      note: command.note,
+      ...(command.entryDate && { entry_date: command.entryDate }),
+    })
+    .select(PROGRESS_UPDATE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Błąd podczas zapisywania postępu celu:", error);
+    return { data: null, error: "Wystąpił błąd podczas zapisywania postępu celu", statusCode: 500 };
+  }
+
+  return { data: toEntryDTO(data as ProgressUpdateRow) };
+}
+
+/**
+ * Posts the manager's reply to a progress entry of the goal
+ */
+export async function createProgressReply(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  entryId: string,
+  authorId: string,
+  command: CreateGoalProgressReplyCommand
+): Promise<{ data: GoalProgressReplyDTO | null; error?: string; statusCode?: number }> {
+  const { data: entry, error: entryError } = await supabase
+    .from("goal_progress_updates")
+    .select("goal_id, reply_to_id")
+    .eq("id", entryId)
+    .single();
+
+  if (entryError || !entry || entry.goal_id !== goalId) {
+    return { data: null, error: "Wpis postępu o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (entry.reply_to_id) {
+    return { data: null, error: "Można odpowiadać tylko na wpisy postępu, nie na odpowiedzi", statusCode: 400 };
+  }
+
+  const { data, error } = await supabase
+    .from("goal_progress_updates")
+    .insert({
+      goal_id: goalId,
+      author_id: authorId,
+      reply_to_id: entryId,
+      note: command.note,
+    })
+    .select(PROGRESS_UPDATE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Błąd podczas zapisywania odpowiedzi na postęp celu:", error);
+    return { data: null, error: "Wystąpił błąd podczas zapisywania odpowiedzi", statusCode: 500 };
+  }
+
+  return { data: toReplyDTO(data as ProgressUpdateRow) };
+}
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+
+// Goals of every participant must add up to exactly this weight (in percent)
+export const REQUIRED_TOTAL_WEIGHT = 100;
+
+// Postgres error code raised by check_goal_weight_total when concurrent writes would exceed the limit;
+// the other goal checks (weight range, parent goal) are validated before writing
+export const WEIGHT_LIMIT_VIOLATION = "23514";
+
+export interface InvalidWeightParticipant {
+  employeeId: string;
+  employeeName: string;
+  totalWeight: number;
+}
+
+interface WeightParticipant {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+/**
+ * Sums the weights of an employee's goals in a process, optionally skipping one goal (e.g. the one being edited)
+ */
+export async function getTotalGoalWeight(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string,
+  excludedGoalId?: string
+): Promise<{ data: number | null; error?: string }> {
+  let query = supabase.from("goals").select("weight").eq("assessment_process_id", processId).eq("user_id", employeeId);
+
+  if (excludedGoalId) {
+    query = query.neq("id", excludedGoalId);
+  }
+
+  const { data, error } = await query;
+
+  if (error || !data) {
+    console.error("Błąd podczas obliczania sumy wag celów:", error);
+    return { data: null, error: "Wystąpił błąd podczas obliczania sumy wag celów" };
+  }
+
+  return { data: data.reduce((sum, goal) => sum + goal.weight, 0) };
+}
+
+/**
+ * Returns warnings for an employee's goal set that does not add up to the required weight yet
+ */
+export function getWeightWarnings(totalWeight: number): string[] {
+  if (totalWeight < REQUIRED_TOTAL_WEIGHT) {
+    return [
+      `Suma wag celów wynosi ${totalWeight}% - do ${REQUIRED_TOTAL_WEIGHT}% brakuje ${REQUIRED_TOTAL_WEIGHT - totalWeight}%`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Finds participants whose goals in the process do not add up to exactly the required weight
+ */
+export async function findParticipantsWithInvalidWeights(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  participants: WeightParticipant[]
+): Promise<{ data: InvalidWeightParticipant[] | null; error?: string }> {
+  if (participants.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: goals, error } = await supabase
+    .from("goals")
+    .select("user_id, weight")
+    .eq("assessment_process_id", processId)
+    .in(
+      "user_id",
+      participants.map((participant) => participant.id)
+    );
+
+  if (error || !goals) {
+    console.error("Błąd podczas sprawdzania wag celów:", error);
+    return { data: null, error: "Wystąpił błąd podczas sprawdzania wag celów" };
+  }
+
+  const totals = new Map<string, number>();
+  for (const goal of goals) {
+    totals.set(goal.user_id, (totals.get(goal.user_id) || 0) + goal.weight);
+  }
+
+  return {
+    data: participants
+      .map((participant) => ({
+        employeeId: participant.id,
+        employeeName: `${participant.first_name} ${participant.last_name}`,
+        totalWeight: totals.get(participant.id) || 0,
+      }))
+      .filter((participant) => participant.totalWeight !== REQUIRED_TOTAL_WEIGHT),
+  };
+}
@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  AssessmentProcessStatus,
+  HrReportDTO,
+  HrReportEmployeeDTO,
+  HrReportManagerDTO,
+  HrReportPhaseDTO,
+  HrReportTeamDTO,
+} from "../../types";
+import { getTeamScoreSummaries } from "./scoring.service";
+
+// Workflow phases in the order employees go through them
+const PHASE_ORDER: AssessmentProcessStatus[] = [
+  "in_definition",
+  "in_progress",
+  "in_self_assessment",
+  "awaiting_manager_assessment",
+  "completed",
+];
+
+interface ReportUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+  manager_id: string | null;
+}
+
+/**
+ * Counts employees in each phase and the share of employees who already passed it
+ */
+function calculatePhases(employees: HrReportEmployeeDTO[]): HrReportPhaseDTO[] {
+  return PHASE_ORDER.map((status, index) => {
+    const isFinal = index === PHASE_ORDER.length - 1;
+    const completedCount = employees.filter((employee) => {
+      const employeeIndex = PHASE_ORDER.indexOf(employee.status);
+      return isFinal ? employeeIndex === index : employeeIndex > index;
+    }).length;
+
+    return {
+      status,
+      currentCount: employees.filter((employee) => employee.status === status).length,
+      completedCount,
+      completionRate: employees.length > 0 ? Math.round((completedCount / employees.length) * 100) : 0,
+    };
+  });
+}
+
+/**
+ * Groups employees into teams following the manager hierarchy.
+ * Managers without a manager of their own (or whose manager is unknown) become top-level teams.
+ */
+function buildTeams(users: ReportUser[], employees: HrReportEmployeeDTO[]): HrReportTeamDTO[] {
+  const userIds = new Set(users.map((user) => user.id));
+  const managerIds = new Set(employees.map((employee) => employee.managerId).filter((id): id is string => !!id));
+
+  const buildTeam = (manager: ReportUser, visited: Set<string>): HrReportTeamDTO => {
+    visited.add(manager.id);
+    const members = employees.filter((employee) => employee.managerId === manager.id);
+
+    return {
+      managerId: manager.id,
+      managerName: `${manager.first_name} ${manager.last_name}`,
+      members,
+      subteams: users
+        .filter((user) => user.manager_id === manager.id && managerIds.has(user.id) && !visited.has(user.id))
+        .map((user) => buildTeam(user, visited)),
+    };
+  };
+
+  const visited = new Set<string>();
+  return users
+    .filter((user) => managerIds.has(user.id) && (!user.manager_id || !userIds.has(user.manager_id)))
+    .map((user) => buildTeam(user, visited));
+}
+
+/**
+ * Builds the company-wide progress report of an assessment process (administrators only)
+ */
+export async function getHrReport(
+  supabase: SupabaseClient<Database>,
+  processId: string
+): Promise<{ data: HrReportDTO | null; error?: string; statusCode?: number }> {
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id, first_name, last_name, manager_id")
+    .order("last_name", { ascending: true });
+
+  if (usersError || !users) {
+    console.error("Błąd podczas pobierania pracowników do raportu:", usersError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania pracowników", statusCode: 500 };
+  }
+
+  const { data: summaries, error, statusCode } = await getTeamScoreSummaries(supabase, processId, users);
+
+  if (error || !summaries) {
+    return { data: null, error, statusCode };
+  }
+
+  const managerById = new Map(users.map((user) => [user.id, user.manager_id]));
+  const employees: HrReportEmployeeDTO[] = summaries.map((summary) => ({
+    employeeId: summary.employeeId,
+    employeeName: summary.employeeName,
+    managerId: managerById.get(summary.employeeId) ?? null,
+    status: summary.status,
+    totalGoals: summary.totalGoals,
+    selfAssessmentComplete: summary.selfAssessment.isComplete,
+    managerAssessmentComplete: summary.managerAssessment.isComplete,
+  }));
+
+  // Self-assessment is expected from everyone who has already entered that phase
+  const incompleteSelfAssessments = employees.filter(
+    (employee) =>
+      PHASE_ORDER.indexOf(employee.status) >= PHASE_ORDER.indexOf("in_self_assessment") &&
+      employee.totalGoals > 0 &&
+      !employee.selfAssessmentComplete
+  );
+
+  const pendingByManager = new Map<string, number>();
+  for (const employee of employees) {
+    const awaitsManager = employee.status === "awaiting_manager_assessment" || employee.status === "completed";
+    if (employee.managerId && awaitsManager && employee.totalGoals > 0 && !employee.managerAssessmentComplete) {
+      pendingByManager.set(employee.managerId, (pendingByManager.get(employee.managerId) || 0) + 1);
+    }
+  }
+
+  const managersWithPendingAssessments: HrReportManagerDTO[] = users
+    .filter((user) => pendingByManager.has(user.id))
+    .map((user) => ({
+      managerId: user.id,
+      managerName: `${user.first_name} ${user.last_name}`,
+      pendingEmployees: pendingByManager.get(user.id) as number,
+    }));
+
+  return {
+    data: {
+      processId,
+      totalEmployees: employees.length,
+      phases: calculatePhases(employees),
+      employeesWithoutGoals: employees.filter((employee) => employee.totalGoals === 0),
+      incompleteSelfAssessments,
+      managersWithPendingAssessments,
+      teams: buildTeams(users, employees),
+    },
+  };
+}
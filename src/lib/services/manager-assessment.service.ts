@@ -1,9 +1,12 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../../db/database.types";
 import type { AssessmentDTO, AssessmentResponse, CreateAssessmentCommand } from "../../types";
+import { getParticipantStatus } from "./participant-status.service";
+import { getGoalRatingScale } from "./rating-scale.service";
+import { validateRating } from "../rating-scale";
 
 /**
- * Validates if the assessment process is in the 'awaiting_manager_assessment' status
+ * Validates if the goal owner is in the 'awaiting_manager_assessment' phase of the assessment process
  * and if the logged-in user is the manager of the employee who owns the goal
  */
 export async function validateProcessStatus(
@@ -18,9 +21,6 @@ export async function validateProcessStatus(
       id,
       assessment_process_id,
       user_id,
-      assessment_processes:assessment_process_id (
-        status
-      ),
       users:user_id (
         manager_id
       )
@@ -37,11 +37,11 @@ export async function validateProcessStatus(
     };
   }
 
-  const status = data.assessment_processes?.status;
+  const { data: status } = await getParticipantStatus(supabase, data.assessment_process_id, data.user_id);
   if (status !== "awaiting_manager_assessment") {
     return {
       valid: false,
-      error: "Ocena menedżerska jest dostępna tylko dla procesów w fazie oceny przez menedżera",
+      error: "Ocena menedżerska jest dostępna tylko dla pracowników w fazie oceny przez menedżera",
       statusCode: 403,
     };
   }
@@ -104,16 +104,22 @@ export async function createOrUpdateManagerAssessment(
   managerId: string,
   assessmentData: CreateAssessmentCommand
 ): Promise<{ data: AssessmentResponse | null; error?: string; statusCode?: number }> {
-  // Validate the assessment rating
-  if (assessmentData.rating < 0 || assessmentData.rating > 150) {
-    return {
-      data: null,
-      error: "Wartość oceny musi być w zakresie 0-150%",
-      statusCode: 400,
-    };
+  // Validate the rating against the scale of the goal's process
+  const {
+    data: ratingScale,
+    error: scaleError,
+    statusCode: scaleStatusCode,
+  } = await getGoalRatingScale(supabase, goalId);
+  if (scaleError || !ratingScale) {
+    return { data: null, error: scaleError, statusCode: scaleStatusCode || 500 };
+  }
+
+  const ratingError = validateRating(ratingScale, assessmentData.rating);
+  if (ratingError) {
+    return { data: null, error: ratingError, statusCode: 400 };
   }
 
-  // First check if manager assessment already exists
+  // Then check if manager assessment already exists
   const { data: existingAssessment, error: checkError } = await supabase
     .from("manager_assessments")
     .select("id")
@@ -0,0 +1,245 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { AssessmentProcessStatus, ParticipantStatusDTO } from "../../types";
+import { recordStatusChange } from "./process-status-history.service";
+import { findParticipantsWithInvalidWeights, REQUIRED_TOTAL_WEIGHT } from "./goal-weight.service";
+
+// Allowed transitions (forward and one step backward) for both processes and participants
+export const ALLOWED_STATUS_TRANSITIONS: Record<AssessmentProcessStatus, AssessmentProcessStatus[]> = {
+  in_definition: ["in_progress", "in_self_assessment"],
+  in_progress: ["in_definition", "in_self_assessment"],
+  in_self_assessment: ["in_progress", "in_definition", "awaiting_manager_assessment"],
+  awaiting_manager_assessment: ["in_self_assessment", "completed"],
+  completed: ["awaiting_manager_assessment"],
+};
+
+interface ParticipantEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface UpdateParticipantsStatusParams {
+  processId: string;
+  employees: ParticipantEmployee[];
+  status: AssessmentProcessStatus;
+  changedBy: string;
+  reason?: string;
+}
+
+/**
+ * Resolves the workflow status of an employee within a process;
+ * participants without their own entry follow the process-level status
+ */
+export async function getParticipantStatus(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string
+): Promise<{ data: AssessmentProcessStatus | null; error?: string; statusCode?: number }> {
+  const { data: process, error: processError } = await supabase
+    .from("assessment_processes")
+    .select("status")
+    .eq("id", processId)
+    .single();
+
+  if (processError || !process) {
+    return { data: null, error: "Proces oceny o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const { data: participant, error: participantError } = await supabase
+    .from("process_participants")
+    .select("status")
+    .eq("assessment_process_id", processId)
+    .eq("user_id", employeeId)
+    .maybeSingle();
+
+  if (participantError) {
+    console.error("Błąd podczas pobierania statusu uczestnika:", participantError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania statusu uczestnika", statusCode: 500 };
+  }
+
+  return { data: participant?.status ?? process.status };
+}
+
+/**
+ * Returns the workflow status of the given employees within a process
+ */
+export async function getParticipantStatuses(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employees: ParticipantEmployee[]
+): Promise<{ data: ParticipantStatusDTO[] | null; error?: string; statusCode?: number }> {
+  const { data: process, error: processError } = await supabase
+    .from("assessment_processes")
+    .select("status")
+    .eq("id", processId)
+    .single();
+
+  if (processError || !process) {
+    return { data: null, error: "Proces oceny o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (employees.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: participants, error: participantsError } = await supabase
+    .from("process_participants")
+    .select("user_id, status")
+    .eq("assessment_process_id", processId);
+
+  if (participantsError || !participants) {
+    console.error("Błąd podczas pobierania statusów uczestników:", participantsError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania statusów uczestników", statusCode: 500 };
+  }
+
+  const statusByEmployee = new Map(participants.map((participant) => [participant.user_id, participant.status]));
+
+  return {
+    data: employees.map((employee) => {
+      const ownStatus = statusByEmployee.get(employee.id);
+      return {
+        employeeId: employee.id,
+        employeeName: `${employee.first_name} ${employee.last_name}`,
+        status: ownStatus ?? process.status,
+        inheritsProcessStatus: ownStatus === undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Returns participants who have no individual status in the process and therefore follow the process-level status.
+ * Participants are employees with a manager or with goals in the process; other users (e.g. administrators
+ * or directors outside the process) are left out, so that they do not fail the goal weight rule.
+ */
+export async function getInheritingParticipants(
+  supabase: SupabaseClient<Database>,
+  processId: string
+): Promise<{ data: ParticipantEmployee[] | null; error?: string }> {
+  const [
+    { data: employees, error: employeesError },
+    { data: participants, error: participantsError },
+    { data: goals, error: goalsError },
+  ] = await Promise.all([
+    supabase.from("users").select("id, first_name, last_name, manager_id"),
+    supabase.from("process_participants").select("user_id").eq("assessment_process_id", processId),
+    supabase.from("goals").select("user_id").eq("assessment_process_id", processId),
+  ]);
+
+  if (employeesError || participantsError || goalsError || !employees || !participants || !goals) {
+    console.error("Błąd podczas pobierania uczestników procesu:", employeesError || participantsError || goalsError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania uczestników procesu" };
+  }
+
+  const movedIndividually = new Set(participants.map((participant) => participant.user_id));
+  const withGoals = new Set(goals.map((goal) => goal.user_id));
+
+  return {
+    data: employees
+      .filter((employee) => employee.manager_id !== null || withGoals.has(employee.id))
+      .filter((employee) => !movedIndividually.has(employee.id))
+      .map(({ id, first_name, last_name }) => ({ id, first_name, last_name })),
+  };
+}
+
+/**
+ * Moves the given employees to a new status within a process and records the transitions.
+ * The update is rejected as a whole when the transition is not allowed for any of the employees.
+ */
+export async function updateParticipantsStatus(
+  supabase: SupabaseClient<Database>,
+  params: UpdateParticipantsStatusParams
+): Promise<{ data: ParticipantStatusDTO[] | null; error?: string; statusCode?: number; details?: unknown }> {
+  const {
+    data: current,
+    error,
+    statusCode,
+  } = await getParticipantStatuses(supabase, params.processId, params.employees);
+
+  if (error || !current) {
+    return { data: null, error, statusCode };
+  }
+
+  const invalidParticipants = current.filter(
+    (participant) => !ALLOWED_STATUS_TRANSITIONS[participant.status].includes(params.status)
+  );
+
+  if (invalidParticipants.length > 0) {
+    return {
+      data: null,
+      error: `Niedozwolone przejście do statusu '${params.status}' dla części pracowników`,
+      statusCode: 400,
+      details: {
+        participants: invalidParticipants.map(({ employeeId, employeeName, status }) => ({
+          employeeId,
+          employeeName,
+          status,
+        })),
+      },
+    };
+  }
+
+  // Goals are locked once definition ends, so their weights must be complete
+  if (params.status !== "in_definition") {
+    const definingEmployees = params.employees.filter((employee) =>
+      current.some((participant) => participant.employeeId === employee.id && participant.status === "in_definition")
+    );
+    const { data: invalidWeights, error: weightError } = await findParticipantsWithInvalidWeights(
+      supabase,
+      params.processId,
+      definingEmployees
+    );
+
+    if (weightError || !invalidWeights) {
+      return { data: null, error: weightError, statusCode: 500 };
+    }
+
+    if (invalidWeights.length > 0) {
+      return {
+        data: null,
+        error: `Suma wag celów musi wynosić ${REQUIRED_TOTAL_WEIGHT}% dla każdego pracownika przed zakończeniem definiowania celów`,
+        statusCode: 400,
+        details: { participants: invalidWeights },
+      };
+    }
+  }
+
+  const now = new Date().toISOString();
+  const { error: upsertError } = await supabase.from("process_participants").upsert(
+    current.map((participant) => ({
+      assessment_process_id: params.processId,
+      user_id: participant.employeeId,
+      status: params.status,
+      updated_at: now,
+    })),
+    { onConflict: "assessment_process_id,user_id" }
+  );
+
+  if (upsertError) {
+    console.error("Błąd podczas aktualizacji statusu uczestników:", upsertError);
+    return { data: null, error: "Wystąpił błąd podczas aktualizacji statusu uczestników", statusCode: 500 };
+  }
+
+  // Status is already changed, so a failed history write is only logged
+  await recordStatusChange(
+    supabase,
+    current.map((participant) => ({
+      processId: params.processId,
+      employeeId: participant.employeeId,
+      fromStatus: participant.status,
+      toStatus: params.status,
+      changedBy: params.changedBy,
+      reason: params.reason,
+      changedAt: now,
+    }))
+  );
+
+  return {
+    data: current.map((participant) => ({
+      ...participant,
+      status: params.status,
+      inheritsProcessStatus: false,
+    })),
+  };
+}
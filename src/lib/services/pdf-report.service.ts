@@ -0,0 +1,233 @@
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import pdfMake from "pdfmake";
+import type { Content, TDocumentDefinitions } from "pdfmake/interfaces";
+import type { Database } from "../../db/database.types";
+import type { EmployeeScoreSummaryDTO, RatingScale } from "../../types";
+import { formatRating, getRatingScaleBounds, parseRatingScale } from "../rating-scale";
+import { getEmployeeScoreSummary } from "./scoring.service";
+
+// Roboto shipped with pdfmake covers Polish characters, unlike the standard PDF fonts
+const require = createRequire(import.meta.url);
+const FONT_DIR = path.dirname(require.resolve("pdfmake/fonts/Roboto/Roboto-Regular.ttf"));
+
+pdfMake.setFonts({
+  Roboto: {
+    normal: path.join(FONT_DIR, "Roboto-Regular.ttf"),
+    bold: path.join(FONT_DIR, "Roboto-Medium.ttf"),
+    italics: path.join(FONT_DIR, "Roboto-Italic.ttf"),
+    bolditalics: path.join(FONT_DIR, "Roboto-MediumItalic.ttf"),
+  },
+});
+// Reports are generated from local data only - no remote resources, no files outside the font directory
+pdfMake.setUrlAccessPolicy(() => false);
+pdfMake.setLocalAccessPolicy((filePath) => filePath.startsWith(FONT_DIR));
+
+export interface EmployeeReportGoal {
+  title: string;
+  description: string;
+  category: string;
+  weight: number;
+  selfRating: number | null;
+  selfComments: string | null;
+  managerRating: number | null;
+  managerComments: string | null;
+}
+
+export interface EmployeeReportData {
+  processTitle: string;
+  startDate: string;
+  endDate: string;
+  employeeName: string;
+  managerName: string | null;
+  ratingScale: RatingScale;
+  goals: EmployeeReportGoal[];
+  summary: EmployeeScoreSummaryDTO;
+}
+
+/**
+ * Collects everything printed on the employee's assessment report
+ */
+export async function getEmployeeReportData(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string
+): Promise<{ data: EmployeeReportData | null; error?: string; statusCode?: number }> {
+  const [{ data: process, error: processError }, { data: employee, error: employeeError }] = await Promise.all([
+    supabase
+      .from("assessment_processes")
+      .select("title, start_date, end_date, rating_scale")
+      .eq("id", processId)
+      .single(),
+    supabase.from("users").select("first_name, last_name, manager_id").eq("id", employeeId).single(),
+  ]);
+
+  if (processError || !process) {
+    return { data: null, error: "Proces oceny o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+  if (employeeError || !employee) {
+    return { data: null, error: "Pracownik o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const { data: manager } = employee.manager_id
+    ? await supabase.from("users").select("first_name, last_name").eq("id", employee.manager_id).single()
+    : { data: null };
+
+  const { data: goals, error: goalsError } = await supabase
+    .from("goals")
+    .select(
+      `
+      title,
+      description,
+      weight,
+      goal_categories:category_id ( name ),
+      self_assessments ( rating, comments ),
+      manager_assessments ( rating, comments )
+    `
+    )
+    .eq("assessment_process_id", processId)
+    .eq("user_id", employeeId)
+    .order("weight", { ascending: false });
+
+  if (goalsError || !goals) {
+    console.error("Błąd podczas pobierania celów do raportu:", goalsError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania celów", statusCode: 500 };
+  }
+
+  const {
+    data: summary,
+    error: summaryError,
+    statusCode,
+  } = await getEmployeeScoreSummary(supabase, processId, employeeId);
+
+  if (summaryError || !summary) {
+    return { data: null, error: summaryError, statusCode };
+  }
+
+  return {
+    data: {
+      processTitle: process.title,
+      startDate: process.start_date,
+      endDate: process.end_date,
+      employeeName: `${employee.first_name} ${employee.last_name}`,
+      managerName: manager ? `${manager.first_name} ${manager.last_name}` : null,
+      ratingScale: parseRatingScale(process.rating_scale),
+      goals: goals.map((goal) => ({
+        title: goal.title,
+        description: goal.description || "",
+        category: goal.goal_categories?.name || "Bez kategorii",
+        weight: goal.weight,
+        selfRating: goal.self_assessments?.rating ?? null,
+        selfComments: goal.self_assessments?.comments ?? null,
+        managerRating: goal.manager_assessments?.rating ?? null,
+        managerComments: goal.manager_assessments?.comments ?? null,
+      })),
+      summary,
+    },
+  };
+}
+
+/**
+ * Renders the employee's assessment report as a printable PDF with signature fields
+ */
+export async function buildEmployeeReportPdf(data: EmployeeReportData): Promise<Buffer> {
+  const rating = (value: number | null) => (value === null ? "—" : formatRating(data.ratingScale, value));
+  const { max } = getRatingScaleBounds(data.ratingScale);
+  const score = (value: number | null) => (value === null ? "—" : `${value}/${max}`);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString("pl-PL");
+
+  const goalRows: Content[][] = data.goals.flatMap((goal) => [
+    [
+      {
+        text: [
+          { text: `${goal.title}\n`, bold: true },
+          { text: goal.description, fontSize: 8 },
+        ],
+      },
+      goal.category,
+      `${goal.weight}%`,
+      rating(goal.selfRating),
+      rating(goal.managerRating),
+    ],
+    [
+      {
+        colSpan: 5,
+        fontSize: 8,
+        color: "#555555",
+        text: [
+          { text: "Komentarz pracownika: ", bold: true },
+          `${goal.selfComments || "—"}\n`,
+          { text: "Komentarz kierownika: ", bold: true },
+          goal.managerComments || "—",
+        ],
+      },
+      "",
+      "",
+      "",
+      "",
+    ],
+  ]);
+
+  const document: TDocumentDefinitions = {
+    info: { title: `Raport z oceny - ${data.employeeName}` },
+    pageSize: "A4",
+    defaultStyle: { font: "Roboto", fontSize: 10 },
+    content: [
+      { text: "Raport z oceny pracownika", fontSize: 16, bold: true, margin: [0, 0, 0, 8] },
+      {
+        columns: [
+          [
+            { text: [{ text: "Pracownik: ", bold: true }, data.employeeName] },
+            { text: [{ text: "Kierownik: ", bold: true }, data.managerName || "—"] },
+          ],
+          [
+            { text: [{ text: "Proces: ", bold: true }, data.processTitle] },
+            { text: [{ text: "Okres: ", bold: true }, `${formatDate(data.startDate)} - ${formatDate(data.endDate)}`] },
+          ],
+        ],
+        margin: [0, 0, 0, 12],
+      },
+      {
+        table: {
+          headerRows: 1,
+          widths: ["*", 70, 40, 65, 65],
+          body: [
+            ["Cel", "Kategoria", "Waga", "Samoocena", "Ocena kierownika"].map((header) => ({
+              text: header,
+              bold: true,
+            })),
+            ...goalRows,
+          ],
+        },
+        layout: "lightHorizontalLines",
+      },
+      {
+        margin: [0, 12, 0, 0],
+        table: {
+          widths: ["*", 100],
+          body: [
+            [{ text: "Wynik ważony samooceny", bold: true }, score(data.summary.selfAssessment.score)],
+            [{ text: "Wynik ważony oceny kierownika", bold: true }, score(data.summary.managerAssessment.score)],
+          ],
+        },
+        layout: "noBorders",
+      },
+      {
+        margin: [0, 60, 0, 0],
+        columns: [
+          { text: "..................................................\nPodpis pracownika", alignment: "center" },
+          { text: "..................................................\nPodpis kierownika", alignment: "center" },
+        ],
+      },
+    ],
+    footer: (currentPage, pageCount) => ({
+      text: `Wygenerowano ${new Date().toLocaleDateString("pl-PL")} - strona ${currentPage} z ${pageCount}`,
+      alignment: "center",
+      fontSize: 8,
+      color: "#777777",
+    }),
+  };
+
+  return pdfMake.createPdf(document).getBuffer();
+}
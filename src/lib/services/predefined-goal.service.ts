@@ -0,0 +1,205 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type {
+  CreatePredefinedGoalCommand,
+  PredefinedGoalDTO,
+  PredefinedGoalListResponse,
+  UpdatePredefinedGoalCommand,
+} from "../../types";
+import { isAdmin } from "../auth-utils";
+
+type PredefinedGoalServiceResult<T> = Promise<{
+  data: T | null;
+  error?: string;
+  statusCode?: number;
+}>;
+
+const PREDEFINED_GOAL_COLUMNS = `
+  id,
+  title,
+  description,
+  category_id,
+  goal_categories:category_id (
+    name
+  )
+`;
+
+interface PredefinedGoalRow {
+  id: string;
+  title: string;
+  description: string;
+  category_id: string;
+  goal_categories: { name: string } | null;
+}
+
+function mapPredefinedGoalToDTO(goal: PredefinedGoalRow): PredefinedGoalDTO {
+  return {
+    id: goal.id,
+    title: goal.title,
+    description: goal.description,
+    categoryId: goal.category_id,
+    categoryName: goal.goal_categories?.name || "Bez kategorii",
+  };
+}
+
+/**
+ * Verifies that the goal category exists
+ */
+async function categoryExists(supabase: SupabaseClient<Database>, categoryId: string): Promise<boolean> {
+  const { data } = await supabase.from("goal_categories").select("id").eq("id", categoryId).maybeSingle();
+  return !!data;
+}
+
+/**
+ * Checks that the predefined goal exists and the user may modify it (author or administrator)
+ */
+async function checkPredefinedGoalOwnership(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  userId: string
+): Promise<{ error?: string; statusCode?: number }> {
+  const { data: goal, error } = await supabase
+    .from("predefined_goals")
+    .select("id, created_by")
+    .eq("id", goalId)
+    .single();
+
+  if (error || !goal) {
+    if (error && error.code !== "PGRST116") {
+      console.error("Błąd podczas pobierania celu z biblioteki:", error);
+      return { error: "Wystąpił błąd podczas pobierania celu z biblioteki", statusCode: 500 };
+    }
+    return { error: "Cel z biblioteki o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (goal.created_by !== userId && !(await isAdmin(supabase, userId))) {
+    return { error: "Brak uprawnień do modyfikacji tego celu z biblioteki", statusCode: 403 };
+  }
+
+  return {};
+}
+
+/**
+ * Returns a page of predefined goals, optionally filtered by category
+ */
+export async function listPredefinedGoals(
+  supabase: SupabaseClient<Database>,
+  params: { category?: string; page: number; limit: number }
+): PredefinedGoalServiceResult<PredefinedGoalListResponse> {
+  const offset = (params.page - 1) * params.limit;
+
+  let query = supabase.from("predefined_goals").select(PREDEFINED_GOAL_COLUMNS, { count: "exact" });
+
+  if (params.category) {
+    query = query.eq("category_id", params.category);
+  }
+
+  const { data, count, error } = await query
+    .order("title", { ascending: true })
+    .range(offset, offset + params.limit - 1);
+
+  if (error || !data) {
+    console.error("Błąd podczas pobierania biblioteki celów:", error);
+    return { data: null, error: "Wystąpił błąd podczas pobierania biblioteki celów", statusCode: 500 };
+  }
+
+  return {
+    data: {
+      goals: data.map(mapPredefinedGoalToDTO),
+      total: count || 0,
+      page: params.page,
+      limit: params.limit,
+    },
+  };
+}
+
+/**
+ * Adds a goal to the predefined goal library
+ */
+export async function createPredefinedGoal(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  command: CreatePredefinedGoalCommand
+): PredefinedGoalServiceResult<PredefinedGoalDTO> {
+  if (!(await categoryExists(supabase, command.categoryId))) {
+    return { data: null, error: "Kategoria celu o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const { data, error } = await supabase
+    .from("predefined_goals")
+    .insert({
+      title: command.title,
+      description: command.description,
+      category_id: command.categoryId,
+      created_by: userId,
+    })
+    .select(PREDEFINED_GOAL_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Błąd podczas dodawania celu do biblioteki:", error);
+    return { data: null, error: "Wystąpił błąd podczas dodawania celu do biblioteki", statusCode: 500 };
+  }
+
+  return { data: mapPredefinedGoalToDTO(data) };
+}
+
+/**
+ * Updates a predefined goal (author or administrator only)
+ */
+export async function updatePredefinedGoal(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  userId: string,
+  command: UpdatePredefinedGoalCommand
+): PredefinedGoalServiceResult<PredefinedGoalDTO> {
+  const ownership = await checkPredefinedGoalOwnership(supabase, goalId, userId);
+  if (ownership.error) {
+    return { data: null, ...ownership };
+  }
+
+  if (!(await categoryExists(supabase, command.categoryId))) {
+    return { data: null, error: "Kategoria celu o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  const { data, error } = await supabase
+    .from("predefined_goals")
+    .update({
+      title: command.title,
+      description: command.description,
+      category_id: command.categoryId,
+    })
+    .eq("id", goalId)
+    .select(PREDEFINED_GOAL_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error("Błąd podczas aktualizacji celu z biblioteki:", error);
+    return { data: null, error: "Wystąpił błąd podczas aktualizacji celu z biblioteki", statusCode: 500 };
+  }
+
+  return { data: mapPredefinedGoalToDTO(data) };
+}
+
+/**
+ * Removes a predefined goal from the library (author or administrator only)
+ */
+export async function deletePredefinedGoal(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  userId: string
+): PredefinedGoalServiceResult<{ id: string }> {
+  const ownership = await checkPredefinedGoalOwnership(supabase, goalId, userId);
+  if (ownership.error) {
+    return { data: null, ...ownership };
+  }
+
+  const { error } = await supabase.from("predefined_goals").delete().eq("id", goalId);
+
+  if (error) {
+    console.error("Błąd podczas usuwania celu z biblioteki:", error);
+    return { data: null, error: "Wystąpił błąd podczas usuwania celu z biblioteki", statusCode: 500 };
+  }
+
+  return { data: { id: goalId } };
+}
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { AssessmentProcessStatus, StatusHistoryEntry } from "../../types";
+
+interface RecordStatusChangeParams {
+  processId: string;
+  // Employee whose workflow was moved; omitted for process-level transitions
+  employeeId?: string | null;
+  fromStatus: AssessmentProcessStatus | null;
+  toStatus: AssessmentProcessStatus;
+  changedBy: string;
+  reason?: string | null;
+  changedAt?: string;
+}
+
+/**
+ * Appends one or more status transitions to the process status history
+ */
+export async function recordStatusChange(
+  supabase: SupabaseClient<Database>,
+  params: RecordStatusChangeParams | RecordStatusChangeParams[]
+): Promise<{ error?: string }> {
+  const entries = Array.isArray(params) ? params : [params];
+
+  const { error } = await supabase.from("process_status_history").insert(
+    entries.map((entry) => ({
+      assessment_process_id: entry.processId,
+      employee_id: entry.employeeId ?? null,
+      from_status: entry.fromStatus,
+      to_status: entry.toStatus,
+      changed_by: entry.changedBy,
+      reason: entry.reason || null,
+      ...(entry.changedAt ? { changed_at: entry.changedAt } : {}),
+    }))
+  );
+
+  if (error) {
+    console.error("Błąd podczas zapisywania historii statusu:", error);
+    return { error: "Wystąpił błąd podczas zapisywania historii statusu" };
+  }
+
+  return {};
+}
+
+/**
+ * Returns the status history of an assessment process, oldest transition first.
+ * When an employee is given, only process-level transitions and that employee's ones are returned.
+ */
+export async function getStatusHistory(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId?: string
+): Promise<{ data: StatusHistoryEntry[] | null; error?: string; statusCode?: number }> {
+  const { data: process, error: processError } = await supabase
+    .from("assessment_processes")
+    .select("id")
+    .eq("id", processId)
+    .single();
+
+  if (processError || !process) {
+    if (processError && processError.code !== "PGRST116") {
+      console.error("Błąd podczas pobierania procesu oceny:", processError);
+      return { data: null, error: "Wystąpił błąd podczas pobierania procesu oceny", statusCode: 500 };
+    }
+    return { data: null, error: "Nie znaleziono procesu oceny o podanym identyfikatorze", statusCode: 404 };
+  }
+
+  let query = supabase
+    .from("process_status_history")
+    .select(
+      `
+      id,
+      from_status,
+      to_status,
+      reason,
+      changed_at,
+      changed_by,
+      employee_id,
+      author:users!process_status_history_changed_by_fkey (id, first_name, last_name),
+      employee:users!process_status_history_employee_id_fkey (id, first_name, last_name)
+    `
+    )
+    .eq("assessment_process_id", processId)
+    .order("changed_at", { ascending: true });
+
+  if (employeeId) {
+    query = query.or(`employee_id.is.null,employee_id.eq.${employeeId}`);
+  }
+
+  const { data, error } = await query;
+
+  if (error || !data) {
+    console.error("Błąd podczas pobierania historii statusu:", error);
+    return { data: null, error: "Wystąpił błąd podczas pobierania historii statusu", statusCode: 500 };
+  }
+
+  return {
+    data: data.map((entry) => ({
+      id: entry.id,
+      status: entry.to_status,
+      previousStatus: entry.from_status,
+      reason: entry.reason,
+      employee: entry.employee_id
+        ? {
+            id: entry.employee_id,
+            name: entry.employee ? `${entry.employee.first_name} ${entry.employee.last_name}` : "Nieznany pracownik",
+          }
+        : null,
+      changedAt: entry.changed_at,
+      changedBy: {
+        id: entry.changed_by,
+        // Profiles outside the user's RLS scope are not returned by the join
+        name: entry.author ? `${entry.author.first_name} ${entry.author.last_name}` : "Nieznany użytkownik",
+      },
+    })),
+  };
+}
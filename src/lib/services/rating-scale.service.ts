@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { RatingScale } from "../../types";
+import { parseRatingScale } from "../rating-scale";
+
+/**
+ * Retrieves the rating scale of an assessment process
+ */
+export async function getProcessRatingScale(
+  supabase: SupabaseClient<Database>,
+  processId: string
+): Promise<{ data: RatingScale | null; error?: string; statusCode?: number }> {
+  const { data, error } = await supabase
+    .from("assessment_processes")
+    .select("rating_scale")
+    .eq("id", processId)
+    .single();
+
+  if (error || !data) {
+    if (error?.code === "PGRST116" || !data) {
+      return { data: null, error: "Proces oceny o podanym identyfikatorze nie istnieje", statusCode: 404 };
+    }
+    return { data: null, error: "Wystąpił błąd podczas pobierania skali ocen", statusCode: 500 };
+  }
+
+  return { data: parseRatingScale(data.rating_scale) };
+}
+
+/**
+ * Retrieves the rating scale of the process a goal belongs to
+ */
+export async function getGoalRatingScale(
+  supabase: SupabaseClient<Database>,
+  goalId: string
+): Promise<{ data: RatingScale | null; error?: string; statusCode?: number }> {
+  const { data, error } = await supabase
+    .from("goals")
+    .select("assessment_processes:assessment_process_id ( rating_scale )")
+    .eq("id", goalId)
+    .single();
+
+  if (error || !data?.assessment_processes) {
+    if (error?.code === "PGRST116" || !data) {
+      return { data: null, error: "Cel o podanym identyfikatorze nie istnieje", statusCode: 404 };
+    }
+    return { data: null, error: "Wystąpił błąd podczas pobierania skali ocen", statusCode: 500 };
+  }
+
+  return { data: parseRatingScale(data.assessment_processes.rating_scale) };
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { EmployeeScoreSummaryDTO, TeamMemberSummaryDTO, WeightedScoreDTO } from "../../types";
+import { getParticipantStatuses } from "./participant-status.service";
+
+export interface ScoredGoal {
+  weight: number;
+  rating: number | null;
+}
+
+/**
+ * Computes the weighted average rating of the rated goals.
+ * Unrated goals are left out, so a partial score reflects only what has been assessed so far.
+ */
+export function calculateWeightedScore(goals: ScoredGoal[]): WeightedScoreDTO {
+  const rated = goals.filter((goal) => goal.rating !== null);
+  const ratedWeight = rated.reduce((sum, goal) => sum + goal.weight, 0);
+  const weightedSum = rated.reduce((sum, goal) => sum + goal.weight * (goal.rating as number), 0);
+
+  return {
+    score: ratedWeight > 0 ? Math.round((weightedSum / ratedWeight) * 100) / 100 : null,
+    ratedGoals: rated.length,
+    ratedWeight,
+    isComplete: goals.length > 0 && rated.length === goals.length,
+  };
+}
+
+interface RatedGoalRow {
+  user_id: string;
+  weight: number;
+  self_assessments: { rating: number } | null;
+  manager_assessments: { rating: number } | null;
+}
+
+const RATED_GOAL_COLUMNS = `
+  user_id,
+  weight,
+  self_assessments ( rating ),
+  manager_assessments ( rating )
+`;
+
+/**
+ * Combines an employee's goals with their ratings into a score summary
+ */
+function summarizeGoals(processId: string, employeeId: string, goals: RatedGoalRow[]): EmployeeScoreSummaryDTO {
+  return {
+    processId,
+    employeeId,
+    totalGoals: goals.length,
+    totalWeight: goals.reduce((sum, goal) => sum + goal.weight, 0),
+    selfAssessment: calculateWeightedScore(
+      goals.map((goal) => ({ weight: goal.weight, rating: goal.self_assessments?.rating ?? null }))
+    ),
+    managerAssessment: calculateWeightedScore(
+      goals.map((goal) => ({ weight: goal.weight, rating: goal.manager_assessments?.rating ?? null }))
+    ),
+  };
+}
+
+/**
+ * Calculates the weighted self-assessment and manager scores of an employee in a process
+ */
+export async function getEmployeeScoreSummary(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employeeId: string
+): Promise<{ data: EmployeeScoreSummaryDTO | null; error?: string; statusCode?: number }> {
+  const { data: goals, error } = await supabase
+    .from("goals")
+    .select(RATED_GOAL_COLUMNS)
+    .eq("assessment_process_id", processId)
+    .eq("user_id", employeeId);
+
+  if (error || !goals) {
+    console.error("Błąd podczas obliczania wyniku pracownika:", error);
+    return { data: null, error: "Wystąpił błąd podczas obliczania wyniku pracownika", statusCode: 500 };
+  }
+
+  return { data: summarizeGoals(processId, employeeId, goals) };
+}
+
+/**
+ * Calculates score summaries of several employees at once, together with their workflow status.
+ * Used by the team overview, so all goals are fetched with a single query.
+ */
+export async function getTeamScoreSummaries(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  employees: { id: string; first_name: string; last_name: string }[]
+): Promise<{ data: TeamMemberSummaryDTO[] | null; error?: string; statusCode?: number }> {
+  const {
+    data: statuses,
+    error: statusError,
+    statusCode,
+  } = await getParticipantStatuses(supabase, processId, employees);
+
+  if (statusError || !statuses) {
+    return { data: null, error: statusError, statusCode };
+  }
+
+  if (employees.length === 0) {
+    return { data: [] };
+  }
+
+  const { data: goals, error } = await supabase
+    .from("goals")
+    .select(RATED_GOAL_COLUMNS)
+    .eq("assessment_process_id", processId);
+
+  if (error || !goals) {
+    console.error("Błąd podczas obliczania wyników zespołu:", error);
+    return { data: null, error: "Wystąpił błąd podczas obliczania wyników zespołu", statusCode: 500 };
+  }
+
+  // Goals are fetched for the whole process and grouped here, so the request does not list every employee id
+  const goalsByEmployee = new Map<string, typeof goals>();
+  for (const goal of goals) {
+    goalsByEmployee.set(goal.user_id, [...(goalsByEmployee.get(goal.user_id) ?? []), goal]);
+  }
+
+  return {
+    data: statuses.map((participant) => ({
+      ...summarizeGoals(processId, participant.employeeId, goalsByEmployee.get(participant.employeeId) ?? []),
+      employeeName: participant.employeeName,
+      status: participant.status,
+    })),
+  };
+}
@@ -1,9 +1,12 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../../db/database.types";
-import type { AssessmentDTO, AssessmentResponse, CreateAssessmentCommand } from "../../types";
+import type { AssessmentDTO, AssessmentResponse, CreateSelfAssessmentCommand } from "../../types";
+import { getParticipantStatus } from "./participant-status.service";
+import { getGoalRatingScale } from "./rating-scale.service";
+import { validateRating } from "../rating-scale";
 
 /**
- * Validates if the assessment process is in the 'in_self_assessment' status
+ * Validates if the goal owner is in the 'in_self_assessment' phase of the assessment process
  */
 export async function validateProcessStatus(
   supabase: SupabaseClient<Database>,
@@ -11,14 +14,7 @@ export async function validateProcessStatus(
 ): Promise<{ valid: boolean; error?: string; statusCode?: number }> {
   const { data, error } = await supabase
     .from("goals")
-    .select(
-      `
-      assessment_process_id,
-      assessment_processes:assessment_process_id (
-        status
-      )
-    `
-    )
+    .select("assessment_process_id, user_id")
     .eq("id", goalId)
     .single();
 
@@ -30,11 +26,11 @@ export async function validateProcessStatus(
     };
   }
 
-  const status = data.assessment_processes?.status;
+  const { data: status } = await getParticipantStatus(supabase, data.assessment_process_id, data.user_id);
   if (status !== "in_self_assessment") {
     return {
       valid: false,
-      error: "Samoocena jest dostępna tylko dla procesów w fazie samooceny",
+      error: "Samoocena jest dostępna tylko dla pracowników w fazie samooceny",
       statusCode: 403,
     };
   }
@@ -79,15 +75,42 @@ export async function getSelfAssessment(
 }
 
 /**
- * Creates or updates a self-assessment for a specific goal
+ * Creates or updates a self-assessment for a specific goal, recording the actual value of a measurable goal
+ * when it is given. The rating is validated first, so a rejected request does not change the actual value either.
  */
 export async function createOrUpdateSelfAssessment(
   supabase: SupabaseClient<Database>,
   goalId: string,
   userId: string,
-  assessmentData: CreateAssessmentCommand
+  assessmentData: CreateSelfAssessmentCommand
 ): Promise<{ data: AssessmentResponse | null; error?: string; statusCode?: number }> {
-  // First check if self-assessment already exists
+  // Validate the rating against the scale of the goal's process
+  const {
+    data: ratingScale,
+    error: scaleError,
+    statusCode: scaleStatusCode,
+  } = await getGoalRatingScale(supabase, goalId);
+  if (scaleError || !ratingScale) {
+    return { data: null, error: scaleError, statusCode: scaleStatusCode || 500 };
+  }
+
+  const ratingError = validateRating(ratingScale, assessmentData.rating);
+  if (ratingError) {
+    return { data: null, error: ratingError, statusCode: 400 };
+  }
+
+  if (assessmentData.actualValue !== undefined) {
+    const { error: actualError, statusCode: actualStatusCode } = await recordActualValue(
+      supabase,
+      goalId,
+      assessmentData.actualValue
+    );
+    if (actualError) {
+      return { data: null, error: actualError, statusCode: actualStatusCode };
+    }
+  }
+
+  // Then check if self-assessment already exists
   const { data: existingAssessment, error: checkError } = await supabase
     .from("self_assessments")
     .select("id")
@@ -148,3 +171,35 @@ export async function createOrUpdateSelfAssessment(
     },
   };
 }
+
+/**
+ * Records the actual value of a measurable goal (owners cannot update goals directly, hence the RPC)
+ */
+async function recordActualValue(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  actualValue: number | null
+): Promise<{ error?: string; statusCode?: number }> {
+  const { data: goal, error: goalError } = await supabase.from("goals").select("metric_name").eq("id", goalId).single();
+
+  if (goalError || !goal) {
+    return { error: "Cel o podanym identyfikatorze nie istnieje", statusCode: 404 };
+  }
+
+  if (!goal.metric_name) {
+    return { error: "Cel nie ma zdefiniowanego miernika", statusCode: 400 };
+  }
+
+  const { error } = await supabase.rpc("set_goal_actual_value", { _goal_id: goalId, _actual_value: actualValue });
+
+  if (error) {
+    // The function allows the owner to record the value only during self-assessment
+    if (error.code === "42501") {
+      return { error: "Wartość rzeczywistą można zapisać tylko w fazie samooceny", statusCode: 403 };
+    }
+    console.error("Błąd podczas zapisywania wartości rzeczywistej:", error);
+    return { error: "Wystąpił błąd podczas zapisywania wartości rzeczywistej", statusCode: 500 };
+  }
+
+  return {};
+}
@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { CreateGoalCommand, CreateSharedGoalCommand, SharedGoalResponse } from "../../types";
+import { createGoalForEmployees, type GoalAssignment } from "./bulk-goal.service";
+
+// Postgres error code raised by the unique_goal_per_process_user constraint
+const UNIQUE_VIOLATION = "23505";
+
+// Postgres error code raised by sync_shared_goal_assignments when an assignee is past in_definition
+const CHECK_VIOLATION = "23514";
+
+/**
+ * Creates a shared goal definition and assigns it to the given employees with their own weights.
+ * Assignments failing for an employee are reported per employee; the definition is removed when none succeeds.
+ */
+export async function createSharedGoal(
+  supabase: SupabaseClient<Database>,
+  processId: string,
+  managerId: string,
+  command: CreateSharedGoalCommand,
+  employees: GoalAssignment["employee"][]
+): Promise<{ data: SharedGoalResponse | null; error?: string; statusCode?: number }> {
+  const { data: sharedGoal, error: insertError } = await supabase
+    .from("shared_goals")
+    .insert({
+      assessment_process_id: processId,
+      title: command.title,
+      description: command.description,
+      category_id: command.categoryId,
+      created_by: managerId,
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !sharedGoal) {
+    console.error("Błąd podczas tworzenia celu wspólnego:", insertError);
+    return { data: null, error: "Wystąpił błąd podczas tworzenia celu wspólnego", statusCode: 500 };
+  }
+
+  const weightByEmployee = new Map(command.assignments.map(({ employeeId, weight }) => [employeeId, weight]));
+  const {
+    data: results,
+    error,
+    statusCode,
+  } = await createGoalForEmployees(
+    supabase,
+    processId,
+    { title: command.title, description: command.description, categoryId: command.categoryId, metric: command.metric },
+    employees.map((employee) => ({ employee, weight: weightByEmployee.get(employee.id) || 0 })),
+    sharedGoal.id
+  );
+
+  const succeeded = results?.some((result) => result.success) ?? false;
+  if (!succeeded) {
+    await supabase.from("shared_goals").delete().eq("id", sharedGoal.id);
+  }
+
+  if (error || !results) {
+    return { data: null, error, statusCode };
+  }
+
+  return { data: { sharedGoalId: succeeded ? sharedGoal.id : null, results } };
+}
+
+// Postgres error code raised by update_shared_goal_assignment when RLS hides the shared goal or the assignment
+const INSUFFICIENT_PRIVILEGE = "42501";
+
+/** Columns of an assignment that stay its own: the weight, the parent goal and the metric. */
+export type SharedGoalAssignmentUpdate = Pick<
+  Database["public"]["Tables"]["goals"]["Update"],
+  "weight" | "parent_goal_id" | "metric_name" | "metric_unit" | "baseline_value" | "target_value" | "actual_value"
+>;
+
+/**
+ * Updates the definition of the shared goal behind an assignment together with the assignment's own columns,
+ * in one transaction. The definition is copied to every assignment by a database trigger, which rejects
+ * the change when any assignee has already left the definition phase.
+ */
+export async function updateSharedGoalAssignment(
+  supabase: SupabaseClient<Database>,
+  goalId: string,
+  definition: Omit<CreateGoalCommand, "weight">,
+  assignment: SharedGoalAssignmentUpdate
+): Promise<{ error?: string; statusCode?: number }> {
+  const { error } = await supabase.rpc("update_shared_goal_assignment", {
+    _goal_id: goalId,
+    _title: definition.title,
+    _description: definition.description,
+    _category_id: definition.categoryId,
+    _assignment: assignment,
+  });
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return { error: "Jeden z pracowników ma już cel o tym tytule", statusCode: 409 };
+    }
+    if (error.code === CHECK_VIOLATION) {
+      return {
+        error: "Definicji celu wspólnego nie można zmienić, bo część pracowników zakończyła już definiowanie celów",
+        statusCode: 409,
+      };
+    }
+    if (error.code === INSUFFICIENT_PRIVILEGE) {
+      return { error: "Definicję celu wspólnego może zmienić tylko kierownik", statusCode: 403 };
+    }
+    console.error("Błąd podczas aktualizacji celu wspólnego:", error);
+    return { error: "Wystąpił błąd podczas aktualizacji celu wspólnego", statusCode: 500 };
+  }
+
+  return {};
+}
@@ -0,0 +1,150 @@
+import type { Provider, SupabaseClient, User } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { Database } from "../../db/database.types";
+import { escapeLikePattern } from "./user-invite.service";
+
+/** Profile data taken from the claims of the corporate identity provider. */
+export interface SsoProfileClaims {
+  firstName: string | null;
+  lastName: string | null;
+  managerEmail: string | null;
+}
+
+const emailSchema = z.string().email();
+
+const readClaim = (claims: Record<string, unknown>, name: string): string | null => {
+  const value = claims[name];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+};
+
+/**
+ * Returns the Supabase Auth provider configured for the corporate identity provider (`SSO_PROVIDER`),
+ * e.g. `keycloak` for an OIDC issuer, or null when single sign-on is disabled.
+ */
+export function getSsoProvider(): Provider | null {
+  return (import.meta.env.SSO_PROVIDER as Provider | undefined) || null;
+}
+
+/**
+ * Maps the identity claims stored by Supabase Auth to profile fields.
+ * Names come from `given_name`/`family_name`, or are split from `name`/`full_name` when the provider sends only those.
+ * The manager is optional and read from the `manager_email` claim (also when nested in `custom_claims`).
+ */
+export function mapIdentityClaims(claims: Record<string, unknown>): SsoProfileClaims {
+  const customClaims =
+    claims.custom_claims && typeof claims.custom_claims === "object"
+      ? (claims.custom_claims as Record<string, unknown>)
+      : {};
+
+  let firstName = readClaim(claims, "given_name");
+  let lastName = readClaim(claims, "family_name");
+
+  const fullName = readClaim(claims, "full_name") ?? readClaim(claims, "name");
+  if (fullName && (!firstName || !lastName)) {
+    const [first, ...rest] = fullName.split(/\s+/);
+    firstName ??= first;
+    lastName ??= rest.length > 0 ? rest.join(" ") : null;
+  }
+
+  const managerEmail = readClaim(claims, "manager_email") ?? readClaim(customClaims, "manager_email");
+
+  return {
+    firstName,
+    lastName,
+    managerEmail: managerEmail && emailSchema.safeParse(managerEmail).success ? managerEmail.toLowerCase() : null,
+  };
+}
+
+/**
+ * Updates the profile of a user signed in through the corporate identity provider with the provider's claims.
+ * The profile itself is provisioned by handle_new_user when Supabase Auth creates the account (an imported profile
+ * with the same email is taken over), so this only fills in names and, when the profile has no manager yet, the manager
+ * from the claim.
+ * Profiles are written with the service role client, because users cannot edit their own profiles and the claims
+ * must not come from the browser; the reporting line is checked with the user's own session.
+ */
+export async function syncSsoProfile(
+  supabase: SupabaseClient<Database>,
+  adminClient: SupabaseClient<Database>,
+  user: User,
+  provider: Provider
+): Promise<{ data?: SsoProfileClaims; error?: string; statusCode?: number }> {
+  try {
+    const identity = user.identities?.find((item) => item.provider === provider);
+    if (!identity?.identity_data) {
+      return { error: "Brak danych z dostawcy tożsamości", statusCode: 400 };
+    }
+
+    const claims = mapIdentityClaims(identity.identity_data);
+    const update: Database["public"]["Tables"]["users"]["Update"] = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (claims.firstName) update.first_name = claims.firstName;
+    if (claims.lastName) update.last_name = claims.lastName;
+
+    if (claims.managerEmail) {
+      const managerId = await findClaimedManager(supabase, adminClient, user.id, claims.managerEmail);
+      if (managerId) update.manager_id = managerId;
+    }
+
+    const { error } = await adminClient.from("users").update(update).eq("id", user.id);
+    if (error) {
+      console.error("Błąd podczas aktualizacji profilu użytkownika:", error);
+      return { error: "Nie udało się zaktualizować profilu użytkownika", statusCode: 500 };
+    }
+
+    return { data: claims };
+  } catch (err) {
+    console.error("Błąd podczas aktualizacji profilu użytkownika:", err);
+    return { error: "Wystąpił nieoczekiwany błąd", statusCode: 500 };
+  }
+}
+
+/**
+ * Resolves the manager from the claim, or null when it must not be applied: the profile already has a manager
+ * (set by an administrator or the user import), the manager is not registered, or they report to the user,
+ * which would create a cycle.
+ */
+async function findClaimedManager(
+  supabase: SupabaseClient<Database>,
+  adminClient: SupabaseClient<Database>,
+  userId: string,
+  managerEmail: string
+): Promise<string | null> {
+  const { data: profile, error: profileError } = await adminClient
+    .from("users")
+    .select("manager_id")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error("Błąd podczas pobierania profilu użytkownika:", profileError);
+    return null;
+  }
+  if (profile?.manager_id) return null;
+
+  const { data: manager, error: managerError } = await adminClient
+    .from("users")
+    .select("id")
+    .ilike("email", escapeLikePattern(managerEmail))
+    .maybeSingle();
+
+  if (managerError) {
+    console.error("Błąd podczas wyszukiwania kierownika:", managerError);
+    return null;
+  }
+  if (!manager || manager.id === userId) return null;
+
+  const { data: reportsToUser, error: lineError } = await supabase.rpc("is_in_reporting_line", {
+    _employee_id: manager.id,
+    _manager_id: userId,
+  });
+
+  if (lineError) {
+    console.error("Błąd podczas sprawdzania struktury przełożonych:", lineError);
+    return null;
+  }
+
+  return reportsToUser ? null : manager.id;
+}
@@ -0,0 +1,210 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import type { Database } from "../../db/database.types";
+import { parseCsv } from "../csv";
+import type {
+  UserImportAction,
+  UserImportChangeDTO,
+  UserImportErrorDTO,
+  UserImportFieldChangeDTO,
+  UserImportPreviewDTO,
+} from "../../types";
+
+export interface UserImportRow {
+  line: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  managerEmail: string | null;
+}
+
+export interface ExistingUser {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  manager_id: string | null;
+}
+
+// Columns expected in the header row, in any order
+const REQUIRED_COLUMNS = ["email", "first_name", "last_name", "manager_email"] as const;
+
+const emailSchema = z.string().email();
+
+/**
+ * Parses an import file (comma or semicolon separated, header row required) into rows.
+ * Malformed rows are reported as errors with their line number instead of being returned.
+ */
+export function parseUserCsv(csv: string): { rows: UserImportRow[]; errors: UserImportErrorDTO[] } {
+  const [header, ...records] = parseCsv(csv);
+
+  const columns = (header?.values ?? []).map((column) => column.trim().toLowerCase());
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missingColumns.length > 0) {
+    return {
+      rows: [],
+      errors: [{ line: header?.line ?? 1, message: `Brak wymaganych kolumn: ${missingColumns.join(", ")}` }],
+    };
+  }
+
+  const columnIndex = Object.fromEntries(REQUIRED_COLUMNS.map((column) => [column, columns.indexOf(column)])) as Record<
+    (typeof REQUIRED_COLUMNS)[number],
+    number
+  >;
+
+  const rows: UserImportRow[] = [];
+  const errors: UserImportErrorDTO[] = [];
+
+  records.forEach(({ line, values: record }) => {
+    if (record.every((value) => value.trim() === "")) return;
+
+    const email = (record[columnIndex.email] || "").trim().toLowerCase();
+    const firstName = (record[columnIndex.first_name] || "").trim();
+    const lastName = (record[columnIndex.last_name] || "").trim();
+    const managerEmail = (record[columnIndex.manager_email] || "").trim().toLowerCase() || null;
+
+    if (!emailSchema.safeParse(email).success) {
+      errors.push({ line, message: `Nieprawidłowy adres email: "${email}"` });
+      return;
+    }
+    if (!firstName || !lastName) {
+      errors.push({ line, message: `Brak imienia lub nazwiska dla ${email}` });
+      return;
+    }
+    if (managerEmail && !emailSchema.safeParse(managerEmail).success) {
+      errors.push({ line, message: `Nieprawidłowy adres email kierownika: "${managerEmail}"` });
+      return;
+    }
+
+    rows.push({ line, email, firstName, lastName, managerEmail });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Validates parsed rows against the current users (duplicates, unknown managers, cycles)
+ * and describes what applying them would change
+ */
+export function buildUserImportPreview(
+  rows: UserImportRow[],
+  existingUsers: ExistingUser[]
+): { changes: UserImportChangeDTO[]; errors: UserImportErrorDTO[] } {
+  const errors: UserImportErrorDTO[] = [];
+
+  const existingByEmail = new Map(existingUsers.map((user) => [user.email.toLowerCase(), user]));
+  const emailById = new Map(existingUsers.map((user) => [user.id, user.email.toLowerCase()]));
+
+  // Duplicate emails - every occurrence after the first one is an error
+  const rowByEmail = new Map<string, UserImportRow>();
+  for (const row of rows) {
+    const first = rowByEmail.get(row.email);
+    if (first) {
+      errors.push({ line: row.line, message: `Adres ${row.email} występuje już w wierszu ${first.line}` });
+    } else {
+      rowByEmail.set(row.email, row);
+    }
+  }
+
+  // Hierarchy after the import: rows from the file override the current manager links
+  const managerOf = new Map<string, string | null>();
+  for (const user of existingUsers) {
+    managerOf.set(user.email.toLowerCase(), user.manager_id ? emailById.get(user.manager_id) || null : null);
+  }
+  for (const row of rowByEmail.values()) {
+    managerOf.set(row.email, row.managerEmail);
+  }
+
+  for (const row of rowByEmail.values()) {
+    if (!row.managerEmail) continue;
+
+    if (row.managerEmail === row.email) {
+      errors.push({ line: row.line, message: `Pracownik ${row.email} nie może być swoim kierownikiem` });
+    } else if (!managerOf.has(row.managerEmail)) {
+      errors.push({ line: row.line, message: `Nieznany kierownik ${row.managerEmail} dla ${row.email}` });
+    } else {
+      // Walk up the hierarchy; reaching the starting employee again means a cycle
+      const visited = new Set<string>();
+      let current: string | null | undefined = row.managerEmail;
+      while (current && !visited.has(current)) {
+        if (current === row.email) {
+          errors.push({ line: row.line, message: `Cykl w strukturze przełożonych dla ${row.email}` });
+          break;
+        }
+        visited.add(current);
+        current = managerOf.get(current);
+      }
+    }
+  }
+
+  const changes = [...rowByEmail.values()].map((row): UserImportChangeDTO => {
+    const existing = existingByEmail.get(row.email);
+    const currentManager = existing?.manager_id ? emailById.get(existing.manager_id) || null : null;
+
+    const fieldChanges: UserImportFieldChangeDTO[] = [
+      { field: "firstName" as const, from: existing?.first_name ?? null, to: row.firstName },
+      { field: "lastName" as const, from: existing?.last_name ?? null, to: row.lastName },
+      { field: "manager" as const, from: currentManager, to: row.managerEmail },
+    ].filter((change) => change.from !== change.to);
+
+    return {
+      line: row.line,
+      email: row.email,
+      name: `${row.firstName} ${row.lastName}`,
+      action: !existing ? "create" : fieldChanges.length > 0 ? "update" : "unchanged",
+      changes: fieldChanges,
+    };
+  });
+
+  return { changes, errors: errors.sort((a, b) => a.line - b.line) };
+}
+
+/**
+ * Parses and validates an import file and, unless it is a dry run or the file has errors,
+ * creates or updates the users and their manager links in a single transaction
+ */
+export async function importUsers(
+  supabase: SupabaseClient<Database>,
+  csv: string,
+  dryRun: boolean
+): Promise<{ data: UserImportPreviewDTO | null; error?: string; statusCode?: number }> {
+  const { data: existingUsers, error: usersError } = await supabase
+    .from("users")
+    .select("id, email, first_name, last_name, manager_id");
+
+  if (usersError || !existingUsers) {
+    console.error("Błąd podczas pobierania użytkowników do importu:", usersError);
+    return { data: null, error: "Wystąpił błąd podczas pobierania użytkowników", statusCode: 500 };
+  }
+
+  const { rows, errors: parseErrors } = parseUserCsv(csv);
+  const { changes, errors: validationErrors } = buildUserImportPreview(rows, existingUsers);
+  const errors = [...parseErrors, ...validationErrors].sort((a, b) => a.line - b.line);
+
+  const summary: Record<UserImportAction, number> = { create: 0, update: 0, unchanged: 0 };
+  for (const change of changes) {
+    summary[change.action]++;
+  }
+
+  const preview: UserImportPreviewDTO = { changes, errors, summary, applied: false };
+
+  if (dryRun || errors.length > 0 || changes.length === 0) {
+    return { data: preview };
+  }
+
+  const { error: importError } = await supabase.rpc("import_users", {
+    _users: rows.map((row) => ({
+      email: row.email,
+      first_name: row.firstName,
+      last_name: row.lastName,
+      manager_email: row.managerEmail,
+    })),
+  });
+
+  if (importError) {
+    console.error("Błąd podczas importu użytkowników:", importError);
+    return { data: null, error: "Wystąpił błąd podczas importu użytkowników", statusCode: 500 };
+  }
+
+  return { data: { ...preview, applied: true } };
+}
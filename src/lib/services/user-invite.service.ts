@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../db/database.types";
+import type { UserInvitationDTO } from "../../types";
+
+/** Escapes the LIKE wildcards, so that an email is matched literally (case-insensitively) with `ilike`. */
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+/**
+ * Sends an invitation email with a one-time link for setting the password to a user whose profile exists
+ * (e.g. after a CSV import) but who has no account yet. Accepting the invitation creates the auth account,
+ * which handle_new_user links to the existing profile by email.
+ *
+ * @param supabase - client of the administrator, used to find the profile
+ * @param adminClient - service role client, required by the auth admin API
+ * @param redirectTo - URL of the page where the invited user sets the password
+ */
+export async function inviteUser(
+  supabase: SupabaseClient<Database>,
+  adminClient: SupabaseClient<Database>,
+  email: string,
+  redirectTo: string
+): Promise<{ data?: UserInvitationDTO; error?: string; statusCode?: number }> {
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from("users")
+      .select("email")
+      .ilike("email", escapeLikePattern(email))
+      .maybeSingle();
+
+    if (profileError) {
+      console.error("Błąd podczas wyszukiwania użytkownika:", profileError);
+      return { error: "Nie udało się wyszukać użytkownika", statusCode: 500 };
+    }
+
+    if (!profile) {
+      return { error: "Nie znaleziono użytkownika o podanym adresie email", statusCode: 404 };
+    }
+
+    const { data, error } = await adminClient.auth.admin.inviteUserByEmail(profile.email, { redirectTo });
+
+    if (error) {
+      if (error.code === "email_exists" || error.status === 422) {
+        return {
+          error: "Użytkownik ma już konto. Może ustawić nowe hasło przez opcję „Nie pamiętasz hasła?”",
+          statusCode: 409,
+        };
+      }
+
+      console.error("Błąd podczas wysyłania zaproszenia:", error);
+      return { error: "Nie udało się wysłać zaproszenia", statusCode: 500 };
+    }
+
+    return {
+      data: {
+        email: profile.email,
+        invitedAt: data.user.invited_at ?? new Date().toISOString(),
+      },
+    };
+  } catch (err) {
+    console.error("Błąd podczas wysyłania zaproszenia:", err);
+    return { error: "Wystąpił nieoczekiwany błąd", statusCode: 500 };
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * @file Session lifetime policy shared by the middleware and the browser.
+ * A session ends after a period without user activity; while the user is active,
+ * the browser refreshes the session periodically so that it does not expire mid-work.
+ * @module lib/session-policy
+ * @see module:middleware/index
+ */
+
+/** @description Time without activity after which the session is ended (30 minutes). */
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** @description How long before the idle timeout the user is warned that the session is about to end. */
+export const SESSION_IDLE_WARNING_MS = 2 * 60 * 1000;
+
+/** @description How often the browser of an active user refreshes the session. */
+export const SESSION_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Why the user was sent back to the login page.
+ * - `idle`: the session ended after a period without activity.
+ * - `expired`: the session could not be restored or refreshed.
+ * - `logout`: the user logged out.
+ */
+export type SessionEndReason = "idle" | "expired" | "logout";
+
+/**
+ * Checks whether the last recorded activity is older than the idle timeout.
+ *
+ * @function isSessionIdle
+ * @param {number} lastActivity - Timestamp (ms) of the last activity.
+ * @param {number} [now=Date.now()] - Current timestamp (ms).
+ * @returns {boolean} True when the session should be ended.
+ */
+export function isSessionIdle(lastActivity: number, now: number = Date.now()): boolean {
+  return now - lastActivity > SESSION_IDLE_TIMEOUT_MS;
+}
@@ -1,25 +1,87 @@
 import { defineMiddleware } from "astro:middleware";
 
-import { supabaseClient } from "../db/supabase.client";
+import {
+  AUTH_COOKIES,
+  clearAuthCookies,
+  createSupabaseServerClient,
+  setAuthCookies,
+  touchSessionActivity,
+} from "../db/supabase.client";
+import { getUserRoles } from "../lib/auth-utils";
+import { buildLoginUrl, isProtectedPath } from "../lib/route-guards";
+import { isSessionIdle } from "../lib/session-policy";
 
 /**
  * @file Astro middleware for handling requests.
- * This middleware injects the Supabase client into the `context.locals` object,
- * making it available to API routes and server-side rendering in Astro components.
+ * This middleware creates a Supabase client for every request, restores the caller's session from
+ * the HTTP-only session cookies and exposes the client and the authenticated user in `context.locals`,
+ * making them available to API routes and server-side rendering in Astro components.
+ * It also guards the pages that require a logged-in user, so individual pages do not check the session themselves.
  * @module middleware/index
  * @see module:db/supabase.client
+ * @see module:lib/route-guards
  */
 
 /**
  * Astro middleware function that is called on every request.
- * It initializes the Supabase client and attaches it to `context.locals.supabase`.
+ * It attaches a request-scoped Supabase client to `context.locals.supabase` and, when the session cookies are present,
+ * restores the session (refreshing an expired access token and updating the cookies) and sets `context.locals.user`.
+ * Sessions idle for longer than the idle timeout, or without a valid activity timestamp, are signed out;
+ * cookies holding a session that cannot be restored are cleared. Every authenticated request counts as activity.
  *
+ * Anonymous requests for protected pages (`/dashboard`, `/process/**`, `/users/**`) are redirected to the login page, which returns
+ * to the requested URL after login. For page requests of a logged-in user the roles are resolved into
+ * `context.locals.roles`; API routes check roles themselves with `requireRole`.
+ *
+ * @async
  * @function onRequest
  * @param {APIContext} context - The Astro API context, providing access to request details and local storage.
  * @param {function} next - A function to call to proceed to the next middleware or the actual page/API route.
- * @returns {Promise<Response | void>} A promise that resolves when the next middleware or route handler has completed.
+ * @returns {Promise<Response>} A promise that resolves when the next middleware or route handler has completed.
  */
-export const onRequest = defineMiddleware((context, next) => {
-  context.locals.supabase = supabaseClient;
+export const onRequest = defineMiddleware(async (context, next) => {
+  const supabase = createSupabaseServerClient();
+  context.locals.supabase = supabase;
+  context.locals.user = null;
+  context.locals.roles = [];
+
+  const accessToken = context.cookies.get(AUTH_COOKIES.accessToken)?.value;
+  const refreshToken = context.cookies.get(AUTH_COOKIES.refreshToken)?.value;
+  const lastActivity = Number(context.cookies.get(AUTH_COOKIES.lastActivity)?.value);
+
+  if (accessToken && refreshToken) {
+    const { data, error } = await supabase.auth.setSession({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+    });
+
+    if (error || !data.session || !data.user) {
+      clearAuthCookies(context.cookies);
+    } else if (!Number.isFinite(lastActivity) || lastActivity <= 0 || isSessionIdle(lastActivity)) {
+      // Every session is stored together with its activity timestamp, so a missing or malformed
+      // timestamp is treated like an idle session instead of silently extending it
+      await supabase.auth.signOut({ scope: "local" });
+      clearAuthCookies(context.cookies);
+    } else {
+      // The access token was refreshed - store the new session
+      if (data.session.access_token !== accessToken) {
+        setAuthCookies(context.cookies, data.session);
+      } else {
+        touchSessionActivity(context.cookies);
+      }
+      context.locals.user = data.user;
+    }
+  }
+
+  const { pathname, search } = context.url;
+
+  if (!context.locals.user) {
+    if (isProtectedPath(pathname)) {
+      return context.redirect(buildLoginUrl(`${pathname}${search}`));
+    }
+  } else if (!pathname.startsWith("/api/")) {
+    context.locals.roles = await getUserRoles(supabase, context.locals.user.id);
+  }
+
   return next();
 });
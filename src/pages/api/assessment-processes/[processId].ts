@@ -1,13 +1,36 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import type { AssessmentProcessDTO } from "../../../types";
+import type { AssessmentProcessDTO, UpdateAssessmentProcessCommand } from "../../../types";
 import { authenticateUser, createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { parseRatingScale, ratingScaleSchema } from "../../../lib/rating-scale";
+import { updateAssessmentProcess } from "../../../lib/services/assessment-process.service";
 
 export const prerender = false;
 
 // Validation schema for process ID
 const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
 
+// Validation schema for partial process updates
+const updateAssessmentProcessSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(3, { message: "Nazwa procesu musi mieć minimum 3 znaki" })
+      .max(100, { message: "Nazwa procesu nie może przekraczać 100 znaków" }),
+    description: z.string().max(1000, { message: "Opis procesu nie może przekraczać 1000 znaków" }).nullable(),
+    startDate: z.string().date("Nieprawidłowy format daty rozpoczęcia (RRRR-MM-DD)"),
+    endDate: z.string().date("Nieprawidłowy format daty zakończenia (RRRR-MM-DD)"),
+    isActive: z.boolean(),
+    ratingScale: ratingScaleSchema,
+  })
+  .partial()
+  .refine((data) => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: "Data zakończenia nie może być wcześniejsza niż data rozpoczęcia",
+    path: ["endDate"],
+  })
+  .refine((data) => Object.keys(data).length > 0, { message: "Brak danych do aktualizacji" });
+
 export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
   try {
     const supabase = locals.supabase;
@@ -32,7 +55,7 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
     // 3. Fetch process data
     const { data: processData, error: processError } = await supabase
       .from("assessment_processes")
-      .select("id, title, status, is_active, start_date, end_date")
+      .select("id, title, description, status, is_active, start_date, end_date, rating_scale")
       .eq("id", processId)
       .single();
 
@@ -56,6 +79,8 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
       active: processData.is_active,
       startDate: processData.start_date,
       endDate: processData.end_date,
+      description: processData.description,
+      ratingScale: parseRatingScale(processData.rating_scale),
     };
 
     // 5. Return process data
@@ -65,3 +90,49 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
     return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
   }
 };
+
+// PATCH /assessment-processes/{processId} - Update process details (admins only)
+export const PATCH: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (administrators only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "admin");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    const processId = validationResult.data;
+
+    // 3. Validate request body
+    let requestBody: UpdateAssessmentProcessCommand;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych wejściowych - oczekiwano JSON", 400);
+    }
+
+    const bodyValidationResult = updateAssessmentProcessSchema.safeParse(requestBody);
+    if (!bodyValidationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, bodyValidationResult.error.format());
+    }
+
+    // 4. Update process
+    const { data, error, statusCode } = await updateAssessmentProcess(supabase, processId, bodyValidationResult.data);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zaktualizować procesu oceny", statusCode || 500);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in PATCH /assessment-processes/{processId} endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,40 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { archiveAssessmentProcess } from "../../../../lib/services/assessment-process.service";
+
+export const prerender = false;
+
+// Validation schema for process ID
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+// POST /assessment-processes/{processId}/archive - Mark the process as inactive (admins only)
+export const POST: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (administrators only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "admin");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    // 3. Archive process
+    const { data, error, statusCode } = await archiveAssessmentProcess(supabase, validationResult.data);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zarchiwizować procesu oceny", statusCode || 500);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in POST /assessment-processes/{processId}/archive endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
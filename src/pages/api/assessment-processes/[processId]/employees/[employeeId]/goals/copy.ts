@@ -0,0 +1,110 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../../../lib/api-utils";
+import { goalSchema } from "../../../../../../../lib/goal-schema";
+import { getParticipantStatus } from "../../../../../../../lib/services/participant-status.service";
+import { copyGoalsFromProcess } from "../../../../../../../lib/services/goal-copy.service";
+
+export const prerender = false;
+
+// Validation schemas
+const pathParamsSchema = z.object({
+  processId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" }),
+  employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }),
+});
+
+const copyGoalsSchema = z.object({
+  sourceProcessId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu źródłowego" }),
+  goals: z
+    .array(
+      z.object({
+        goalId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora celu" }),
+        weight: goalSchema.shape.weight,
+      })
+    )
+    .min(1, { message: "Wybierz co najmniej jeden cel do skopiowania" }),
+});
+
+// POST /assessment-processes/{processId}/employees/{employeeId}/goals/copy - Copy goals from an earlier process
+export const POST: APIRoute = async ({ request, params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate path parameters
+    const pathParamsResult = pathParamsSchema.safeParse(params);
+    if (!pathParamsResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry ścieżki", 400, pathParamsResult.error.format());
+    }
+
+    const { processId, employeeId } = pathParamsResult.data;
+
+    // 3. Validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = copyGoalsSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 4. Check that the employee is still in the definition phase of the current process
+    const {
+      data: participantStatus,
+      error: statusError,
+      statusCode: statusErrorCode,
+    } = await getParticipantStatus(supabase, processId, employeeId);
+
+    if (statusError || !participantStatus) {
+      return createErrorResponse(
+        statusError || "Proces oceny o podanym identyfikatorze nie istnieje",
+        statusErrorCode || 404
+      );
+    }
+
+    if (participantStatus !== "in_definition") {
+      return createErrorResponse("Cele można dodawać tylko dla pracowników w fazie definiowania", 400);
+    }
+
+    // 5. Check if user has permission (is manager or employee themselves)
+    const { data: employee, error: employeeError } = await supabase
+      .from("users")
+      .select("id, manager_id")
+      .eq("id", employeeId)
+      .single();
+
+    if (employeeError || !employee) {
+      return createErrorResponse("Pracownik o podanym identyfikatorze nie istnieje", 404);
+    }
+
+    if (user.id !== employeeId && employee.manager_id !== user.id) {
+      return createErrorResponse("Brak uprawnień do utworzenia celu dla tego pracownika", 403);
+    }
+
+    // 6. Copy the goals
+    const { data, error, statusCode, details } = await copyGoalsFromProcess(
+      supabase,
+      processId,
+      employeeId,
+      validationResult.data
+    );
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się skopiować celów", statusCode || 500, details);
+    }
+
+    return createApiResponse(data, 201);
+  } catch (error) {
+    console.error("Error in POST /assessment-processes/{processId}/employees/{employeeId}/goals/copy endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
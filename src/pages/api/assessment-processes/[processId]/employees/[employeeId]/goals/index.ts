@@ -2,26 +2,21 @@ import type { APIRoute } from "astro";
 import { z } from "zod";
 import type { CreateGoalCommand, GoalResponse, GoalDTO, GoalListResponse } from "../../../../../../../types";
 import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../../../lib/api-utils";
+import { getParticipantStatus } from "../../../../../../../lib/services/participant-status.service";
+import { getProcessRatingScale } from "../../../../../../../lib/services/rating-scale.service";
+import { alignedGoalSchema } from "../../../../../../../lib/goal-schema";
+import { validateParentGoal } from "../../../../../../../lib/services/goal-alignment.service";
+import { toGoalMetricColumns, toGoalMetricDTO } from "../../../../../../../lib/goal-metrics";
+import {
+  REQUIRED_TOTAL_WEIGHT,
+  WEIGHT_LIMIT_VIOLATION,
+  getTotalGoalWeight,
+  getWeightWarnings,
+} from "../../../../../../../lib/services/goal-weight.service";
 
 export const prerender = false;
 
 // Validation schemas
-const createGoalSchema = z.object({
-  title: z
-    .string()
-    .min(5, { message: "Tytuł celu musi mieć minimum 5 znaków" })
-    .max(50, { message: "Tytuł celu nie może przekraczać 50 znaków" }),
-  description: z
-    .string()
-    .min(5, { message: "Opis celu musi mieć minimum 5 znaków" })
-    .max(500, { message: "Opis celu nie może przekraczać 500 znaków" }),
-  weight: z
-    .number()
-    .min(0, { message: "Waga celu musi być większa lub równa 0%" })
-    .max(100, { message: "Waga celu nie może przekraczać 100%" }),
-  categoryId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora kategorii" }),
-});
-
 const pathParamsSchema = z.object({
   processId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" }),
   employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }),
@@ -53,29 +48,32 @@ export const POST: APIRoute = async ({ request, params, locals }): Promise<Respo
       return createErrorResponse("Nieprawidłowy format danych wejściowych - oczekiwano JSON", 400);
     }
 
-    const validationResult = createGoalSchema.safeParse(requestBody);
+    const validationResult = alignedGoalSchema.safeParse(requestBody);
     if (!validationResult.success) {
       return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
     }
 
-    const { title, description, weight, categoryId } = validationResult.data;
+    const { title, description, weight, categoryId, parentGoalId, metric } = validationResult.data;
 
     // 4. Business validations
 
-    // 4.1 Check if assessment process exists and has correct status
-    const { data: process, error: processError } = await supabase
-      .from("assessment_processes")
-      .select("id, status")
-      .eq("id", processId)
-      .single();
-
-    if (processError || !process) {
-      return createErrorResponse("Proces oceny o podanym identyfikatorze nie istnieje", 404);
+    // 4.1 Check if assessment process exists and the employee is still in the definition phase
+    const {
+      data: participantStatus,
+      error: statusError,
+      statusCode,
+    } = await getParticipantStatus(supabase, processId, employeeId);
+
+    if (statusError || !participantStatus) {
+      return createErrorResponse(
+        statusError || "Proces oceny o podanym identyfikatorze nie istnieje",
+        statusCode || 404
+      );
     }
 
-    if (process.status !== "in_definition") {
-      return createErrorResponse("Cele można dodawać tylko dla procesów w fazie definiowania", 400, {
-        details: `Aktualny status procesu: ${process.status}`,
+    if (participantStatus !== "in_definition") {
+      return createErrorResponse("Cele można dodawać tylko dla pracowników w fazie definiowania", 400, {
+        details: `Aktualny status pracownika w procesie: ${participantStatus}`,
       });
     }
 
@@ -109,6 +107,33 @@ export const POST: APIRoute = async ({ request, params, locals }): Promise<Respo
       return createErrorResponse("Brak uprawnień do utworzenia celu dla tego pracownika", 403);
     }
 
+    // 4.5 Check that the total weight of the employee's goals stays within the limit
+    const { data: currentTotalWeight, error: weightError } = await getTotalGoalWeight(supabase, processId, employeeId);
+    if (weightError || currentTotalWeight === null) {
+      return createErrorResponse(weightError || "Wystąpił błąd podczas obliczania sumy wag celów", 500);
+    }
+
+    if (currentTotalWeight + weight > REQUIRED_TOTAL_WEIGHT) {
+      return createErrorResponse(`Suma wag celów nie może przekraczać ${REQUIRED_TOTAL_WEIGHT}%`, 400, {
+        currentTotalWeight,
+        maxWeight: REQUIRED_TOTAL_WEIGHT - currentTotalWeight,
+      });
+    }
+
+    // 4.6 Check that the parent goal belongs to the employee's manager in the same process
+    if (parentGoalId) {
+      const { error: parentError, statusCode: parentStatusCode } = await validateParentGoal(
+        supabase,
+        processId,
+        employeeId,
+        parentGoalId
+      );
+
+      if (parentError) {
+        return createErrorResponse(parentError, parentStatusCode || 400);
+      }
+    }
+
     // 5. Create goal in database
     const { data: newGoal, error: createError } = await supabase
       .from("goals")
@@ -119,10 +144,19 @@ export const POST: APIRoute = async ({ request, params, locals }): Promise<Respo
         category_id: categoryId,
         user_id: employeeId,
         assessment_process_id: processId,
+        parent_goal_id: parentGoalId || null,
+        ...toGoalMetricColumns(metric ?? null),
       })
-      .select("id, title, description, weight, category_id")
+      .select(
+        "id, title, description, weight, category_id, parent_goal_id, metric_name, metric_unit, baseline_value, target_value, actual_value"
+      )
       .single();
 
+    // The database rejects the goal when a concurrent request has meanwhile used up the remaining weight
+    if (createError?.code === WEIGHT_LIMIT_VIOLATION) {
+      return createErrorResponse(`Suma wag celów nie może przekraczać ${REQUIRED_TOTAL_WEIGHT}%`, 409);
+    }
+
     if (createError || !newGoal) {
       return createErrorResponse("Wystąpił błąd podczas tworzenia celu", 500, { details: createError?.message });
     }
@@ -137,7 +171,9 @@ export const POST: APIRoute = async ({ request, params, locals }): Promise<Respo
         id: category.id,
         name: category.name,
       },
-      validationErrors: [],
+      parentGoalId: newGoal.parent_goal_id,
+      metric: toGoalMetricDTO(newGoal),
+      validationErrors: getWeightWarnings(currentTotalWeight + newGoal.weight),
     };
 
     return createApiResponse(response, 201);
@@ -166,15 +202,18 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
 
     const { processId, employeeId } = pathParamsResult.data;
 
-    // 3. Verify that process exists
-    const { data: process, error: processError } = await supabase
-      .from("assessment_processes")
-      .select("id")
-      .eq("id", processId)
-      .single();
-
-    if (processError || !process) {
-      return createErrorResponse("Proces oceny o podanym identyfikatorze nie istnieje", 404);
+    // 3. Verify that process exists and resolve the employee's workflow status
+    const {
+      data: participantStatus,
+      error: statusError,
+      statusCode,
+    } = await getParticipantStatus(supabase, processId, employeeId);
+
+    if (statusError || !participantStatus) {
+      return createErrorResponse(
+        statusError || "Proces oceny o podanym identyfikatorze nie istnieje",
+        statusCode || 404
+      );
     }
 
     // 4. Verify that employee exists
@@ -205,6 +244,13 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
         title,
         description, 
         weight,
+        shared_goal_id,
+        parent_goal_id,
+        metric_name,
+        metric_unit,
+        baseline_value,
+        target_value,
+        actual_value,
         goal_categories:category_id (
           id,
           name
@@ -228,15 +274,31 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
         id: goal.goal_categories?.id || "",
         name: goal.goal_categories?.name || "Bez kategorii",
       },
+      sharedGoalId: goal.shared_goal_id,
+      parentGoalId: goal.parent_goal_id,
+      metric: toGoalMetricDTO(goal),
     }));
 
     // 8. Calculate total weight
     const totalWeight = goalDTOs.reduce((sum, goal) => sum + goal.weight, 0);
 
-    // 9. Format response
+    // 9. Fetch the rating scale of the process
+    const {
+      data: ratingScale,
+      error: scaleError,
+      statusCode: scaleStatusCode,
+    } = await getProcessRatingScale(supabase, processId);
+
+    if (scaleError || !ratingScale) {
+      return createErrorResponse(scaleError || "Nie udało się pobrać skali ocen", scaleStatusCode || 500);
+    }
+
+    // 10. Format response
     const response: GoalListResponse = {
       goals: goalDTOs,
       totalWeight,
+      participantStatus,
+      ratingScale,
     };
 
     return createApiResponse(response);
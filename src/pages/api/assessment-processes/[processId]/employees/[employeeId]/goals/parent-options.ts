@@ -0,0 +1,62 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { GoalDTO } from "../../../../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../../../lib/api-utils";
+import { getParentGoalOptions } from "../../../../../../../lib/services/goal-alignment.service";
+
+export const prerender = false;
+
+// Validation schemas
+const pathParamsSchema = z.object({
+  processId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" }),
+  employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }),
+});
+
+// GET /assessment-processes/{processId}/employees/{employeeId}/goals/parent-options - Manager's goals to align with
+export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate path parameters
+    const pathParamsResult = pathParamsSchema.safeParse(params);
+    if (!pathParamsResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry ścieżki", 400, pathParamsResult.error.format());
+    }
+
+    const { processId, employeeId } = pathParamsResult.data;
+
+    // 3. Check if user has permission (is manager or employee themselves)
+    const { data: employee, error: employeeError } = await supabase
+      .from("users")
+      .select("id, manager_id")
+      .eq("id", employeeId)
+      .single();
+
+    if (employeeError || !employee) {
+      return createErrorResponse("Pracownik o podanym identyfikatorze nie istnieje", 404);
+    }
+
+    if (user.id !== employeeId && employee.manager_id !== user.id) {
+      return createErrorResponse("Brak uprawnień do przeglądania celów tego pracownika", 403);
+    }
+
+    // 4. Fetch goals of the employee's manager
+    const { data: goals, error, statusCode } = await getParentGoalOptions(supabase, processId, employeeId);
+
+    if (error || !goals) {
+      return createErrorResponse(error || "Nie udało się pobrać celów kierownika", statusCode || 500);
+    }
+
+    const response: { goals: GoalDTO[] } = { goals };
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/employees/{employeeId}/goals/parent-options:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
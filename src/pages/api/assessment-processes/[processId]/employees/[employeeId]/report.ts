@@ -0,0 +1,91 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createErrorResponse } from "../../../../../../lib/api-utils";
+import { isAdmin } from "../../../../../../lib/auth-utils";
+import { getParticipantStatus } from "../../../../../../lib/services/participant-status.service";
+import { buildEmployeeReportPdf, getEmployeeReportData } from "../../../../../../lib/services/pdf-report.service";
+
+export const prerender = false;
+
+// Validation schemas
+const pathParamsSchema = z.object({
+  processId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" }),
+  employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }),
+});
+
+// GET /assessment-processes/{processId}/employees/{employeeId}/report - Printable PDF assessment report
+export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate path parameters
+    const pathParamsResult = pathParamsSchema.safeParse(params);
+    if (!pathParamsResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry ścieżki", 400, pathParamsResult.error.format());
+    }
+
+    const { processId, employeeId } = pathParamsResult.data;
+
+    // 3. Check if user has permission (employee themselves, their manager or an administrator)
+    const { data: employee, error: employeeError } = await supabase
+      .from("users")
+      .select("id, manager_id")
+      .eq("id", employeeId)
+      .single();
+
+    if (employeeError || !employee) {
+      return createErrorResponse("Pracownik o podanym identyfikatorze nie istnieje", 404);
+    }
+
+    const isEmployee = user.id === employeeId;
+    const isManager = employee.manager_id === user.id;
+
+    if (!isEmployee && !isManager && !(await isAdmin(supabase, user.id))) {
+      return createErrorResponse("Brak uprawnień do raportu tego pracownika", 403);
+    }
+
+    // 4. The report is signed at the end of the cycle, so it is available only once the assessment is completed
+    const {
+      data: participantStatus,
+      error: statusError,
+      statusCode: statusErrorCode,
+    } = await getParticipantStatus(supabase, processId, employeeId);
+
+    if (statusError || !participantStatus) {
+      return createErrorResponse(
+        statusError || "Proces oceny o podanym identyfikatorze nie istnieje",
+        statusErrorCode || 404
+      );
+    }
+
+    if (participantStatus !== "completed") {
+      return createErrorResponse("Raport jest dostępny dopiero po zakończeniu oceny pracownika", 400);
+    }
+
+    // 5. Build the report
+    const { data, error, statusCode } = await getEmployeeReportData(supabase, processId, employeeId);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się przygotować raportu", statusCode || 500);
+    }
+
+    const pdf = await buildEmployeeReportPdf(data);
+
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="raport-${employeeId}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/employees/{employeeId}/report endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
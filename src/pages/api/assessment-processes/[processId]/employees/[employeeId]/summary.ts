@@ -0,0 +1,75 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../../lib/api-utils";
+import { isAdmin } from "../../../../../../lib/auth-utils";
+import { getEmployeeScoreSummary } from "../../../../../../lib/services/scoring.service";
+
+export const prerender = false;
+
+// Validation schemas
+const pathParamsSchema = z.object({
+  processId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" }),
+  employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }),
+});
+
+// GET /assessment-processes/{processId}/employees/{employeeId}/summary - Weighted scores of an employee
+export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate path parameters
+    const pathParamsResult = pathParamsSchema.safeParse(params);
+    if (!pathParamsResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry ścieżki", 400, pathParamsResult.error.format());
+    }
+
+    const { processId, employeeId } = pathParamsResult.data;
+
+    // 3. Verify that process and employee exist
+    const { data: process, error: processError } = await supabase
+      .from("assessment_processes")
+      .select("id")
+      .eq("id", processId)
+      .single();
+
+    if (processError || !process) {
+      return createErrorResponse("Proces oceny o podanym identyfikatorze nie istnieje", 404);
+    }
+
+    const { data: employee, error: employeeError } = await supabase
+      .from("users")
+      .select("id, manager_id")
+      .eq("id", employeeId)
+      .single();
+
+    if (employeeError || !employee) {
+      return createErrorResponse("Pracownik o podanym identyfikatorze nie istnieje", 404);
+    }
+
+    // 4. Check if user has permission (employee themselves, their manager or an administrator)
+    const isEmployee = user.id === employeeId;
+    const isManager = employee.manager_id === user.id;
+
+    if (!isEmployee && !isManager && !(await isAdmin(supabase, user.id))) {
+      return createErrorResponse("Brak uprawnień do przeglądania wyników tego pracownika", 403);
+    }
+
+    // 5. Calculate weighted scores
+    const { data, error, statusCode } = await getEmployeeScoreSummary(supabase, processId, employeeId);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się obliczyć wyniku pracownika", statusCode || 500);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/employees/{employeeId}/summary endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,90 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createErrorResponse } from "../../../../lib/api-utils";
+import { isAdmin } from "../../../../lib/auth-utils";
+import { buildCsv, buildXlsx, getProcessExportData } from "../../../../lib/services/export.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const queryParamsSchema = z.object({
+  format: z.enum(["csv", "xlsx"]).optional().default("csv"),
+  // CSV holds a single table, so the summary is exported as a separate file
+  sheet: z.enum(["goals", "summary"]).optional().default("goals"),
+});
+
+// GET /assessment-processes/{processId}/export - Download process results as CSV or XLSX
+export const GET: APIRoute = async ({ params, url, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID and query parameters
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    const queryResult = queryParamsSchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!queryResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry zapytania", 400, queryResult.error.format());
+    }
+
+    const processId = validationResult.data;
+    const { format, sheet } = queryResult.data;
+
+    // 3. Resolve exported employees - same visibility as the goals list:
+    //    the user and their direct reports, or everyone for administrators
+    let employeesQuery = supabase
+      .from("users")
+      .select("id, first_name, last_name, manager_id")
+      .order("last_name", { ascending: true });
+
+    if (!(await isAdmin(supabase, user.id))) {
+      employeesQuery = employeesQuery.or(`id.eq.${user.id},manager_id.eq.${user.id}`);
+    }
+
+    const { data: employees, error: employeesError } = await employeesQuery;
+
+    if (employeesError || !employees) {
+      console.error("Error fetching employees for export:", employeesError);
+      return createErrorResponse("Wystąpił błąd podczas pobierania pracowników", 500);
+    }
+
+    // 4. Collect data
+    const { data, error, statusCode } = await getProcessExportData(supabase, processId, employees);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się przygotować eksportu", statusCode || 500);
+    }
+
+    // 5. Build the file
+    if (format === "xlsx") {
+      return new Response(await buildXlsx(data), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="ocena-${processId}.xlsx"`,
+        },
+      });
+    }
+
+    return new Response(buildCsv(data, sheet), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="ocena-${processId}${sheet === "summary" ? "-podsumowanie" : ""}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/export endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,72 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { GoalAlignmentResponse } from "../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { isAdmin } from "../../../../lib/auth-utils";
+import { getGoalAlignment } from "../../../../lib/services/goal-alignment.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+const employeeIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" });
+
+// GET /assessment-processes/{processId}/goal-alignment?employeeId= - Goals cascading down the reporting line
+export const GET: APIRoute = async ({ params, url, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID and the employee at the top of the tree (defaults to the caller)
+    const processIdResult = processIdSchema.safeParse(params.processId);
+    if (!processIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, processIdResult.error.format());
+    }
+
+    const employeeIdResult = employeeIdSchema.safeParse(url.searchParams.get("employeeId") || user.id);
+    if (!employeeIdResult.success) {
+      return createErrorResponse(
+        "Nieprawidłowy format identyfikatora pracownika",
+        400,
+        employeeIdResult.error.format()
+      );
+    }
+
+    const employeeId = employeeIdResult.data;
+
+    // 3. Only the employee, managers up their reporting line and admins can see the tree
+    if (employeeId !== user.id) {
+      const { data: isInReportingLine, error: lineError } = await supabase.rpc("is_in_reporting_line", {
+        _employee_id: employeeId,
+        _manager_id: user.id,
+      });
+
+      if (lineError) {
+        console.error("Error checking reporting line:", lineError);
+        return createErrorResponse("Wystąpił błąd podczas sprawdzania uprawnień", 500);
+      }
+
+      if (!isInReportingLine && !(await isAdmin(supabase, user.id))) {
+        return createErrorResponse("Brak uprawnień do przeglądania celów tego pracownika", 403);
+      }
+    }
+
+    // 4. Build the alignment tree
+    const { data, error, statusCode } = await getGoalAlignment(supabase, processIdResult.data, employeeId);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się pobrać kaskady celów", statusCode || 500);
+    }
+
+    const response: GoalAlignmentResponse = data;
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/goal-alignment endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
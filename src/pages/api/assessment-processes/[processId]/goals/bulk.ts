@@ -0,0 +1,93 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { BulkCreateGoalsResponse } from "../../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../lib/api-utils";
+import { goalSchema } from "../../../../../lib/goal-schema";
+import { createGoalForEmployees } from "../../../../../lib/services/bulk-goal.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const bulkCreateGoalSchema = goalSchema.extend({
+  employeeIds: z
+    .array(z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }))
+    .min(1, { message: "Wybierz co najmniej jednego pracownika" })
+    .max(100, { message: "Można wybrać maksymalnie 100 pracowników" }),
+});
+
+// POST /assessment-processes/{processId}/goals/bulk - Create the same goal for several direct reports
+export const POST: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "manager");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const processIdResult = processIdSchema.safeParse(params.processId);
+    if (!processIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, processIdResult.error.format());
+    }
+
+    // 3. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = bulkCreateGoalSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    const { employeeIds, weight, ...goal } = validationResult.data;
+    const uniqueEmployeeIds = [...new Set(employeeIds)];
+
+    // 4. Check that the caller manages every selected employee
+    const { data: employees, error: employeesError } = await supabase
+      .from("users")
+      .select("id, first_name, last_name")
+      .eq("manager_id", user.id)
+      .in("id", uniqueEmployeeIds);
+
+    if (employeesError || !employees) {
+      return createErrorResponse("Wystąpił błąd podczas pobierania pracowników", 500);
+    }
+
+    if (employees.length !== uniqueEmployeeIds.length) {
+      const managedIds = new Set(employees.map((employee) => employee.id));
+      return createErrorResponse("Brak uprawnień do utworzenia celu dla części pracowników", 403, {
+        employeeIds: uniqueEmployeeIds.filter((id) => !managedIds.has(id)),
+      });
+    }
+
+    // 5. Create the goal for each employee, collecting per-employee failures
+    const {
+      data: results,
+      error,
+      statusCode,
+    } = await createGoalForEmployees(
+      supabase,
+      processIdResult.data,
+      goal,
+      employees.map((employee) => ({ employee, weight }))
+    );
+
+    if (error || !results) {
+      return createErrorResponse(error || "Nie udało się utworzyć celów", statusCode || 500);
+    }
+
+    const response: BulkCreateGoalsResponse = { results };
+    return createApiResponse(response, results.some((result) => result.success) ? 201 : 200);
+  } catch (error) {
+    console.error("Error in POST /assessment-processes/{processId}/goals/bulk endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,82 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../lib/api-utils";
+import type { CsvRecord } from "../../../../../lib/csv";
+import { importGoals, readGoalImportFile } from "../../../../../lib/services/goal-import.service";
+
+export const prerender = false;
+
+// Largest accepted import file (1 MB)
+const MAX_FILE_SIZE = 1_000_000;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const importOptionsSchema = z.object({
+  dryRun: z.enum(["true", "false"]).optional().default("true"),
+});
+
+// POST /assessment-processes/{processId}/goals/import - Import goals of direct reports from a CSV or XLSX file
+export const POST: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "manager");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const processIdResult = processIdSchema.safeParse(params.processId);
+    if (!processIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, processIdResult.error.format());
+    }
+
+    // 3. Read the uploaded file
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych - oczekiwano formularza z plikiem", 400);
+    }
+
+    const file = formData.get("file");
+    if (!(file instanceof File) || file.size === 0) {
+      return createErrorResponse("Nie przesłano pliku importu", 400);
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return createErrorResponse("Plik importu nie może przekraczać 1 MB", 400);
+    }
+
+    const optionsResult = importOptionsSchema.safeParse({ dryRun: formData.get("dryRun") ?? undefined });
+    if (!optionsResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry importu", 400, optionsResult.error.format());
+    }
+    const dryRun = optionsResult.data.dryRun === "true";
+
+    let records: CsvRecord[];
+    try {
+      records = await readGoalImportFile(file.name, await file.arrayBuffer());
+    } catch {
+      return createErrorResponse("Nie udało się odczytać pliku - oczekiwano pliku CSV lub XLSX", 400);
+    }
+
+    // 4. Validate the goals and create them unless this is a dry run
+    const { data, error, statusCode } = await importGoals(supabase, processIdResult.data, user.id, records, dryRun);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zaimportować celów", statusCode || 500);
+    }
+
+    // 5. A file with errors is never imported partially
+    if (!dryRun && !data.applied) {
+      return createErrorResponse("Plik importu zawiera błędy", 400, data);
+    }
+
+    return createApiResponse(data, dryRun ? 200 : 201);
+  } catch (error) {
+    console.error("Error in POST /assessment-processes/{processId}/goals/import endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
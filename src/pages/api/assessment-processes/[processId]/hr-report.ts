@@ -0,0 +1,40 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { getHrReport } from "../../../../lib/services/hr-report.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+// GET /assessment-processes/{processId}/hr-report - Company-wide progress of the process (admins only)
+export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (administrators only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "admin");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    // 3. Build report
+    const { data, error, statusCode } = await getHrReport(supabase, validationResult.data);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się przygotować raportu", statusCode || 500);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/hr-report endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
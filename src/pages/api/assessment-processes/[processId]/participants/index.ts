@@ -0,0 +1,77 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ParticipantStatusListResponse } from "../../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../lib/api-utils";
+import { isAdmin } from "../../../../../lib/auth-utils";
+import { getParticipantStatuses } from "../../../../../lib/services/participant-status.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const queryParamsSchema = z.object({
+  // Administrators may request every employee instead of their direct reports
+  all: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+// GET /assessment-processes/{processId}/participants - Workflow status of the user's reports
+export const GET: APIRoute = async ({ params, url, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers and administrators)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, ["admin", "manager"]);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID and query parameters
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    const queryResult = queryParamsSchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!queryResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry zapytania", 400, queryResult.error.format());
+    }
+
+    if (queryResult.data.all && !(await isAdmin(supabase, user.id))) {
+      return createErrorResponse("Brak uprawnień do wykonania tej operacji", 403);
+    }
+
+    // 3. Fetch employees
+    let employeesQuery = supabase
+      .from("users")
+      .select("id, first_name, last_name")
+      .order("last_name", { ascending: true });
+
+    if (!queryResult.data.all) {
+      employeesQuery = employeesQuery.eq("manager_id", user.id);
+    }
+
+    const { data: employees, error: employeesError } = await employeesQuery;
+
+    if (employeesError || !employees) {
+      console.error("Error fetching participants:", employeesError);
+      return createErrorResponse("Wystąpił błąd podczas pobierania pracowników", 500);
+    }
+
+    // 4. Resolve workflow status of every employee
+    const { data, error, statusCode } = await getParticipantStatuses(supabase, validationResult.data, employees);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się pobrać statusów uczestników", statusCode || 500);
+    }
+
+    const response: ParticipantStatusListResponse = { participants: data };
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/participants endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
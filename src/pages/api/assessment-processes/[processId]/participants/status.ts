@@ -0,0 +1,98 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ParticipantStatusListResponse } from "../../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../lib/api-utils";
+import { isAdmin } from "../../../../../lib/auth-utils";
+import { updateParticipantsStatus } from "../../../../../lib/services/participant-status.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const updateParticipantsStatusSchema = z.object({
+  status: z.enum(["in_definition", "in_progress", "in_self_assessment", "awaiting_manager_assessment", "completed"]),
+  employeeIds: z
+    .array(z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }))
+    .min(1, { message: "Lista pracowników nie może być pusta" })
+    .optional(),
+  reason: z.string().trim().max(500, { message: "Uzasadnienie może mieć maksymalnie 500 znaków" }).optional(),
+});
+
+// PUT /assessment-processes/{processId}/participants/status - Move the user's reports to another status
+export const PUT: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers and administrators)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, ["admin", "manager"]);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    // 3. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const bodyResult = updateParticipantsStatusSchema.safeParse(requestBody);
+    if (!bodyResult.success) {
+      return createErrorResponse("Nieprawidłowe dane wejściowe", 400, bodyResult.error.format());
+    }
+
+    const { status, employeeIds, reason } = bodyResult.data;
+
+    // 4. Resolve employees to move (direct reports by default)
+    let employeesQuery = supabase.from("users").select("id, first_name, last_name, manager_id");
+    employeesQuery = employeeIds ? employeesQuery.in("id", employeeIds) : employeesQuery.eq("manager_id", user.id);
+
+    const { data: employees, error: employeesError } = await employeesQuery;
+
+    if (employeesError || !employees) {
+      console.error("Error fetching participants:", employeesError);
+      return createErrorResponse("Wystąpił błąd podczas pobierania pracowników", 500);
+    }
+
+    if (employees.length === 0) {
+      return createErrorResponse("Brak pracowników do przeniesienia", 400);
+    }
+
+    if (employeeIds && employees.length !== new Set(employeeIds).size) {
+      return createErrorResponse("Część pracowników o podanych identyfikatorach nie istnieje", 404);
+    }
+
+    // 5. Managers can only move their own reports
+    const movesOnlyOwnReports = employees.every((employee) => employee.manager_id === user.id);
+    if (!movesOnlyOwnReports && !(await isAdmin(supabase, user.id))) {
+      return createErrorResponse("Brak uprawnień do zmiany statusu tych pracowników", 403);
+    }
+
+    // 6. Update participant status
+    const { data, error, statusCode, details } = await updateParticipantsStatus(supabase, {
+      processId: validationResult.data,
+      employees,
+      status,
+      changedBy: user.id,
+      reason,
+    });
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zmienić statusu uczestników", statusCode || 500, details);
+    }
+
+    const response: ParticipantStatusListResponse = { participants: data };
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in PUT /assessment-processes/{processId}/participants/status endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,98 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { SharedGoalResponse } from "../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { goalSchema } from "../../../../lib/goal-schema";
+import { createSharedGoal } from "../../../../lib/services/shared-goal.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const createSharedGoalSchema = goalSchema.omit({ weight: true }).extend({
+  assignments: z
+    .array(
+      z.object({
+        employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }),
+        weight: goalSchema.shape.weight,
+      })
+    )
+    .min(1, { message: "Wybierz co najmniej jednego pracownika" })
+    .max(100, { message: "Można wybrać maksymalnie 100 pracowników" })
+    .refine((assignments) => new Set(assignments.map((a) => a.employeeId)).size === assignments.length, {
+      message: "Pracownik może zostać wybrany tylko raz",
+    }),
+});
+
+// POST /assessment-processes/{processId}/shared-goals - Create one goal shared by several direct reports
+export const POST: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "manager");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const processIdResult = processIdSchema.safeParse(params.processId);
+    if (!processIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, processIdResult.error.format());
+    }
+
+    // 3. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = createSharedGoalSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    const command = validationResult.data;
+    const employeeIds = command.assignments.map((assignment) => assignment.employeeId);
+
+    // 4. Check that the caller manages every selected employee
+    const { data: employees, error: employeesError } = await supabase
+      .from("users")
+      .select("id, first_name, last_name")
+      .eq("manager_id", user.id)
+      .in("id", employeeIds);
+
+    if (employeesError || !employees) {
+      return createErrorResponse("Wystąpił błąd podczas pobierania pracowników", 500);
+    }
+
+    if (employees.length !== employeeIds.length) {
+      const managedIds = new Set(employees.map((employee) => employee.id));
+      return createErrorResponse("Brak uprawnień do utworzenia celu dla części pracowników", 403, {
+        employeeIds: employeeIds.filter((id) => !managedIds.has(id)),
+      });
+    }
+
+    // 5. Create the definition and its assignments, collecting per-employee failures
+    const { data, error, statusCode } = await createSharedGoal(
+      supabase,
+      processIdResult.data,
+      user.id,
+      command,
+      employees
+    );
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się utworzyć celu wspólnego", statusCode || 500);
+    }
+
+    const response: SharedGoalResponse = data;
+    return createApiResponse(response, data.sharedGoalId ? 201 : 200);
+  } catch (error) {
+    console.error("Error in POST /assessment-processes/{processId}/shared-goals endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { StatusHistoryResponse } from "../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { getStatusHistory } from "../../../../lib/services/process-status-history.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+const queryParamsSchema = z.object({
+  // Limits participant transitions to a single employee
+  employeeId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora pracownika" }).optional(),
+});
+
+// GET /assessment-processes/{processId}/status-history - List status transitions of the process
+export const GET: APIRoute = async ({ params, url, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID and query parameters
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    const queryResult = queryParamsSchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!queryResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry zapytania", 400, queryResult.error.format());
+    }
+
+    // 3. Fetch history
+    const { data, error, statusCode } = await getStatusHistory(
+      supabase,
+      validationResult.data,
+      queryResult.data.employeeId
+    );
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się pobrać historii statusu", statusCode || 500);
+    }
+
+    const response: StatusHistoryResponse = { history: data };
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/status-history endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -1,9 +1,16 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 import type { UpdateAssessmentProcessStatusResponse, AssessmentProcessStatus } from "../../../../types";
-import { requireAuth } from "../../../../lib/auth-utils";
-import type { SupabaseClient } from "@supabase/supabase-js";
-import type { Database } from "../../../../db/database.types";
+import { requireRole } from "../../../../lib/auth-utils";
+import { recordStatusChange } from "../../../../lib/services/process-status-history.service";
+import {
+  ALLOWED_STATUS_TRANSITIONS,
+  getInheritingParticipants,
+} from "../../../../lib/services/participant-status.service";
+import {
+  findParticipantsWithInvalidWeights,
+  REQUIRED_TOTAL_WEIGHT,
+} from "../../../../lib/services/goal-weight.service";
 
 export const prerender = false;
 
@@ -12,24 +19,18 @@ const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identy
 
 // Schemat walidacji danych do aktualizacji statusu
 const statusUpdateSchema = z.object({
-  status: z.enum(["in_definition", "in_self_assessment", "awaiting_manager_assessment", "completed"]),
+  status: z.enum(["in_definition", "in_progress", "in_self_assessment", "awaiting_manager_assessment", "completed"]),
+  reason: z.string().trim().max(500, { message: "Uzasadnienie może mieć maksymalnie 500 znaków" }).optional(),
 });
 
-// Mapa dozwolonych przejść statusów
-const allowedStatusTransitions: Record<AssessmentProcessStatus, AssessmentProcessStatus[]> = {
-  // Forward and backward
-  in_definition: ["in_self_assessment"],
-  in_self_assessment: ["in_definition", "awaiting_manager_assessment"],
-  awaiting_manager_assessment: ["in_self_assessment", "completed"],
-  completed: ["awaiting_manager_assessment"],
-};
-
 export const PUT: APIRoute = async ({ params, request, locals }) => {
   try {
     const supabase = locals.supabase;
 
-    // Sprawdź czy użytkownik jest zalogowany
-    const { user, error } = await requireAuth(supabase);
+    // Sprawdź czy użytkownik jest zalogowany i jest administratorem.
+    // Status procesu jest domyślnym statusem dla wszystkich uczestników; menedżerowie
+    // przesuwają swoich pracowników przez /participants/status
+    const { user, error } = await requireRole(supabase, "admin");
 
     if (error || !user) {
       return new Response(
@@ -99,24 +100,6 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       );
     }
 
-    // Sprawdź czy użytkownik ma uprawnienia (administrator lub menedżer)
-    const isAdmin = await checkIfUserIsAdmin(supabase, user.id);
-    const isManager = await checkIfUserIsManager(supabase, user.id);
-
-    if (!isAdmin && !isManager) {
-      return new Response(
-        JSON.stringify({
-          error: "Brak uprawnień do wykonania tej operacji",
-        }),
-        {
-          status: 403,
-          headers: {
-            "Content-Type": "application/json",
-          },
-        }
-      );
-    }
-
     // Parsuj i waliduj dane wejściowe
     let body;
     try {
@@ -156,7 +139,7 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
     const currentStatus = processData.status as AssessmentProcessStatus;
 
     // Sprawdź czy przejście statusu jest dozwolone
-    if (!allowedStatusTransitions[currentStatus].includes(newStatus)) {
+    if (!ALLOWED_STATUS_TRANSITIONS[currentStatus].includes(newStatus)) {
       return new Response(
         JSON.stringify({
           error: `Niedozwolone przejście statusu z '${currentStatus}' do '${newStatus}'`,
@@ -170,6 +153,43 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       );
     }
 
+    // Po zakończeniu definiowania cele wszystkich uczestników podążających za statusem procesu muszą mieć sumę wag 100%
+    if (currentStatus === "in_definition") {
+      const { data: participants, error: participantsError } = await getInheritingParticipants(supabase, processId);
+      const { data: invalidWeights, error: weightError } = participants
+        ? await findParticipantsWithInvalidWeights(supabase, processId, participants)
+        : { data: null, error: participantsError };
+
+      if (weightError || !invalidWeights) {
+        return new Response(
+          JSON.stringify({
+            error: "Błąd podczas sprawdzania wag celów uczestników",
+          }),
+          {
+            status: 500,
+            headers: {
+              "Content-Type": "application/json",
+            },
+          }
+        );
+      }
+
+      if (invalidWeights.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: `Suma wag celów musi wynosić ${REQUIRED_TOTAL_WEIGHT}% dla każdego uczestnika przed zakończeniem definiowania celów`,
+            details: { participants: invalidWeights },
+          }),
+          {
+            status: 400,
+            headers: {
+              "Content-Type": "application/json",
+            },
+          }
+        );
+      }
+    }
+
     // Aktualizuj status procesu
     const now = new Date().toISOString();
     const { data: updatedProcess, error: updateError } = await supabase
@@ -193,6 +213,16 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       );
     }
 
+    // Zapisz przejście w historii statusu; status jest już zmieniony, więc błąd zapisu historii tylko logujemy
+    await recordStatusChange(supabase, {
+      processId,
+      fromStatus: currentStatus,
+      toStatus: newStatus,
+      changedBy: user.id,
+      reason: statusValidationResult.data.reason,
+      changedAt: now,
+    });
+
     // Przygotuj odpowiedź
     const response: UpdateAssessmentProcessStatusResponse = {
       id: updatedProcess.id,
@@ -223,17 +253,3 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
     );
   }
 };
-
-// Funkcja pomocnicza do sprawdzania, czy użytkownik jest administratorem
-async function checkIfUserIsAdmin(supabase: SupabaseClient<Database>, userId: string): Promise<boolean> {
-  const { data, error } = await supabase.from("admins").select("user_id").eq("user_id", userId).single();
-
-  return !error && !!data;
-}
-
-// Funkcja pomocnicza do sprawdzania, czy użytkownik jest menedżerem
-async function checkIfUserIsManager(supabase: SupabaseClient<Database>, userId: string): Promise<boolean> {
-  const { data, error } = await supabase.from("users").select("id").eq("manager_id", userId).limit(1);
-
-  return !error && data.length > 0;
-}
@@ -0,0 +1,68 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { TeamSummaryResponse } from "../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { getProcessRatingScale } from "../../../../lib/services/rating-scale.service";
+import { getTeamScoreSummaries } from "../../../../lib/services/scoring.service";
+
+export const prerender = false;
+
+// Validation schemas
+const processIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora procesu" });
+
+// GET /assessment-processes/{processId}/team-summary - Results of the manager's direct reports
+export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "manager");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate process ID
+    const validationResult = processIdSchema.safeParse(params.processId);
+    if (!validationResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora procesu", 400, validationResult.error.format());
+    }
+
+    const processId = validationResult.data;
+
+    // 3. Fetch rating scale (also verifies that the process exists)
+    const {
+      data: ratingScale,
+      error: scaleError,
+      statusCode: scaleStatusCode,
+    } = await getProcessRatingScale(supabase, processId);
+
+    if (scaleError || !ratingScale) {
+      return createErrorResponse(scaleError || "Nie udało się pobrać skali ocen", scaleStatusCode || 500);
+    }
+
+    // 4. Fetch direct reports
+    const { data: employees, error: employeesError } = await supabase
+      .from("users")
+      .select("id, first_name, last_name")
+      .eq("manager_id", user.id)
+      .order("last_name", { ascending: true });
+
+    if (employeesError || !employees) {
+      console.error("Error fetching team members:", employeesError);
+      return createErrorResponse("Wystąpił błąd podczas pobierania pracowników", 500);
+    }
+
+    // 5. Calculate results of the whole team
+    const { data, error, statusCode } = await getTeamScoreSummaries(supabase, processId, employees);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się obliczyć wyników zespołu", statusCode || 500);
+    }
+
+    const response: TeamSummaryResponse = { members: data, ratingScale };
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in GET /assessment-processes/{processId}/team-summary endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -1,18 +1,51 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import type { AssessmentProcessDTO, AssessmentProcessListResponse, AssessmentProcessStatus } from "../../../types";
+import type {
+  AssessmentProcessDTO,
+  AssessmentProcessListResponse,
+  AssessmentProcessStatus,
+  CreateAssessmentProcessCommand,
+} from "../../../types";
 import { requireAuth } from "../../../lib/auth-utils";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { parseRatingScale, ratingScaleSchema } from "../../../lib/rating-scale";
+import { createAssessmentProcess } from "../../../lib/services/assessment-process.service";
 
 export const prerender = false;
 
 // Validation schema for filtering parameters
 const assessmentProcessFilterSchema = z.object({
-  status: z.enum(["in_definition", "in_self_assessment", "awaiting_manager_assessment", "completed"]).optional(),
+  status: z
+    .enum(["in_definition", "in_progress", "in_self_assessment", "awaiting_manager_assessment", "completed"])
+    .optional(),
   active: z.coerce.boolean().optional(),
   page: z.coerce.number().int().positive().optional().default(1),
   limit: z.coerce.number().int().positive().max(100).optional().default(10),
 });
 
+// Validation schema for creating a process (mirrors the valid_date_range constraint)
+const createAssessmentProcessSchema = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(3, { message: "Nazwa procesu musi mieć minimum 3 znaki" })
+      .max(100, { message: "Nazwa procesu nie może przekraczać 100 znaków" }),
+    description: z
+      .string()
+      .max(1000, { message: "Opis procesu nie może przekraczać 1000 znaków" })
+      .nullable()
+      .optional(),
+    startDate: z.string().date("Nieprawidłowy format daty rozpoczęcia (RRRR-MM-DD)"),
+    endDate: z.string().date("Nieprawidłowy format daty zakończenia (RRRR-MM-DD)"),
+    isActive: z.boolean().optional(),
+    ratingScale: ratingScaleSchema.optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "Data zakończenia nie może być wcześniejsza niż data rozpoczęcia",
+    path: ["endDate"],
+  });
+
 export const GET: APIRoute = async ({ request, locals }) => {
   try {
     const supabase = locals.supabase;
@@ -66,7 +99,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
     // Build query with optional filters
     let query = supabase
       .from("assessment_processes")
-      .select("id, title, status, is_active, start_date, end_date", { count: "exact" });
+      .select("id, title, status, is_active, start_date, end_date, rating_scale", { count: "exact" });
 
     if (status) {
       query = query.eq("status", status);
@@ -106,6 +139,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
       active: process.is_active,
       startDate: process.start_date,
       endDate: process.end_date,
+      ratingScale: parseRatingScale(process.rating_scale),
     }));
 
     const response: AssessmentProcessListResponse = {
@@ -137,3 +171,41 @@ export const GET: APIRoute = async ({ request, locals }) => {
     );
   }
 };
+
+// POST /assessment-processes - Create a new assessment process (admins only)
+export const POST: APIRoute = async ({ request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (administrators only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "admin");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate request body
+    let requestBody: CreateAssessmentProcessCommand;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych wejściowych - oczekiwano JSON", 400);
+    }
+
+    const validationResult = createAssessmentProcessSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 3. Create process
+    const { data, error, statusCode } = await createAssessmentProcess(supabase, validationResult.data);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się utworzyć procesu oceny", statusCode || 500);
+    }
+
+    return createApiResponse(data, 201);
+  } catch (error) {
+    console.error("Error in POST /assessment-processes endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
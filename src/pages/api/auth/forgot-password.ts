@@ -0,0 +1,50 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { PASSWORD_RESET_PATH } from "../../../lib/route-guards";
+
+export const prerender = false;
+
+// Validation schemas
+const forgotPasswordSchema = z.object({
+  email: z.string().email({ message: "Nieprawidłowy format adresu email" }),
+});
+
+// POST /auth/forgot-password - Send a password reset link to the given email address
+export const POST: APIRoute = async ({ request, locals, url }) => {
+  try {
+    // 1. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = forgotPasswordSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 2. Send the link to the page for setting a new password
+    const { error } = await locals.supabase.auth.resetPasswordForEmail(validationResult.data.email, {
+      redirectTo: new URL(PASSWORD_RESET_PATH, url.origin).toString(),
+    });
+
+    if (error?.status === 429) {
+      return createErrorResponse("Zbyt wiele prób. Spróbuj ponownie za kilka minut", 429);
+    }
+
+    // 3. The response is the same whether or not the account exists, so it cannot be used to look up users
+    if (error) {
+      console.error("Error sending password reset email:", error);
+    }
+
+    return createApiResponse({
+      message: "Jeśli konto o podanym adresie istnieje, wysłaliśmy na nie link do ustawienia nowego hasła",
+    });
+  } catch (error) {
+    console.error("Error in POST /auth/forgot-password endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 import type { LoginResponse } from "../../../types";
+import { setAuthCookies } from "../../../db/supabase.client";
 
 export const prerender = false;
 
@@ -10,7 +11,7 @@ const loginRequestSchema = z.object({
   password: z.string().min(6, { message: "Hasło musi mieć minimum 6 znaków" }),
 });
 
-export const POST: APIRoute = async ({ request, locals }) => {
+export const POST: APIRoute = async ({ request, cookies, locals }) => {
   try {
     // Parse request body
     const body = await request.json();
@@ -56,9 +57,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    // Keep the session in HTTP-only cookies; the middleware restores it on every request
+    setAuthCookies(cookies, data.session);
+
     // Create response in the required API format
     const response: LoginResponse = {
-      token: data.session.access_token,
       user: {
         id: data.user.id,
         email: data.user.email || "",
@@ -0,0 +1,27 @@
+import type { APIRoute } from "astro";
+import { createErrorResponse } from "../../../lib/api-utils";
+import { clearAuthCookies } from "../../../db/supabase.client";
+
+export const prerender = false;
+
+// POST /auth/logout - End the session of the caller and clear the session cookies
+export const POST: APIRoute = async ({ cookies, locals }) => {
+  try {
+    // 1. Revoke the session restored by the middleware (nothing to revoke for anonymous requests)
+    if (locals.user) {
+      const { error } = await locals.supabase.auth.signOut({ scope: "local" });
+      if (error) {
+        // The cookies are cleared anyway, so the user is logged out of this browser
+        console.error("Error signing out:", error);
+      }
+    }
+
+    // 2. Clear the session cookies
+    clearAuthCookies(cookies);
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error in POST /auth/logout endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
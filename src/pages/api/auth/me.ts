@@ -1,6 +1,6 @@
 import type { APIRoute } from "astro";
 import type { UserProfile } from "../../../types";
-import { requireAuth } from "../../../lib/auth-utils";
+import { isAdmin, requireAuth } from "../../../lib/auth-utils";
 
 export const prerender = false;
 
@@ -62,6 +62,7 @@ export const GET: APIRoute = async ({ locals }) => {
       id: userData.id,
       email: userData.email,
       managerId: userData.manager_id,
+      isAdmin: await isAdmin(supabase, userId),
     };
 
     // Return user data
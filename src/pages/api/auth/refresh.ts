@@ -0,0 +1,39 @@
+import type { APIRoute } from "astro";
+import type { RefreshSessionResponse } from "../../../types";
+import { createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { clearAuthCookies, setAuthCookies } from "../../../db/supabase.client";
+
+export const prerender = false;
+
+// POST /auth/refresh - Issue a new access token for the session in the cookies
+export const POST: APIRoute = async ({ cookies, locals }) => {
+  try {
+    // 1. The middleware drops sessions that are invalid or idle, so only an active session can be refreshed
+    if (!locals.user) {
+      clearAuthCookies(cookies);
+      return createErrorResponse("Sesja wygasła. Zaloguj się ponownie", 401);
+    }
+
+    // 2. Refresh the session restored by the middleware and store the new tokens
+    const { data, error } = await locals.supabase.auth.refreshSession();
+    if (error || !data.session || !data.user) {
+      clearAuthCookies(cookies);
+      return createErrorResponse("Sesja wygasła. Zaloguj się ponownie", 401);
+    }
+
+    setAuthCookies(cookies, data.session);
+
+    const response: RefreshSessionResponse = {
+      user: {
+        id: data.user.id,
+        email: data.user.email || "",
+      },
+      expiresAt: data.session.expires_at ?? null,
+    };
+
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in POST /auth/refresh endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,92 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { LoginResponse } from "../../../types";
+import { createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { setAuthCookies } from "../../../db/supabase.client";
+
+export const prerender = false;
+
+// Authentication methods of sessions created from a password reset or invitation link
+const PASSWORD_LINK_METHODS = ["recovery", "invite"];
+
+// How long after opening the link the password can still be set
+const PASSWORD_LINK_MAX_AGE_SECONDS = 60 * 60;
+
+// Validation schemas
+const resetPasswordSchema = z.object({
+  accessToken: z.string().min(1, { message: "Brak tokenu z linku" }),
+  refreshToken: z.string().min(1, { message: "Brak tokenu z linku" }),
+  password: z.string().min(6, { message: "Hasło musi mieć minimum 6 znaków" }),
+});
+
+// POST /auth/reset-password - Set the password of the user identified by a reset or invitation link and log them in
+export const POST: APIRoute = async ({ request, cookies, locals }) => {
+  try {
+    // 1. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = resetPasswordSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    const { accessToken, refreshToken, password } = validationResult.data;
+
+    // 2. Restore the one-time session carried by the link
+    const supabase = locals.supabase;
+    const { data: sessionData, error: sessionError } = await supabase.auth.setSession({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+    });
+
+    if (sessionError || !sessionData.session) {
+      return createErrorResponse("Link wygasł lub został już wykorzystany. Poproś o nowy", 401);
+    }
+
+    // 3. Only a session created from the link may set the password without the current one -
+    // tokens of an ordinary login are rejected
+    const { data: assurance, error: assuranceError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    const now = Math.floor(Date.now() / 1000);
+    const isPasswordLinkSession =
+      !assuranceError &&
+      assurance.currentAuthenticationMethods.some(
+        (entry) =>
+          PASSWORD_LINK_METHODS.includes(entry.method) && now - entry.timestamp <= PASSWORD_LINK_MAX_AGE_SECONDS
+      );
+
+    if (!isPasswordLinkSession) {
+      return createErrorResponse("Link wygasł lub został już wykorzystany. Poproś o nowy", 401);
+    }
+
+    // 4. Set the new password
+    const { data, error } = await supabase.auth.updateUser({ password });
+    if (error) {
+      if (error.code === "same_password" || error.code === "weak_password") {
+        return createErrorResponse("Hasło nie spełnia wymagań. Wybierz inne hasło", 400);
+      }
+
+      console.error("Error updating password:", error);
+      return createErrorResponse("Nie udało się ustawić hasła", 500);
+    }
+
+    // 5. Keep the session in HTTP-only cookies, so the user is logged in right away
+    setAuthCookies(cookies, sessionData.session);
+
+    const response: LoginResponse = {
+      user: {
+        id: data.user.id,
+        email: data.user.email || "",
+      },
+    };
+
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in POST /auth/reset-password endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,48 @@
+import type { APIRoute } from "astro";
+import { createSupabaseSsoClient } from "../../../db/supabase.client";
+import { LOGIN_NEXT_PARAM, getSafeNextPath } from "../../../lib/route-guards";
+import { getSsoProvider } from "../../../lib/services/sso.service";
+
+export const prerender = false;
+
+// Scopes requested from the OIDC provider; the profile scope carries the name claims
+const SSO_SCOPES = "openid email profile";
+
+// GET /auth/sso - Start single sign-on with the corporate identity provider
+export const GET: APIRoute = async ({ cookies, url, redirect }) => {
+  try {
+    // 1. Single sign-on is available only when the provider is configured
+    const provider = getSsoProvider();
+    if (!provider) {
+      return redirect("/login?error=sso");
+    }
+
+    // 2. The callback returns the user to the page they tried to open
+    const callbackUrl = new URL("/api/auth/sso/callback", url.origin);
+    const next = getSafeNextPath(url.searchParams.get(LOGIN_NEXT_PARAM));
+    if (next) {
+      callbackUrl.searchParams.set(LOGIN_NEXT_PARAM, next);
+    }
+
+    // 3. Get the authorization URL; the PKCE code verifier is stored in a cookie for the callback
+    const supabase = createSupabaseSsoClient(cookies);
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: callbackUrl.toString(),
+        scopes: SSO_SCOPES,
+        skipBrowserRedirect: true,
+      },
+    });
+
+    if (error || !data.url) {
+      console.error("Error starting single sign-on:", error);
+      return redirect("/login?error=sso");
+    }
+
+    return redirect(data.url);
+  } catch (error) {
+    console.error("Error in GET /auth/sso endpoint:", error);
+    return redirect("/login?error=sso");
+  }
+};
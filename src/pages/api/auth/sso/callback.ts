@@ -0,0 +1,51 @@
+import type { APIRoute } from "astro";
+import { createSupabaseAdminClient, createSupabaseSsoClient, setAuthCookies } from "../../../../db/supabase.client";
+import { LOGIN_NEXT_PARAM, getSafeNextPath } from "../../../../lib/route-guards";
+import { getSsoProvider, syncSsoProfile } from "../../../../lib/services/sso.service";
+
+export const prerender = false;
+
+// GET /auth/sso/callback - Finish single sign-on: create the session and update the profile from the provider's claims
+export const GET: APIRoute = async ({ cookies, url, redirect }) => {
+  try {
+    const provider = getSsoProvider();
+    const code = url.searchParams.get("code");
+
+    // 1. The provider redirects back with an error (e.g. the user cancelled) or without a code
+    if (!provider || !code) {
+      const providerError = url.searchParams.get("error_description") || url.searchParams.get("error");
+      if (providerError) {
+        console.error("Single sign-on failed:", providerError);
+      }
+      return redirect("/login?error=sso");
+    }
+
+    // 2. Exchange the authorization code for a session, using the code verifier stored when the sign-on started
+    const supabase = createSupabaseSsoClient(cookies);
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error || !data.session) {
+      console.error("Error exchanging single sign-on code:", error);
+      return redirect("/login?error=sso");
+    }
+
+    // 3. The profile is provisioned by handle_new_user; fill it in with the provider's claims
+    const adminClient = createSupabaseAdminClient();
+    if (adminClient) {
+      const { error: syncError } = await syncSsoProfile(supabase, adminClient, data.user, provider);
+      if (syncError) {
+        // The user can still work; the profile keeps its previous data
+        console.error("Error updating profile after single sign-on:", syncError);
+      }
+    } else {
+      console.error("Profile not updated after single sign-on: SUPABASE_SERVICE_ROLE_KEY is not set");
+    }
+
+    // 4. Keep the session in HTTP-only cookies, like a password login
+    setAuthCookies(cookies, data.session);
+
+    return redirect(getSafeNextPath(url.searchParams.get(LOGIN_NEXT_PARAM)) ?? "/dashboard");
+  } catch (error) {
+    console.error("Error in GET /auth/sso/callback endpoint:", error);
+    return redirect("/login?error=sso");
+  }
+};
@@ -2,32 +2,31 @@ import type { APIRoute } from "astro";
 import { z } from "zod";
 import type { UpdateGoalCommand, GoalResponse, GoalDetailDTO } from "../../../types";
 import { requireAuth } from "../../../lib/auth-utils";
+import { getParticipantStatus } from "../../../lib/services/participant-status.service";
+import { alignedGoalSchema } from "../../../lib/goal-schema";
+import { validateParentGoal } from "../../../lib/services/goal-alignment.service";
+import { toGoalMetricColumns, toGoalMetricDTO } from "../../../lib/goal-metrics";
+import { updateSharedGoalAssignment, type SharedGoalAssignmentUpdate } from "../../../lib/services/shared-goal.service";
+import {
+  REQUIRED_TOTAL_WEIGHT,
+  WEIGHT_LIMIT_VIOLATION,
+  getTotalGoalWeight,
+  getWeightWarnings,
+} from "../../../lib/services/goal-weight.service";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../../../db/database.types";
 
 export const prerender = false;
 
+// Goal columns returned after an update
+const GOAL_RESPONSE_COLUMNS =
+  "id, title, description, weight, shared_goal_id, parent_goal_id, metric_name, metric_unit, baseline_value, target_value, actual_value";
+
 // Validation schemas
 const pathParamsSchema = z.object({
   goalId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora celu" }),
 });
 
-const updateGoalSchema = z.object({
-  title: z
-    .string()
-    .min(5, { message: "Tytuł celu musi mieć minimum 5 znaków" })
-    .max(50, { message: "Tytuł celu nie może przekraczać 50 znaków" }),
-  description: z
-    .string()
-    .min(5, { message: "Opis celu musi mieć minimum 5 znaków" })
-    .max(500, { message: "Opis celu nie może przekraczać 500 znaków" }),
-  weight: z
-    .number()
-    .min(0, { message: "Waga celu musi być większa lub równa 0%" })
-    .max(100, { message: "Waga celu nie może przekraczać 100%" }),
-  categoryId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora kategorii" }),
-});
-
 // Helper function to create API responses
 function createApiResponse<T>(data: T, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -67,9 +66,12 @@ async function checkGoalAccessPermission(supabase: SupabaseClient<Database>, goa
       `
       id, 
       user_id,
-      assessment_processes:assessment_process_id (
-        status
-      )
+      assessment_process_id,
+      title,
+      description,
+      category_id,
+      shared_goal_id,
+      parent_goal_id
     `
     )
     .eq("id", goalId)
@@ -148,6 +150,13 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
         title,
         description, 
         weight,
+        shared_goal_id,
+        parent_goal_id,
+        metric_name,
+        metric_unit,
+        baseline_value,
+        target_value,
+        actual_value,
         goal_categories:category_id (
           id,
           name
@@ -180,6 +189,9 @@ export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
         id: goalDetails.goal_categories?.id || "",
         name: goalDetails.goal_categories?.name || "Bez kategorii",
       },
+      sharedGoalId: goalDetails.shared_goal_id,
+      parentGoalId: goalDetails.parent_goal_id,
+      metric: toGoalMetricDTO(goalDetails),
       employee: {
         id: goalDetails.users.id,
         name: `${goalDetails.users.first_name} ${goalDetails.users.last_name}`,
@@ -224,22 +236,26 @@ export const PUT: APIRoute = async ({ request, params, locals }): Promise<Respon
       return createErrorResponse("Nieprawidłowy format danych wejściowych - oczekiwano JSON", 400);
     }
 
-    const validationResult = updateGoalSchema.safeParse(requestBody);
+    const validationResult = alignedGoalSchema.safeParse(requestBody);
     if (!validationResult.success) {
       return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
     }
 
-    const { title, description, weight, categoryId } = validationResult.data;
+    const { title, description, weight, categoryId, parentGoalId, metric } = validationResult.data;
 
     // 4. Check access permission and get goal with process status
     const { hasAccess, error: accessError, goal } = await checkGoalAccessPermission(supabase, goalId, user.id);
 
     if (!hasAccess) return accessError;
 
-    // 5. Verify process is in 'in_definition' status
-    if (goal?.assessment_processes?.status !== "in_definition") {
-      return createErrorResponse("Cele można aktualizować tylko dla procesów w fazie definiowania", 400, {
-        details: `Aktualny status procesu: ${goal?.assessment_processes?.status || "unknown"}`,
+    // 5. Verify the goal owner is still in the 'in_definition' phase
+    const { data: participantStatus } = goal
+      ? await getParticipantStatus(supabase, goal.assessment_process_id, goal.user_id)
+      : { data: null };
+
+    if (participantStatus !== "in_definition") {
+      return createErrorResponse("Cele można aktualizować tylko dla pracowników w fazie definiowania", 400, {
+        details: `Aktualny status pracownika w procesie: ${participantStatus || "unknown"}`,
       });
     }
 
@@ -254,24 +270,88 @@ export const PUT: APIRoute = async ({ request, params, locals }): Promise<Respon
       return createErrorResponse("Kategoria celu o podanym identyfikatorze nie istnieje", 404);
     }
 
-    // 7. Update goal in database
-    const { data: updatedGoal, error: updateError } = await supabase
-      .from("goals")
-      .update({
-        title,
-        description,
-        weight,
-        category_id: categoryId,
-      })
-      .eq("id", goalId)
-      .select("id, title, description, weight")
-      .single();
+    // 7. Check that the total weight of the owner's other goals plus this one stays within the limit
+    const { data: otherGoalsWeight, error: weightError } = goal
+      ? await getTotalGoalWeight(supabase, goal.assessment_process_id, goal.user_id, goalId)
+      : { data: null, error: undefined };
+
+    if (weightError || otherGoalsWeight === null) {
+      return createErrorResponse(weightError || "Wystąpił błąd podczas obliczania sumy wag celów", 500);
+    }
+
+    if (otherGoalsWeight + weight > REQUIRED_TOTAL_WEIGHT) {
+      return createErrorResponse(`Suma wag celów nie może przekraczać ${REQUIRED_TOTAL_WEIGHT}%`, 400, {
+        currentTotalWeight: otherGoalsWeight,
+        maxWeight: REQUIRED_TOTAL_WEIGHT - otherGoalsWeight,
+      });
+    }
+
+    // 7.1 Check that a new parent goal belongs to the owner's manager in the same process
+    if (goal && parentGoalId && parentGoalId !== goal.parent_goal_id) {
+      const { error: parentError, statusCode: parentStatusCode } = await validateParentGoal(
+        supabase,
+        goal.assessment_process_id,
+        goal.user_id,
+        parentGoalId
+      );
+
+      if (parentError) {
+        return createErrorResponse(parentError, parentStatusCode || 400);
+      }
+    }
+
+    // 8. Shared goals keep their definition in shared_goals - only managers may change it
+    const definitionChanged =
+      goal !== null &&
+      (goal.title !== title || (goal.description || "") !== description || goal.category_id !== categoryId);
+
+    // An omitted parentGoalId or metric keeps the current value, null removes it
+    const assignment: SharedGoalAssignmentUpdate = {
+      weight,
+      ...(parentGoalId !== undefined && { parent_goal_id: parentGoalId }),
+      ...(metric !== undefined && toGoalMetricColumns(metric)),
+    };
+
+    if (goal?.shared_goal_id && definitionChanged) {
+      if (goal.user_id === user.id) {
+        return createErrorResponse("Definicję celu wspólnego może zmienić tylko kierownik", 403);
+      }
+
+      // The definition and this assignment are saved together, so a failure cannot leave teammates' goals changed
+      const { error: sharedError, statusCode } = await updateSharedGoalAssignment(
+        supabase,
+        goalId,
+        { title, description, categoryId },
+        assignment
+      );
+
+      if (sharedError) {
+        return createErrorResponse(sharedError, statusCode || 500);
+      }
+    }
+
+    // 9. Update goal in database (assignments of a shared goal only store their own columns);
+    // an assignment saved together with its definition above is only read back
+    const sharedGoalSaved = !!goal?.shared_goal_id && definitionChanged;
+    const { data: updatedGoal, error: updateError } = sharedGoalSaved
+      ? await supabase.from("goals").select(GOAL_RESPONSE_COLUMNS).eq("id", goalId).single()
+      : await supabase
+          .from("goals")
+          .update({ ...(goal?.shared_goal_id ? {} : { title, description, category_id: categoryId }), ...assignment })
+          .eq("id", goalId)
+          .select(GOAL_RESPONSE_COLUMNS)
+          .single();
+
+    // The database rejects the weight when a concurrent request has meanwhile used up the remaining weight
+    if (updateError?.code === WEIGHT_LIMIT_VIOLATION) {
+      return createErrorResponse(`Suma wag celów nie może przekraczać ${REQUIRED_TOTAL_WEIGHT}%`, 409);
+    }
 
     if (updateError || !updatedGoal) {
       return createErrorResponse("Wystąpił błąd podczas aktualizacji celu", 500, { details: updateError?.message });
     }
 
-    // 8. Format response
+    // 10. Format response
     const response: GoalResponse = {
       id: updatedGoal.id,
       title: updatedGoal.title || "",
@@ -281,7 +361,10 @@ export const PUT: APIRoute = async ({ request, params, locals }): Promise<Respon
         id: category.id,
         name: category.name,
       },
-      validationErrors: [],
+      sharedGoalId: updatedGoal.shared_goal_id,
+      parentGoalId: updatedGoal.parent_goal_id,
+      metric: toGoalMetricDTO(updatedGoal),
+      validationErrors: getWeightWarnings(otherGoalsWeight + updatedGoal.weight),
     };
 
     return createApiResponse(response);
@@ -315,10 +398,14 @@ export const DELETE: APIRoute = async ({ params, locals }): Promise<Response> =>
 
     if (!hasAccess) return accessError;
 
-    // 4. Verify process is in 'in_definition' status
-    if (goal?.assessment_processes?.status !== "in_definition") {
-      return createErrorResponse("Cele można usuwać tylko dla procesów w fazie definiowania", 400, {
-        details: `Aktualny status procesu: ${goal?.assessment_processes?.status || "unknown"}`,
+    // 4. Verify the goal owner is still in the 'in_definition' phase
+    const { data: participantStatus } = goal
+      ? await getParticipantStatus(supabase, goal.assessment_process_id, goal.user_id)
+      : { data: null };
+
+    if (participantStatus !== "in_definition") {
+      return createErrorResponse("Cele można usuwać tylko dla pracowników w fazie definiowania", 400, {
+        details: `Aktualny status pracownika w procesie: ${participantStatus || "unknown"}`,
       });
     }
 
@@ -1,6 +1,5 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import { supabaseClient } from "../../../../db/supabase.client";
 import { requireAuth } from "../../../../lib/auth-utils";
 import {
   validateProcessStatus,
@@ -11,11 +10,11 @@ import type { CreateAssessmentCommand } from "../../../../types";
 
 // Schema for validating request body
 const createManagerAssessmentSchema = z.object({
-  rating: z.number().min(0).max(150).describe("Rating (0-150%)"),
+  rating: z.number().int().describe("Rating within the process rating scale"),
   comments: z.string().nullable().describe("Optional comments"),
 });
 
-export const GET: APIRoute = async ({ params }) => {
+export const GET: APIRoute = async ({ params, locals }) => {
   // 1. Extract goal ID from params
   const { goalId } = params;
   if (!goalId) {
@@ -26,7 +25,7 @@ export const GET: APIRoute = async ({ params }) => {
   }
 
   // 2. Authenticate user
-  const supabase = supabaseClient;
+  const supabase = locals.supabase;
   const { user, error: authError } = await requireAuth(supabase);
   if (authError || !user) {
     return new Response(JSON.stringify({ error: "Użytkownik niezalogowany" }), {
@@ -66,7 +65,7 @@ export const GET: APIRoute = async ({ params }) => {
   });
 };
 
-export const POST: APIRoute = async ({ params, request }) => {
+export const POST: APIRoute = async ({ params, request, locals }) => {
   // 1. Extract goal ID from params
   const { goalId } = params;
   if (!goalId) {
@@ -77,7 +76,7 @@ export const POST: APIRoute = async ({ params, request }) => {
   }
 
   // 2. Authenticate user
-  const supabase = supabaseClient;
+  const supabase = locals.supabase;
   const { user, error: authError } = await requireAuth(supabase);
   if (authError || !user) {
     return new Response(JSON.stringify({ error: "Użytkownik niezalogowany" }), {
@@ -0,0 +1,144 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { GoalProgressResponse } from "../../../../types";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../lib/api-utils";
+import { isAdmin } from "../../../../lib/auth-utils";
+import {
+  createProgressEntry,
+  getGoalProgress,
+  getGoalProgressAccess,
+} from "../../../../lib/services/goal-progress.service";
+
+export const prerender = false;
+
+// Validation schemas
+const goalIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora celu" });
+
+const createProgressEntrySchema = z.object({
+  progress: z
+    .number({ invalid_type_error: "Postęp musi być liczbą" })
+    .int({ message: "Postęp musi być liczbą całkowitą" })
+    .min(0, { message: "Postęp nie może być mniejszy niż 0%" })
+    .max(100, { message: "Postęp nie może przekraczać 100%" }),
+  note: z
+    .string()
+    .trim()
+    .min(1, { message: "Opis postępu jest wymagany" })
+    .max(1000, { message: "Opis postępu nie może przekraczać 1000 znaków" }),
+  entryDate: z.string().date("Nieprawidłowy format daty wpisu (RRRR-MM-DD)").optional(),
+});
+
+// GET /goals/{goalId}/progress - Progress log of the goal
+export const GET: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate goal ID
+    const goalIdResult = goalIdSchema.safeParse(params.goalId);
+    if (!goalIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora celu", 400, goalIdResult.error.format());
+    }
+
+    const goalId = goalIdResult.data;
+
+    // 3. Only the goal owner, their manager and admins can read the log
+    const {
+      data: access,
+      error: accessError,
+      statusCode: accessStatusCode,
+    } = await getGoalProgressAccess(supabase, goalId, user.id);
+    if (accessError || !access) {
+      return createErrorResponse(accessError || "Nie udało się sprawdzić uprawnień", accessStatusCode || 500);
+    }
+
+    if (!access.isOwner && !access.isManager && !(await isAdmin(supabase, user.id))) {
+      return createErrorResponse("Nie masz uprawnień do tego celu", 403);
+    }
+
+    // 4. Fetch the log
+    const { data: entries, error, statusCode } = await getGoalProgress(supabase, goalId);
+    if (error || !entries) {
+      return createErrorResponse(error || "Nie udało się pobrać postępów celu", statusCode || 500);
+    }
+
+    const response: GoalProgressResponse = {
+      entries,
+      canAddEntry: access.isOwner && access.isOpen,
+      canReply: access.isManager && access.isOpen,
+    };
+
+    return createApiResponse(response);
+  } catch (error) {
+    console.error("Error in GET /goals/[goalId]/progress endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
+
+// POST /goals/{goalId}/progress - Post a progress entry (goal owner only)
+export const POST: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate goal ID
+    const goalIdResult = goalIdSchema.safeParse(params.goalId);
+    if (!goalIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora celu", 400, goalIdResult.error.format());
+    }
+
+    const goalId = goalIdResult.data;
+
+    // 3. Only the goal owner can post entries, and only while the goal is being worked on
+    const {
+      data: access,
+      error: accessError,
+      statusCode: accessStatusCode,
+    } = await getGoalProgressAccess(supabase, goalId, user.id);
+    if (accessError || !access) {
+      return createErrorResponse(accessError || "Nie udało się sprawdzić uprawnień", accessStatusCode || 500);
+    }
+
+    if (!access.isOwner) {
+      return createErrorResponse("Tylko właściciel celu może dodawać wpisy postępu", 403);
+    }
+
+    if (!access.isOpen) {
+      return createErrorResponse("Postępy można dodawać tylko w fazie realizacji celów lub samooceny", 403);
+    }
+
+    // 4. Validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych wejściowych - oczekiwano JSON", 400);
+    }
+
+    const validationResult = createProgressEntrySchema.safeParse(body);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 5. Save the entry
+    const { data, error, statusCode } = await createProgressEntry(supabase, goalId, user.id, validationResult.data);
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zapisać postępu celu", statusCode || 500);
+    }
+
+    return createApiResponse(data, 201);
+  } catch (error) {
+    console.error("Error in POST /goals/[goalId]/progress endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
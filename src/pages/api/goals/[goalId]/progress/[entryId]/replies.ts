@@ -0,0 +1,89 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../../../../lib/api-utils";
+import { createProgressReply, getGoalProgressAccess } from "../../../../../../lib/services/goal-progress.service";
+
+export const prerender = false;
+
+// Validation schemas
+const pathParamsSchema = z.object({
+  goalId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora celu" }),
+  entryId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora wpisu" }),
+});
+
+const createReplySchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .min(1, { message: "Treść odpowiedzi jest wymagana" })
+    .max(1000, { message: "Odpowiedź nie może przekraczać 1000 znaków" }),
+});
+
+// POST /goals/{goalId}/progress/{entryId}/replies - Manager's reply to a progress entry
+export const POST: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate path parameters
+    const pathParamsResult = pathParamsSchema.safeParse(params);
+    if (!pathParamsResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry ścieżki", 400, pathParamsResult.error.format());
+    }
+
+    const { goalId, entryId } = pathParamsResult.data;
+
+    // 3. Only the manager of the goal owner can reply, and only while the goal is being worked on
+    const {
+      data: access,
+      error: accessError,
+      statusCode: accessStatusCode,
+    } = await getGoalProgressAccess(supabase, goalId, user.id);
+    if (accessError || !access) {
+      return createErrorResponse(accessError || "Nie udało się sprawdzić uprawnień", accessStatusCode || 500);
+    }
+
+    if (!access.isManager) {
+      return createErrorResponse("Tylko kierownik właściciela celu może odpowiadać na wpisy postępu", 403);
+    }
+
+    if (!access.isOpen) {
+      return createErrorResponse("Na postępy można odpowiadać tylko w fazie realizacji celów lub samooceny", 403);
+    }
+
+    // 4. Validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych wejściowych - oczekiwano JSON", 400);
+    }
+
+    const validationResult = createReplySchema.safeParse(body);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 5. Save the reply
+    const { data, error, statusCode } = await createProgressReply(
+      supabase,
+      goalId,
+      entryId,
+      user.id,
+      validationResult.data
+    );
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zapisać odpowiedzi", statusCode || 500);
+    }
+
+    return createApiResponse(data, 201);
+  } catch (error) {
+    console.error("Error in POST /goals/[goalId]/progress/[entryId]/replies endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -1,6 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import type { CreateAssessmentCommand } from "../../../../types";
+import type { CreateSelfAssessmentCommand } from "../../../../types";
 import { requireAuth } from "../../../../lib/auth-utils";
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../../../../db/database.types";
@@ -18,11 +18,10 @@ const pathParamsSchema = z.object({
 });
 
 const createAssessmentSchema = z.object({
-  rating: z
-    .number()
-    .min(0, { message: "Ocena nie może być mniejsza niż 0%" })
-    .max(150, { message: "Ocena nie może być większa niż 150%" }),
+  // The allowed range depends on the process rating scale and is checked by the service
+  rating: z.number().int({ message: "Ocena musi być liczbą całkowitą" }),
   comments: z.string().max(500, { message: "Komentarz nie może przekraczać 500 znaków" }).nullable().optional(),
+  actualValue: z.number({ invalid_type_error: "Wartość rzeczywista musi być liczbą" }).nullable().optional(),
 });
 
 // Helper function to create API responses
@@ -185,7 +184,7 @@ export const POST: APIRoute = async ({ request, params, locals }): Promise<Respo
     }
 
     // 5. Validate request body
-    let requestBody: CreateAssessmentCommand;
+    let requestBody: CreateSelfAssessmentCommand;
     try {
       requestBody = await request.json();
     } catch {
@@ -197,12 +196,13 @@ export const POST: APIRoute = async ({ request, params, locals }): Promise<Respo
       return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
     }
 
-    const validatedData: CreateAssessmentCommand = {
+    const validatedData: CreateSelfAssessmentCommand = {
       rating: validationResult.data.rating,
       comments: validationResult.data.comments === undefined ? null : validationResult.data.comments,
+      actualValue: validationResult.data.actualValue,
     };
 
-    // 6. Create or update self-assessment
+    // 6. Create or update self-assessment (with the actual value of a measurable goal)
     const { data, error, statusCode } = await createOrUpdateSelfAssessment(supabase, goalId, user.id, validatedData);
 
     if (error || !data) {
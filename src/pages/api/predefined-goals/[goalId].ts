@@ -0,0 +1,103 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { deletePredefinedGoal, updatePredefinedGoal } from "../../../lib/services/predefined-goal.service";
+
+export const prerender = false;
+
+// Validation schemas
+const goalIdSchema = z.string().uuid({ message: "Nieprawidłowy format identyfikatora celu" });
+
+const updatePredefinedGoalSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(5, { message: "Tytuł celu musi mieć minimum 5 znaków" })
+    .max(50, { message: "Tytuł celu nie może przekraczać 50 znaków" }),
+  description: z
+    .string()
+    .trim()
+    .min(5, { message: "Opis celu musi mieć minimum 5 znaków" })
+    .max(500, { message: "Opis celu nie może przekraczać 500 znaków" }),
+  categoryId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora kategorii" }),
+});
+
+// PUT /predefined-goals/{goalId} - Update a library entry (author or administrator)
+export const PUT: APIRoute = async ({ params, request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate goal ID
+    const goalIdResult = goalIdSchema.safeParse(params.goalId);
+    if (!goalIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora celu", 400, goalIdResult.error.format());
+    }
+
+    // 3. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = updatePredefinedGoalSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 4. Update library entry
+    const { data, error, statusCode } = await updatePredefinedGoal(
+      supabase,
+      goalIdResult.data,
+      user.id,
+      validationResult.data
+    );
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zaktualizować celu z biblioteki", statusCode || 500);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in PUT /predefined-goals/{goalId} endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
+
+// DELETE /predefined-goals/{goalId} - Remove a library entry (author or administrator)
+export const DELETE: APIRoute = async ({ params, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate goal ID
+    const goalIdResult = goalIdSchema.safeParse(params.goalId);
+    if (!goalIdResult.success) {
+      return createErrorResponse("Nieprawidłowy format identyfikatora celu", 400, goalIdResult.error.format());
+    }
+
+    // 3. Delete library entry
+    const { error, statusCode } = await deletePredefinedGoal(supabase, goalIdResult.data, user.id);
+
+    if (error) {
+      return createErrorResponse(error, statusCode || 500);
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error in DELETE /predefined-goals/{goalId} endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
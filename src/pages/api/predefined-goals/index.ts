@@ -0,0 +1,100 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { createPredefinedGoal, listPredefinedGoals } from "../../../lib/services/predefined-goal.service";
+
+export const prerender = false;
+
+// Validation schemas
+const predefinedGoalFilterSchema = z.object({
+  category: z.string().uuid({ message: "Nieprawidłowy format identyfikatora kategorii" }).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
+
+const createPredefinedGoalSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(5, { message: "Tytuł celu musi mieć minimum 5 znaków" })
+    .max(50, { message: "Tytuł celu nie może przekraczać 50 znaków" }),
+  description: z
+    .string()
+    .trim()
+    .min(5, { message: "Opis celu musi mieć minimum 5 znaków" })
+    .max(500, { message: "Opis celu nie może przekraczać 500 znaków" }),
+  categoryId: z.string().uuid({ message: "Nieprawidłowy format identyfikatora kategorii" }),
+});
+
+// GET /predefined-goals - Browse the predefined goal library
+export const GET: APIRoute = async ({ url, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Validate query parameters
+    const queryResult = predefinedGoalFilterSchema.safeParse({
+      category: url.searchParams.get("category") || undefined,
+      page: url.searchParams.get("page") || undefined,
+      limit: url.searchParams.get("limit") || undefined,
+    });
+    if (!queryResult.success) {
+      return createErrorResponse("Nieprawidłowe parametry zapytania", 400, queryResult.error.format());
+    }
+
+    // 3. Fetch library page
+    const { data, error, statusCode } = await listPredefinedGoals(supabase, queryResult.data);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się pobrać biblioteki celów", statusCode || 500);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in GET /predefined-goals endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
+
+// POST /predefined-goals - Add a goal to the library (managers and administrators)
+export const POST: APIRoute = async ({ request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (managers and administrators)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, ["admin", "manager"]);
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = createPredefinedGoalSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 3. Create library entry
+    const { data, error, statusCode } = await createPredefinedGoal(supabase, user.id, validationResult.data);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się dodać celu do biblioteki", statusCode || 500);
+    }
+
+    return createApiResponse(data, 201);
+  } catch (error) {
+    console.error("Error in POST /predefined-goals endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -0,0 +1,60 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { importUsers } from "../../../lib/services/user-import.service";
+
+export const prerender = false;
+
+// Validation schemas
+const importUsersSchema = z.object({
+  csv: z
+    .string()
+    .min(1, { message: "Plik importu jest pusty" })
+    .max(1_000_000, { message: "Plik importu nie może przekraczać 1 MB" }),
+  dryRun: z.boolean().optional().default(true),
+});
+
+// POST /users/import - Import users and manager relationships from CSV (administrators only)
+export const POST: APIRoute = async ({ request, locals }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (administrators only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "admin");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = importUsersSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    const { csv, dryRun } = validationResult.data;
+
+    // 3. Validate the file and apply it unless this is a dry run
+    const { data, error, statusCode } = await importUsers(supabase, csv, dryRun);
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się zaimportować użytkowników", statusCode || 500);
+    }
+
+    // 4. A file with errors is never applied partially
+    if (!dryRun && data.errors.length > 0) {
+      return createErrorResponse("Plik importu zawiera błędy", 400, data);
+    }
+
+    return createApiResponse(data);
+  } catch (error) {
+    console.error("Error in POST /users/import endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
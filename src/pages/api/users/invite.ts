@@ -0,0 +1,64 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { authenticateUser, createApiResponse, createErrorResponse } from "../../../lib/api-utils";
+import { createSupabaseAdminClient } from "../../../db/supabase.client";
+import { PASSWORD_RESET_PATH } from "../../../lib/route-guards";
+import { inviteUser } from "../../../lib/services/user-invite.service";
+
+export const prerender = false;
+
+// Validation schemas
+const inviteUserSchema = z.object({
+  email: z.string().email({ message: "Nieprawidłowy format adresu email" }),
+});
+
+// POST /users/invite - Send a user a one-time link for setting the password (administrators only)
+export const POST: APIRoute = async ({ request, locals, url }): Promise<Response> => {
+  try {
+    const supabase = locals.supabase;
+
+    // 1. Authenticate user (administrators only)
+    const { isAuthenticated, error: authError, user } = await authenticateUser(supabase, "admin");
+    if (!isAuthenticated || !user) {
+      return authError || createErrorResponse("Nieautoryzowany dostęp", 401);
+    }
+
+    // 2. Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("Nieprawidłowy format danych JSON", 400);
+    }
+
+    const validationResult = inviteUserSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      return createErrorResponse("Dane nie spełniają wymagań walidacji", 400, validationResult.error.format());
+    }
+
+    // 3. Invitations use the auth admin API, which requires the service role key
+    const adminClient = createSupabaseAdminClient();
+    if (!adminClient) {
+      console.error("Error in POST /users/invite endpoint: SUPABASE_SERVICE_ROLE_KEY is not set");
+      return createErrorResponse("Wysyłanie zaproszeń nie jest skonfigurowane", 500);
+    }
+
+    // 4. Send the invitation with a link to the page for setting the password
+    const redirectTo = new URL(PASSWORD_RESET_PATH, url.origin).toString();
+    const { data, error, statusCode } = await inviteUser(
+      supabase,
+      adminClient,
+      validationResult.data.email,
+      redirectTo
+    );
+
+    if (error || !data) {
+      return createErrorResponse(error || "Nie udało się wysłać zaproszenia", statusCode || 500);
+    }
+
+    return createApiResponse(data, 201);
+  } catch (error) {
+    console.error("Error in POST /users/invite endpoint:", error);
+    return createErrorResponse("Wystąpił błąd podczas przetwarzania żądania", 500);
+  }
+};
@@ -20,15 +20,24 @@ export type AssessmentProcess = Tables["assessment_processes"]["Row"];
 export type Goal = Tables["goals"]["Row"];
 /** @description Represents a goal category record from the 'goal_categories' table. */
 export type GoalCategory = Tables["goal_categories"]["Row"];
+/** @description Represents a predefined goal record from the 'predefined_goals' table. */
+export type PredefinedGoal = Tables["predefined_goals"]["Row"];
 /** @description Represents a self-assessment record from the 'self_assessments' table. */
 export type SelfAssessment = Tables["self_assessments"]["Row"];
 /** @description Represents a manager assessment record from the 'manager_assessments' table. */
 export type ManagerAssessment = Tables["manager_assessments"]["Row"];
+/** @description Represents a status transition record from the 'process_status_history' table. */
+export type ProcessStatusHistory = Tables["process_status_history"]["Row"];
+/** @description Represents a participant workflow status record from the 'process_participants' table. */
+export type ProcessParticipant = Tables["process_participants"]["Row"];
+/** @description Represents a progress entry or reply from the 'goal_progress_updates' table. */
+export type GoalProgressUpdate = Tables["goal_progress_updates"]["Row"];
 
 // Enums
 /**
  * @description Possible statuses for an assessment process.
  * - `in_definition`: The assessment process is being defined (goals are being set).
+ * - `in_progress`: Goals are being worked on; employees log their progress (optional phase).
  * - `in_self_assessment`: Employees are performing self-assessment.
  * - `awaiting_manager_assessment`: Managers are assessing their subordinates.
  * - `completed`: The assessment process is finished.
@@ -44,10 +53,8 @@ export interface LoginRequest {
   password: string;
 }
 
-/** @description Data Transfer Object for login responses. */
+/** @description Data Transfer Object for login responses. The session itself is set in HTTP-only cookies. */
 export interface LoginResponse {
-  /** @description Authentication token (e.g., JWT). */
-  token: string;
   /** @description Basic information about the logged-in user. */
   user: {
     id: string;
@@ -55,11 +62,50 @@ export interface LoginResponse {
   };
 }
 
+/** @description Data Transfer Object for session refresh responses. The new tokens are set in HTTP-only cookies. */
+export interface RefreshSessionResponse {
+  user: {
+    id: string;
+    email: string;
+  };
+  /** @description Expiry of the new access token (Unix time in seconds). */
+  expiresAt: number | null;
+}
+
+/** @description Data Transfer Object for requests of a password reset link. */
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+/**
+ * @description Data Transfer Object for setting a password from a reset or invitation link.
+ * The tokens come from the link sent by Supabase Auth and identify the user.
+ */
+export interface ResetPasswordRequest {
+  accessToken: string;
+  refreshToken: string;
+  /** @description The new password. */
+  password: string;
+}
+
+/** @description Command for inviting a user (imported profile) to set a password and log in. */
+export interface InviteUserCommand {
+  email: string;
+}
+
+/** @description Invitation sent to a user. */
+export interface UserInvitationDTO {
+  email: string;
+  invitedAt: string;
+}
+
 /** @description Represents a user's profile information. */
 export interface UserProfile {
   id: string;
   email: string;
   managerId: string | null;
+  /** @description Indicates if the user is an HR administrator. */
+  isAdmin: boolean;
 }
 
 // User DTOs
@@ -77,6 +123,8 @@ export interface UserDTO {
 // Extended user view model for dashboard
 export interface UserViewModel extends UserDTO {
   isManager: boolean;
+  /** @description Indicates if the user is an HR administrator (manages processes, categories and users). */
+  isAdmin: boolean;
   managerName?: string;
 }
 
@@ -113,6 +161,10 @@ export interface AssessmentProcessDTO {
   startDate: string;
   /** @description End date of the assessment process (ISO string). */
   endDate: string;
+  /** @description Optional longer description of the assessment process. */
+  description?: string | null;
+  /** @description Scale used for self and manager ratings in this process. */
+  ratingScale: RatingScale;
 }
 
 export interface AssessmentProcessListResponse {
@@ -122,8 +174,19 @@ export interface AssessmentProcessListResponse {
   limit: number;
 }
 
+/** @description Single status transition of an assessment process. */
 export interface StatusHistoryEntry {
+  id: string;
   status: AssessmentProcessStatus;
+  /** @description Status before the transition (null for the initial entry). */
+  previousStatus: AssessmentProcessStatus | null;
+  /** @description Optional justification given when changing the status. */
+  reason: string | null;
+  /** @description Employee whose workflow was moved (null for process-level transitions). */
+  employee: {
+    id: string;
+    name: string;
+  } | null;
   changedAt: string;
   changedBy: {
     id: string;
@@ -135,9 +198,33 @@ export interface StatusHistoryResponse {
   history: StatusHistoryEntry[];
 }
 
+/** @description Rating scale definition: a numeric range rendered as a slider or a labelled option list. */
+export type RatingScale =
+  | { type: "range"; min: number; max: number; step: number }
+  // Options are declared inline so the definition stays assignable to the jsonb column type
+  | { type: "options"; options: { value: number; label: string }[] };
+
+/** @description Single labelled value of an option-based rating scale. */
+export type RatingScaleOption = Extract<RatingScale, { type: "options" }>["options"][number];
+
 // Assessment Process Command Models
+/** @description Command for creating a new assessment process (dates as ISO `YYYY-MM-DD` strings). */
+export interface CreateAssessmentProcessCommand {
+  title: string;
+  description?: string | null;
+  startDate: string;
+  endDate: string;
+  isActive?: boolean;
+  ratingScale?: RatingScale;
+}
+
+/** @description Command for partially updating an assessment process. */
+export type UpdateAssessmentProcessCommand = Partial<CreateAssessmentProcessCommand>;
+
 export interface UpdateAssessmentProcessStatusCommand {
   status: AssessmentProcessStatus;
+  /** @description Optional justification recorded in the status history. */
+  reason?: string;
 }
 
 export interface UpdateAssessmentProcessStatusResponse {
@@ -147,6 +234,29 @@ export interface UpdateAssessmentProcessStatusResponse {
   changedAt: string;
 }
 
+// Process Participant DTOs
+/** @description Workflow status of a single employee within an assessment process. */
+export interface ParticipantStatusDTO {
+  employeeId: string;
+  employeeName: string;
+  status: AssessmentProcessStatus;
+  /** @description True while the participant has not been moved individually and follows the process-level status. */
+  inheritsProcessStatus: boolean;
+}
+
+export interface ParticipantStatusListResponse {
+  participants: ParticipantStatusDTO[];
+}
+
+/** @description Command for moving participants of a process to another status. */
+export interface UpdateParticipantsStatusCommand {
+  status: AssessmentProcessStatus;
+  /** @description Employees to move; defaults to all direct reports of the current user. */
+  employeeIds?: string[];
+  /** @description Optional justification recorded in the status history. */
+  reason?: string;
+}
+
 // Goal Category DTOs
 export interface GoalCategoryDTO {
   id: string;
@@ -158,6 +268,15 @@ export interface GoalCategoryListResponse {
 }
 
 // Goal DTOs
+/** @description Quantitative metric of a measurable goal. */
+export interface GoalMetricDTO {
+  name: string;
+  unit: string | null;
+  baselineValue: number | null;
+  targetValue: number;
+  actualValue: number | null;
+}
+
 /** @description Data Transfer Object for goal information. */
 export interface GoalDTO {
   id: string;
@@ -169,6 +288,12 @@ export interface GoalDTO {
     id: string;
     name: string;
   };
+  /** @description Shared goal definition this goal is an assignment of (null for individual goals). */
+  sharedGoalId?: string | null;
+  /** @description Goal of the owner's manager this goal contributes to (null when not aligned). */
+  parentGoalId?: string | null;
+  /** @description Metric of a measurable goal (null for goals described only in text). */
+  metric?: GoalMetricDTO | null;
 }
 
 /** @description Detailed Data Transfer Object for a goal, including employee and process info. */
@@ -186,6 +311,10 @@ export interface GoalDetailDTO extends GoalDTO {
 export interface GoalListResponse {
   goals: GoalDTO[];
   totalWeight: number;
+  /** @description Workflow status of the employee within the process. */
+  participantStatus: AssessmentProcessStatus;
+  /** @description Scale used to rate the goals in this process. */
+  ratingScale: RatingScale;
 }
 
 // Goal Command Models
@@ -194,6 +323,8 @@ export interface CreateGoalCommand {
   description: string;
   weight: number;
   categoryId: string;
+  parentGoalId?: string | null;
+  metric?: GoalMetricDTO | null;
 }
 
 export interface UpdateGoalCommand {
@@ -201,20 +332,159 @@ export interface UpdateGoalCommand {
   description: string;
   weight: number;
   categoryId: string;
+  parentGoalId?: string | null;
+  /** @description Omitted - metric stays unchanged, null - the goal stops being measurable. */
+  metric?: GoalMetricDTO | null;
 }
 
 export interface GoalResponse extends GoalDTO {
   validationErrors: string[];
 }
 
+/** @description Command for creating the same goal for several direct reports at once. */
+export interface BulkCreateGoalCommand extends CreateGoalCommand {
+  employeeIds: string[];
+}
+
+/** @description Outcome of a bulk goal creation for one employee. */
+export interface BulkGoalResultDTO {
+  employeeId: string;
+  employeeName: string;
+  success: boolean;
+  /** @description Created goal with the employee's weight warnings (on success). */
+  goal?: GoalResponse;
+  /** @description Reason the goal was not created (on failure). */
+  error?: string;
+}
+
+export interface BulkCreateGoalsResponse {
+  results: BulkGoalResultDTO[];
+}
+
+/** @description Command for creating one goal definition shared by several direct reports. */
+export interface CreateSharedGoalCommand {
+  title: string;
+  description: string;
+  categoryId: string;
+  metric?: GoalMetricDTO | null;
+  /** @description Employees the goal is assigned to, each with their own weight. */
+  assignments: {
+    employeeId: string;
+    weight: number;
+  }[];
+}
+
+export interface SharedGoalResponse extends BulkCreateGoalsResponse {
+  /** @description Identifier of the created definition (null when no assignment succeeded). */
+  sharedGoalId: string | null;
+}
+
+/** @description Command for copying selected goals of the same employee from an earlier process. */
+export interface CopyGoalsCommand {
+  sourceProcessId: string;
+  /** @description Goals to copy with the weight they get in the current process. */
+  goals: {
+    goalId: string;
+    weight: number;
+  }[];
+}
+
+export interface CopyGoalsResponse {
+  goals: GoalDTO[];
+  validationErrors: string[];
+}
+
+// Goal Alignment DTOs
+/** @description Goal in the alignment tree together with the goals of reports aligned to it. */
+export interface AlignedGoalDTO {
+  id: string;
+  title: string;
+  weight: number;
+  category: {
+    id: string;
+    name: string;
+  };
+  employee: {
+    id: string;
+    name: string;
+  };
+  children: AlignedGoalDTO[];
+}
+
+/** @description How the goals of an employee decompose down their reporting line in a process. */
+export interface GoalAlignmentResponse {
+  employee: {
+    id: string;
+    name: string;
+  };
+  goals: AlignedGoalDTO[];
+  /** @description Goals in the reporting line that are not aligned with a goal of the owner's manager. */
+  unalignedGoals: AlignedGoalDTO[];
+}
+
+// Goal Progress DTOs
+/** @description Manager's reply to a progress entry. */
+export interface GoalProgressReplyDTO {
+  id: string;
+  note: string;
+  author: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+/** @description Dated progress entry posted by the goal owner, with the manager's replies. */
+export interface GoalProgressEntryDTO {
+  id: string;
+  progress: number;
+  note: string;
+  entryDate: string;
+  author: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+  replies: GoalProgressReplyDTO[];
+}
+
+/** @description Progress log of a goal, newest entry first, with what the caller may post. */
+export interface GoalProgressResponse {
+  entries: GoalProgressEntryDTO[];
+  canAddEntry: boolean;
+  canReply: boolean;
+}
+
+// Goal Progress Command Models
+export interface CreateGoalProgressEntryCommand {
+  progress: number;
+  note: string;
+  entryDate?: string;
+}
+
+export interface CreateGoalProgressReplyCommand {
+  note: string;
+}
+
 // Predefined Goal DTOs
+/** @description Data Transfer Object for a goal from the predefined goal library. */
 export interface PredefinedGoalDTO {
   id: string;
+  title: string;
   description: string;
   categoryId: string;
   categoryName: string;
 }
 
+// Predefined Goal Command Models
+export interface CreatePredefinedGoalCommand {
+  title: string;
+  description: string;
+  categoryId: string;
+}
+
+export type UpdatePredefinedGoalCommand = CreatePredefinedGoalCommand;
+
 export interface PredefinedGoalListResponse {
   goals: PredefinedGoalDTO[];
   total: number;
@@ -237,6 +507,11 @@ export interface CreateAssessmentCommand {
   comments: string | null;
 }
 
+/** @description Self-assessment command; measurable goals can record their actual value with it. */
+export interface CreateSelfAssessmentCommand extends CreateAssessmentCommand {
+  actualValue?: number | null;
+}
+
 export interface AssessmentResponse {
   id: string;
   rating: number;
@@ -244,6 +519,151 @@ export interface AssessmentResponse {
   createdAt: string;
 }
 
+// Score summary DTOs
+export interface WeightedScoreDTO {
+  score: number | null; // weighted average rating of rated goals, null when nothing is rated yet
+  ratedGoals: number;
+  ratedWeight: number;
+  isComplete: boolean; // all goals are rated
+}
+
+export interface EmployeeScoreSummaryDTO {
+  processId: string;
+  employeeId: string;
+  totalGoals: number;
+  totalWeight: number;
+  selfAssessment: WeightedScoreDTO;
+  managerAssessment: WeightedScoreDTO;
+}
+
+/** @description Results of a single direct report shown in the team overview. */
+export interface TeamMemberSummaryDTO extends EmployeeScoreSummaryDTO {
+  employeeName: string;
+  status: AssessmentProcessStatus;
+}
+
+export interface TeamSummaryResponse {
+  members: TeamMemberSummaryDTO[];
+  ratingScale: RatingScale;
+}
+
+// HR report DTOs
+/** @description Progress of a single employee in the company-wide HR report. */
+export interface HrReportEmployeeDTO {
+  employeeId: string;
+  employeeName: string;
+  managerId: string | null;
+  status: AssessmentProcessStatus;
+  totalGoals: number;
+  selfAssessmentComplete: boolean;
+  managerAssessmentComplete: boolean;
+}
+
+/** @description Number of employees in a phase and the share of employees who already passed it. */
+export interface HrReportPhaseDTO {
+  status: AssessmentProcessStatus;
+  currentCount: number;
+  /** @description Employees past this phase (for the final phase: employees who reached it). */
+  completedCount: number;
+  /** @description Percentage of all employees counted in completedCount. */
+  completionRate: number;
+}
+
+export interface HrReportManagerDTO {
+  managerId: string;
+  managerName: string;
+  /** @description Reports awaiting the manager's assessment that still have unrated goals. */
+  pendingEmployees: number;
+}
+
+/** @description Manager with their direct reports and the teams of subordinate managers. */
+export interface HrReportTeamDTO {
+  managerId: string;
+  managerName: string;
+  members: HrReportEmployeeDTO[];
+  subteams: HrReportTeamDTO[];
+}
+
+export interface HrReportDTO {
+  processId: string;
+  totalEmployees: number;
+  phases: HrReportPhaseDTO[];
+  employeesWithoutGoals: HrReportEmployeeDTO[];
+  incompleteSelfAssessments: HrReportEmployeeDTO[];
+  managersWithPendingAssessments: HrReportManagerDTO[];
+  teams: HrReportTeamDTO[];
+}
+
+// User import DTOs
+export type UserImportAction = "create" | "update" | "unchanged";
+
+/** @description A single field that the import changes; managers are identified by email. */
+export interface UserImportFieldChangeDTO {
+  field: "firstName" | "lastName" | "manager";
+  from: string | null;
+  to: string | null;
+}
+
+/** @description Effect of one CSV row on public.users. */
+export interface UserImportChangeDTO {
+  /** @description Line number in the CSV file (the header is line 1). */
+  line: number;
+  email: string;
+  name: string;
+  action: UserImportAction;
+  changes: UserImportFieldChangeDTO[];
+}
+
+export interface UserImportErrorDTO {
+  line: number;
+  message: string;
+}
+
+export interface UserImportPreviewDTO {
+  changes: UserImportChangeDTO[];
+  errors: UserImportErrorDTO[];
+  summary: Record<UserImportAction, number>;
+  /** @description False for a dry run or when the file contains errors. */
+  applied: boolean;
+}
+
+// User Import Command Models
+export interface ImportUsersCommand {
+  csv: string;
+  dryRun: boolean;
+}
+
+// Goal import DTOs
+/** @description One goal read from the import file, with the reasons it cannot be imported. */
+export interface GoalImportRowDTO {
+  /** @description Line (CSV) or row (XLSX) number in the file; the header is line 1. */
+  line: number;
+  employeeEmail: string;
+  employeeName: string | null;
+  title: string;
+  description: string;
+  categoryName: string;
+  weight: number | null;
+  errors: string[];
+}
+
+/** @description Weight of an employee's goals before and after the import. */
+export interface GoalImportEmployeeDTO {
+  employeeId: string;
+  employeeName: string;
+  currentWeight: number;
+  importedWeight: number;
+}
+
+export interface GoalImportPreviewDTO {
+  rows: GoalImportRowDTO[];
+  employees: GoalImportEmployeeDTO[];
+  /** @description Problems with the file as a whole, e.g. missing columns. */
+  errors: string[];
+  /** @description False for a dry run or when any row has errors. */
+  applied: boolean;
+}
+
 // Pagination Query Parameters
 export interface PaginationQueryParams {
   page?: number;
@@ -300,6 +720,7 @@ export interface DashboardViewModel {
  */
 export const STATUS_LABELS: Record<AssessmentProcessStatus, string> = {
   in_definition: "W definiowaniu",
+  in_progress: "W realizacji",
   in_self_assessment: "W samoocenie",
   awaiting_manager_assessment: "W ocenie kierownika",
   completed: "Zakończony",
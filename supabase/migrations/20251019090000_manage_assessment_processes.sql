@@ -0,0 +1,84 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019090000_manage_assessment_processes.sql
+-- Purpose: Allow administrators to create, edit and archive assessment processes
+-- Affected tables: public.admins (new), public.assessment_processes (policies)
+-- Notes:
+--   - replaces the blanket "Users cannot create assessment processes" policy
+--     with an admin-only insert policy
+--   - archiving a process is an update of is_active, so deletion stays disabled
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+-- Admins table - users allowed to manage assessment processes
+create table public.admins (
+  user_id uuid primary key references public.users(id) on delete cascade,
+  created_at timestamp with time zone default now() not null
+);
+
+-- Enable RLS for the admins table
+alter table public.admins enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Checks whether the given user is an administrator.
+-- Security definer so that policies on other tables can call it without
+-- exposing the whole admins table to every authenticated user.
+create or replace function public.is_admin(_user_id uuid)
+returns bool as $$
+select exists (
+  select 1
+  from public.admins a
+  where a.user_id = _user_id
+);
+$$ language sql security definer stable;
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Admins table policies
+-- Select: Users can check only their own admin entry
+create policy "Users can view own admin entry"
+on public.admins for select
+to authenticated
+using (user_id = auth.uid());
+
+-- Insert/update/delete: admin entries are managed outside of the application
+create policy "Users cannot create admin entries"
+on public.admins for insert
+to authenticated
+with check (false);
+
+create policy "Users cannot update admin entries"
+on public.admins for update
+to authenticated
+using (false);
+
+create policy "Users cannot delete admin entries"
+on public.admins for delete
+to authenticated
+using (false);
+
+-- Assessment processes policies
+-- The initial schema blocked every insert; processes were created by hand in SQL.
+-- Dropping it is safe because the admin-only policy below takes its place.
+drop policy "Users cannot create assessment processes" on public.assessment_processes;
+
+-- Insert: Only admins can create assessment processes
+create policy "Admins can create assessment processes"
+on public.assessment_processes for insert
+to authenticated
+with check (public.is_admin(auth.uid()));
+
+-- Update: Admins can edit and archive assessment processes
+-- (managers keep their existing policy for status changes)
+create policy "Admins can update assessment processes"
+on public.assessment_processes for update
+to authenticated
+using (public.is_admin(auth.uid()))
+with check (public.is_admin(auth.uid()));
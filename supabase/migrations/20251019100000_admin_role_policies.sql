@@ -0,0 +1,67 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019100000_admin_role_policies.sql
+-- Purpose: Grant the HR administrator role (public.admins) management rights
+-- Affected tables: public.admins, public.goal_categories, public.users
+-- Notes:
+--   - goal categories were previously writable by every authenticated user;
+--     those policies are dropped and replaced with admin-only ones
+--   - administrators can see and edit every user profile in order to maintain
+--     the organisation structure (manager_id links)
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- ADMINS
+-- -----------------------------------------------------------------------------
+
+-- Select: Admins can list all administrators
+create policy "Admins can view all admin entries"
+on public.admins for select
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- -----------------------------------------------------------------------------
+-- GOAL CATEGORIES
+-- -----------------------------------------------------------------------------
+
+-- The initial schema let any authenticated user modify the shared category list.
+-- Dropping these policies removes that right from regular users; the admin-only
+-- policies below restore it for administrators.
+drop policy "Authenticated users can create goal categories" on public.goal_categories;
+drop policy "Authenticated users can update goal categories" on public.goal_categories;
+drop policy "Authenticated users can delete goal categories" on public.goal_categories;
+
+-- Insert: Only admins can create goal categories
+create policy "Admins can create goal categories"
+on public.goal_categories for insert
+to authenticated
+with check (public.is_admin(auth.uid()));
+
+-- Update: Only admins can update goal categories
+create policy "Admins can update goal categories"
+on public.goal_categories for update
+to authenticated
+using (public.is_admin(auth.uid()))
+with check (public.is_admin(auth.uid()));
+
+-- Delete: Only admins can delete goal categories
+create policy "Admins can delete goal categories"
+on public.goal_categories for delete
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- -----------------------------------------------------------------------------
+-- USERS
+-- -----------------------------------------------------------------------------
+
+-- Select: Admins can view every user profile
+create policy "Admins can view all profiles"
+on public.users for select
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- Update: Admins can update every user profile (names, manager links)
+create policy "Admins can update all profiles"
+on public.users for update
+to authenticated
+using (public.is_admin(auth.uid()))
+with check (public.is_admin(auth.uid()));
@@ -0,0 +1,69 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019110000_create_process_status_history.sql
+-- Purpose: Record every status transition of an assessment process
+-- Affected tables: public.process_status_history (new)
+-- Notes:
+--   - rows are written by the status API endpoint, one per transition
+--   - history is append-only: updates and deletes are disabled
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+-- Process status history - who moved a process from which status to which, and why
+create table public.process_status_history (
+  id uuid primary key default gen_random_uuid(),
+  assessment_process_id uuid not null references public.assessment_processes(id) on delete cascade,
+  from_status assessment_process_status, -- null for the initial entry
+  to_status assessment_process_status not null,
+  changed_by uuid not null references public.users(id),
+  reason text,
+  changed_at timestamp with time zone default now() not null,
+
+  constraint valid_reason_length check (reason is null or char_length(reason) <= 500)
+);
+
+-- Enable RLS for process status history
+alter table public.process_status_history enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- INDEXES
+-- -----------------------------------------------------------------------------
+
+create index idx_process_status_history_process_id
+on public.process_status_history(assessment_process_id, changed_at);
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Select: All authenticated users can view the history (processes are visible to everyone)
+create policy "Authenticated users can view process status history"
+on public.process_status_history for select
+to authenticated
+using (true);
+
+-- Insert: Admins and managers can record transitions made by themselves
+create policy "Admins and managers can record status changes"
+on public.process_status_history for insert
+to authenticated
+with check (
+  changed_by = auth.uid()
+  and (
+    public.is_admin(auth.uid())
+    or exists (select 1 from public.users u where u.manager_id = auth.uid())
+  )
+);
+
+-- Update: History entries are immutable
+create policy "Users cannot update process status history"
+on public.process_status_history for update
+to authenticated
+using (false);
+
+-- Delete: History entries cannot be removed
+create policy "Users cannot delete process status history"
+on public.process_status_history for delete
+to authenticated
+using (false);
@@ -0,0 +1,94 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019120000_create_process_participants.sql
+-- Purpose: Track the workflow status per participant (employee x process)
+-- Affected tables: public.process_participants (new), public.process_status_history,
+--                  public.assessment_processes
+-- Notes:
+--   - a participant without a row follows the process-level status; a row is
+--     created the first time a manager moves that employee on their own
+--   - the process-level status becomes the company-wide default and can only be
+--     changed by administrators
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+-- Process participants - workflow status of a single employee within a process
+create table public.process_participants (
+  assessment_process_id uuid not null references public.assessment_processes(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  status assessment_process_status not null default 'in_definition',
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+
+  primary key (assessment_process_id, user_id)
+);
+
+-- Enable RLS for process participants
+alter table public.process_participants enable row level security;
+
+create index idx_process_participants_user_id on public.process_participants(user_id);
+
+create trigger set_updated_at_process_participants
+before update on public.process_participants
+for each row execute function public.set_updated_at();
+
+-- Participant transitions are recorded in the same history as process-level ones;
+-- employee_id is null for process-level transitions
+alter table public.process_status_history
+add column employee_id uuid references public.users(id) on delete cascade;
+
+create index idx_process_status_history_employee_id
+on public.process_status_history(employee_id);
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Select: Users can view their own status, their reports' statuses, admins can view all
+create policy "Users can view own and subordinates participant status"
+on public.process_participants for select
+to authenticated
+using (
+  user_id = auth.uid()
+  or exists (select 1 from public.users u where u.id = user_id and u.manager_id = auth.uid())
+  or public.is_admin(auth.uid())
+);
+
+-- Insert: Managers can add their reports, admins can add anyone
+create policy "Managers and admins can create participant status"
+on public.process_participants for insert
+to authenticated
+with check (
+  exists (select 1 from public.users u where u.id = user_id and u.manager_id = auth.uid())
+  or public.is_admin(auth.uid())
+);
+
+-- Update: Managers can move their reports, admins can move anyone
+create policy "Managers and admins can update participant status"
+on public.process_participants for update
+to authenticated
+using (
+  exists (select 1 from public.users u where u.id = user_id and u.manager_id = auth.uid())
+  or public.is_admin(auth.uid())
+)
+with check (
+  exists (select 1 from public.users u where u.id = user_id and u.manager_id = auth.uid())
+  or public.is_admin(auth.uid())
+);
+
+-- Delete: Only admins can remove participants
+create policy "Admins can delete participant status"
+on public.process_participants for delete
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- -----------------------------------------------------------------------------
+-- ASSESSMENT PROCESSES
+-- -----------------------------------------------------------------------------
+
+-- Any manager could previously change the status of the whole process, moving every
+-- team at once. Managers now move their own reports through process_participants;
+-- the remaining "Admins can update assessment processes" policy keeps admin access.
+drop policy "Managers can update assessment processes" on public.assessment_processes;
@@ -0,0 +1,70 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019130000_create_predefined_goals.sql
+-- Purpose: Shared library of predefined goals managers can pick from
+-- Affected tables: public.predefined_goals (new)
+-- Notes:
+--   - the library is readable by every authenticated user
+--   - managers and admins add entries; authors and admins maintain them
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+-- Predefined goals - reusable goal templates grouped by category
+create table public.predefined_goals (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text not null,
+  category_id uuid not null references public.goal_categories(id) on delete cascade,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+
+  constraint valid_predefined_goal_title check (char_length(title) between 5 and 50),
+  constraint valid_predefined_goal_description check (char_length(description) between 5 and 500)
+);
+
+-- Enable RLS for predefined goals
+alter table public.predefined_goals enable row level security;
+
+create index idx_predefined_goals_category_id on public.predefined_goals(category_id);
+
+create trigger set_updated_at_predefined_goals
+before update on public.predefined_goals
+for each row execute function public.set_updated_at();
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Select: All authenticated users can browse the library
+create policy "Authenticated users can view predefined goals"
+on public.predefined_goals for select
+to authenticated
+using (true);
+
+-- Insert: Managers and admins can add goals to the library as themselves
+create policy "Managers and admins can create predefined goals"
+on public.predefined_goals for insert
+to authenticated
+with check (
+  created_by = auth.uid()
+  and (
+    public.is_admin(auth.uid())
+    or exists (select 1 from public.users u where u.manager_id = auth.uid())
+  )
+);
+
+-- Update: Authors and admins can edit library entries
+create policy "Authors and admins can update predefined goals"
+on public.predefined_goals for update
+to authenticated
+using (created_by = auth.uid() or public.is_admin(auth.uid()))
+with check (created_by = auth.uid() or public.is_admin(auth.uid()));
+
+-- Delete: Authors and admins can remove library entries
+create policy "Authors and admins can delete predefined goals"
+on public.predefined_goals for delete
+to authenticated
+using (created_by = auth.uid() or public.is_admin(auth.uid()));
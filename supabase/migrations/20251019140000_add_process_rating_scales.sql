@@ -0,0 +1,79 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019140000_add_process_rating_scales.sql
+-- Purpose: Attach a configurable rating scale definition to each assessment process
+-- Affected tables: public.assessment_processes, public.self_assessments,
+--                  public.manager_assessments
+-- Notes:
+--   - a scale is either a numeric range ({"type":"range","min","max","step"})
+--     or a labelled option list ({"type":"options","options":[{"value","label"}]})
+--   - existing processes keep the previous 0-150 range as their scale
+--   - the fixed valid_rating constraints are replaced with a trigger that checks
+--     the rating against the scale of the goal's process
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- ASSESSMENT PROCESSES
+-- -----------------------------------------------------------------------------
+
+alter table public.assessment_processes
+  add column rating_scale jsonb not null default '{"type": "range", "min": 0, "max": 150, "step": 1}'::jsonb;
+
+alter table public.assessment_processes
+  add constraint valid_rating_scale check (rating_scale->>'type' in ('range', 'options'));
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Checks whether a rating is allowed by a rating scale definition
+create or replace function public.rating_in_scale(_scale jsonb, _rating integer)
+returns bool as $$
+select case _scale->>'type'
+  when 'range' then
+    _rating between (_scale->>'min')::integer and (_scale->>'max')::integer
+    and (_rating - (_scale->>'min')::integer) % greatest(coalesce((_scale->>'step')::integer, 1), 1) = 0
+  when 'options' then
+    exists (
+      select 1
+      from jsonb_array_elements(_scale->'options') o
+      where (o->>'value')::integer = _rating
+    )
+  else false
+end;
+$$ language sql immutable;
+
+-- Rejects assessments whose rating does not fit the scale of the goal's process
+create or replace function public.validate_assessment_rating()
+returns trigger as $$
+declare
+  _scale jsonb;
+begin
+  select ap.rating_scale into _scale
+  from public.goals g
+  join public.assessment_processes ap on ap.id = g.assessment_process_id
+  where g.id = new.goal_id;
+
+  if _scale is null or not public.rating_in_scale(_scale, new.rating) then
+    raise exception 'rating % does not fit the rating scale of the assessment process', new.rating
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- -----------------------------------------------------------------------------
+-- ASSESSMENTS
+-- -----------------------------------------------------------------------------
+
+-- The fixed 0-150 range no longer applies to processes with a custom scale
+alter table public.self_assessments drop constraint valid_rating;
+alter table public.manager_assessments drop constraint valid_rating;
+
+create trigger validate_rating_self_assessments
+before insert or update of rating on public.self_assessments
+for each row execute function public.validate_assessment_rating();
+
+create trigger validate_rating_manager_assessments
+before insert or update of rating on public.manager_assessments
+for each row execute function public.validate_assessment_rating();
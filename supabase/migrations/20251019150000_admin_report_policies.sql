@@ -0,0 +1,39 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019150000_admin_report_policies.sql
+-- Purpose: Let HR administrators read goals and assessments of every employee
+-- Affected tables: public.goals, public.self_assessments, public.manager_assessments
+-- Notes:
+--   - required by the company-wide HR report; until now RLS limited visibility
+--     to the user, their direct reports and their manager
+--   - read-only: administrators still cannot change goals or ratings
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- GOALS
+-- -----------------------------------------------------------------------------
+
+-- Select: Admins can view all goals
+create policy "Admins can view all goals"
+on public.goals for select
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- -----------------------------------------------------------------------------
+-- SELF ASSESSMENTS
+-- -----------------------------------------------------------------------------
+
+-- Select: Admins can view all self-assessments
+create policy "Admins can view all self-assessments"
+on public.self_assessments for select
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- -----------------------------------------------------------------------------
+-- MANAGER ASSESSMENTS
+-- -----------------------------------------------------------------------------
+
+-- Select: Admins can view all manager assessments
+create policy "Admins can view all manager assessments"
+on public.manager_assessments for select
+to authenticated
+using (public.is_admin(auth.uid()));
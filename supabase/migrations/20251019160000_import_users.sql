@@ -0,0 +1,127 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019160000_import_users.sql
+-- Purpose: Let HR administrators import users and manager relationships from CSV
+-- Affected tables: public.users and every table referencing public.users(id)
+-- Notes:
+--   - replaces the hand-maintained organisation structure from
+--     20250410175752_update_users.sql with an admin import
+--   - import_users applies a whole import in one transaction; validation and
+--     the dry-run diff are done by the application before calling it
+--   - imported profiles may exist before their auth account; handle_new_user
+--     now takes such a profile over, which requires foreign keys to follow
+--     the id change (on update cascade)
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FOREIGN KEYS
+-- -----------------------------------------------------------------------------
+
+alter table public.users
+drop constraint users_manager_id_fkey,
+add constraint users_manager_id_fkey
+foreign key (manager_id) references public.users(id) on update cascade;
+
+alter table public.goals
+drop constraint goals_user_id_fkey,
+add constraint goals_user_id_fkey
+foreign key (user_id) references public.users(id) on delete cascade on update cascade;
+
+alter table public.admins
+drop constraint admins_user_id_fkey,
+add constraint admins_user_id_fkey
+foreign key (user_id) references public.users(id) on delete cascade on update cascade;
+
+alter table public.process_participants
+drop constraint process_participants_user_id_fkey,
+add constraint process_participants_user_id_fkey
+foreign key (user_id) references public.users(id) on delete cascade on update cascade;
+
+alter table public.process_status_history
+drop constraint process_status_history_changed_by_fkey,
+add constraint process_status_history_changed_by_fkey
+foreign key (changed_by) references public.users(id) on update cascade,
+drop constraint process_status_history_employee_id_fkey,
+add constraint process_status_history_employee_id_fkey
+foreign key (employee_id) references public.users(id) on delete cascade on update cascade;
+
+alter table public.predefined_goals
+drop constraint predefined_goals_created_by_fkey,
+add constraint predefined_goals_created_by_fkey
+foreign key (created_by) references public.users(id) on delete set null on update cascade;
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- A profile imported before the auth account existed is matched by email
+-- and re-keyed to the auth user id, so that RLS (auth.uid() = id) applies to it
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+  update public.users
+  set id = new.id, updated_at = now()
+  where lower(email) = lower(new.email)
+  and id <> new.id;
+
+  insert into public.users (id, email, created_at, updated_at)
+  values (new.id, new.email, now(), now())
+  on conflict (id) do nothing;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Creates or updates profiles (matched by email) and relinks their managers.
+-- _users is an array of {email, first_name, last_name, manager_email} objects.
+-- Runs as the calling user, so the users table policies still apply.
+create or replace function public.import_users(_users jsonb)
+returns void as $$
+begin
+  if not public.is_admin(auth.uid()) then
+    raise exception 'only administrators can import users' using errcode = '42501';
+  end if;
+
+  -- refresh names of existing profiles
+  update public.users target
+  set first_name = u.first_name, last_name = u.last_name
+  from jsonb_to_recordset(_users) as u(email text, first_name text, last_name text)
+  where lower(target.email) = lower(u.email)
+  and (target.first_name is distinct from u.first_name or target.last_name is distinct from u.last_name);
+
+  -- create missing profiles
+  insert into public.users (email, first_name, last_name)
+  select lower(u.email), u.first_name, u.last_name
+  from jsonb_to_recordset(_users) as u(email text, first_name text, last_name text)
+  where not exists (
+    select 1
+    from public.users existing
+    where lower(existing.email) = lower(u.email)
+  );
+
+  -- link managers once every imported profile exists
+  update public.users target
+  set manager_id = manager.id
+  from jsonb_to_recordset(_users) as u(email text, manager_email text)
+  left join public.users manager on lower(manager.email) = lower(u.manager_email)
+  where lower(target.email) = lower(u.email)
+  and target.manager_id is distinct from manager.id;
+
+  -- the application rejects cycles up front; this guards against concurrent edits
+  if exists (
+    with recursive chain(start_id, manager_id, depth) as (
+      select id, manager_id, 1
+      from public.users
+      where manager_id is not null
+      union all
+      select chain.start_id, u.manager_id, chain.depth + 1
+      from chain
+      join public.users u on u.id = chain.manager_id
+      where u.manager_id is not null
+      and chain.start_id <> chain.manager_id
+      and chain.depth < 1000
+    )
+    select 1 from chain where chain.manager_id = chain.start_id
+  ) then
+    raise exception 'manager hierarchy contains a cycle' using errcode = '23514';
+  end if;
+end;
+$$ language plpgsql;
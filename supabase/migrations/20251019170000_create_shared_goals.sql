@@ -0,0 +1,124 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019170000_create_shared_goals.sql
+-- Purpose: Shared team goals - one goal definition assigned to several employees
+-- Affected tables: public.shared_goals (new), public.goals
+-- Notes:
+--   - shared_goals holds the definition (title, description, category);
+--     every assignment stays a row in public.goals with its own weight and
+--     its own self/manager assessments
+--   - goals keep a copy of the definition fields so that existing queries,
+--     reports and the unique_goal_per_process_user constraint keep working;
+--     a trigger propagates definition changes to all assignments
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+-- Shared goals - definitions assigned to several employees of a process
+create table public.shared_goals (
+  id uuid primary key default gen_random_uuid(),
+  assessment_process_id uuid not null references public.assessment_processes(id) on delete cascade,
+  category_id uuid references public.goal_categories(id),
+  title text not null,
+  description text,
+  created_by uuid references public.users(id) on delete set null on update cascade,
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+-- Enable RLS for shared goals
+alter table public.shared_goals enable row level security;
+
+create index idx_shared_goals_assessment_process_id on public.shared_goals(assessment_process_id);
+
+create trigger set_updated_at_shared_goals
+before update on public.shared_goals
+for each row execute function public.set_updated_at();
+
+-- Assignment of a goal to the shared definition it was created from
+alter table public.goals
+add column shared_goal_id uuid references public.shared_goals(id) on delete set null;
+
+create index idx_goals_shared_goal_id on public.goals(shared_goal_id);
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Copies definition changes to every assignment.
+-- Security definer so that assignments of all employees are kept in sync.
+create or replace function public.sync_shared_goal_assignments()
+returns trigger as $$
+begin
+  update public.goals
+  set title = new.title, description = new.description, category_id = new.category_id
+  where shared_goal_id = new.id;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger sync_shared_goal_assignments
+after update of title, description, category_id on public.shared_goals
+for each row execute function public.sync_shared_goal_assignments();
+
+-- Removes a definition once its last assignment is deleted
+create or replace function public.delete_orphaned_shared_goal()
+returns trigger as $$
+begin
+  delete from public.shared_goals s
+  where s.id = old.shared_goal_id
+  and not exists (select 1 from public.goals g where g.shared_goal_id = s.id);
+  return old;
+end;
+$$ language plpgsql security definer;
+
+create trigger delete_orphaned_shared_goal
+after delete on public.goals
+for each row
+when (old.shared_goal_id is not null)
+execute function public.delete_orphaned_shared_goal();
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Select: Authors and everyone who can see one of the assignments
+create policy "Users can view shared goals of visible assignments"
+on public.shared_goals for select
+to authenticated
+using (
+  created_by = auth.uid()
+  or exists (select 1 from public.goals g where g.shared_goal_id = shared_goals.id)
+);
+
+-- Insert: Managers can create shared goals as themselves
+create policy "Managers can create shared goals"
+on public.shared_goals for insert
+to authenticated
+with check (
+  created_by = auth.uid()
+  and exists (select 1 from public.users u where u.manager_id = auth.uid())
+);
+
+-- Update: Authors and managers of an assigned employee can edit the definition
+create policy "Managers can update shared goals of their reports"
+on public.shared_goals for update
+to authenticated
+using (
+  created_by = auth.uid()
+  or exists (
+    select 1
+    from public.goals g
+    join public.users u on u.id = g.user_id
+    where g.shared_goal_id = shared_goals.id
+    and u.manager_id = auth.uid()
+  )
+)
+with check (true);
+
+-- Delete: Authors can remove a definition (assignments are unlinked, not deleted)
+create policy "Authors can delete shared goals"
+on public.shared_goals for delete
+to authenticated
+using (created_by = auth.uid());
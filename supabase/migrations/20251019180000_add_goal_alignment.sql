@@ -0,0 +1,91 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019180000_add_goal_alignment.sql
+-- Purpose: Cascading goals - link an employee's goal to a goal of their manager
+-- Affected tables: public.goals, public.users (policies only)
+-- Notes:
+--   - a parent goal must belong to the direct manager of the goal owner and to
+--     the same assessment process (enforced by a trigger)
+--   - managers can read profiles and goals of their whole reporting line so
+--     that directors can see how their goals decompose down the hierarchy
+--   - employees can read the goals of their manager to pick a parent goal
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+alter table public.goals
+add column parent_goal_id uuid references public.goals(id) on delete set null;
+
+create index idx_goals_parent_goal_id on public.goals(parent_goal_id);
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Checks whether an employee reports (directly or indirectly) to the given manager.
+-- Security definer so that it can walk the hierarchy regardless of users RLS.
+create or replace function public.is_in_reporting_line(_employee_id uuid, _manager_id uuid)
+returns boolean as $$
+  with recursive chain as (
+    select u.id, u.manager_id, 1 as depth
+    from public.users u
+    where u.id = _employee_id
+    union all
+    select u.id, u.manager_id, c.depth + 1
+    from public.users u
+    join chain c on u.id = c.manager_id
+    where c.depth < 50
+  )
+  select exists (select 1 from chain where manager_id = _manager_id);
+$$ language sql stable security definer;
+
+-- Validates that the parent goal belongs to the owner's manager in the same process
+create or replace function public.check_goal_parent()
+returns trigger as $$
+begin
+  if new.parent_goal_id is null then
+    return new;
+  end if;
+
+  if not exists (
+    select 1
+    from public.goals p
+    join public.users u on u.manager_id = p.user_id
+    where p.id = new.parent_goal_id
+    and p.assessment_process_id = new.assessment_process_id
+    and u.id = new.user_id
+  ) then
+    raise exception 'Parent goal must belong to the manager of the goal owner in the same process'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger check_goal_parent
+before insert or update of parent_goal_id, user_id, assessment_process_id on public.goals
+for each row execute function public.check_goal_parent();
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Select: Managers can view profiles of their whole reporting line
+create policy "Managers can view their reporting line"
+on public.users for select
+to authenticated
+using (public.is_in_reporting_line(id, auth.uid()));
+
+-- Select: Managers can view goals of their whole reporting line
+create policy "Managers can view goals of their reporting line"
+on public.goals for select
+to authenticated
+using (public.is_in_reporting_line(user_id, auth.uid()));
+
+-- Select: Employees can view the goals of their manager (to align their own goals)
+create policy "Employees can view their manager's goals"
+on public.goals for select
+to authenticated
+using (user_id = (select u.manager_id from public.users u where u.id = auth.uid()));
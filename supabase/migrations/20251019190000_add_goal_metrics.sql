@@ -0,0 +1,53 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019190000_add_goal_metrics.sql
+-- Purpose: Measurable goals - optional metric with baseline, target and actual value
+-- Affected tables: public.goals
+-- Notes:
+--   - all metric columns are optional; a goal is measurable when metric_name is set
+--   - the actual value is recorded by the goal owner during self-assessment;
+--     owners cannot update their goals directly, hence a security definer function
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+alter table public.goals
+add column metric_name text,
+add column metric_unit text,
+add column baseline_value numeric,
+add column target_value numeric,
+add column actual_value numeric;
+
+-- A measurable goal needs a target different from its baseline
+alter table public.goals
+add constraint goals_metric_target_check check (
+  metric_name is null
+  or (target_value is not null and target_value is distinct from baseline_value)
+);
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Records the actual value of a measurable goal.
+-- Allowed for the goal owner and their manager.
+create or replace function public.set_goal_actual_value(_goal_id uuid, _actual_value numeric)
+returns void as $$
+begin
+  if not exists (
+    select 1
+    from public.goals g
+    join public.users u on u.id = g.user_id
+    where g.id = _goal_id
+    and (g.user_id = auth.uid() or u.manager_id = auth.uid())
+  ) then
+    raise exception 'Not allowed to record the actual value of this goal'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.goals
+  set actual_value = _actual_value
+  where id = _goal_id;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,84 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251019200000_create_goal_progress_updates.sql
+-- Purpose: Mid-year check-ins - progress log on goals with manager replies
+-- Affected tables: public.goal_progress_updates (new), assessment_process_status (new value)
+-- Notes:
+--   - adds the optional 'in_progress' phase between goal definition and self-assessment
+--   - a progress entry is posted by the goal owner (percentage complete and note);
+--     a reply is posted by the owner's manager and points to the entry it answers
+--   - entries can only be posted in the 'in_progress' and 'in_self_assessment' phases;
+--     the phase is checked by the api because the new enum value cannot be used
+--     in the same transaction it is added in
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- TYPES
+-- -----------------------------------------------------------------------------
+
+alter type assessment_process_status add value if not exists 'in_progress' after 'in_definition';
+
+-- -----------------------------------------------------------------------------
+-- TABLES
+-- -----------------------------------------------------------------------------
+
+create table public.goal_progress_updates (
+  id uuid primary key default gen_random_uuid(),
+  goal_id uuid not null references public.goals(id) on delete cascade,
+  author_id uuid not null references public.users(id) on delete cascade,
+  reply_to_id uuid references public.goal_progress_updates(id) on delete cascade,
+  progress integer, -- percentage complete, only for entries
+  note text not null,
+  entry_date date not null default current_date,
+  created_at timestamp with time zone default now() not null,
+
+  constraint valid_progress check (progress >= 0 and progress <= 100),
+  -- Entries carry the progress, replies only a note
+  constraint progress_only_on_entries check ((reply_to_id is null) = (progress is not null))
+);
+
+create index idx_goal_progress_updates_goal_id on public.goal_progress_updates(goal_id);
+create index idx_goal_progress_updates_reply_to_id on public.goal_progress_updates(reply_to_id);
+
+alter table public.goal_progress_updates enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+-- Select: Employees can view the progress log of their own goals
+create policy "Employees can view progress of own goals"
+on public.goal_progress_updates for select
+to authenticated
+using (goal_id in (select id from public.goals where user_id = auth.uid()));
+
+-- Select: Managers can view the progress log of their subordinates' goals
+create policy "Managers can view progress of subordinates' goals"
+on public.goal_progress_updates for select
+to authenticated
+using (goal_id in (select id from public.goals where user_id in (select id from public.users where manager_id = auth.uid())));
+
+-- Select: Admins can view all progress logs
+create policy "Admins can view all progress updates"
+on public.goal_progress_updates for select
+to authenticated
+using (public.is_admin(auth.uid()));
+
+-- Insert: Employees can post progress entries on their own goals
+create policy "Employees can create progress entries on own goals"
+on public.goal_progress_updates for insert
+to authenticated
+with check (
+  author_id = auth.uid()
+  and reply_to_id is null
+  and goal_id in (select id from public.goals where user_id = auth.uid())
+);
+
+-- Insert: Managers can reply to progress entries on their subordinates' goals
+create policy "Managers can reply to progress of subordinates' goals"
+on public.goal_progress_updates for insert
+to authenticated
+with check (
+  author_id = auth.uid()
+  and reply_to_id is not null
+  and goal_id in (select id from public.goals where user_id in (select id from public.users where manager_id = auth.uid()))
+);
@@ -0,0 +1,75 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020090000_restrict_shared_goal_updates.sql
+-- Purpose: Keep shared goal definitions from rewriting goals past the definition phase
+-- Affected tables: public.shared_goals
+-- Notes:
+--   - 20251019170000_create_shared_goals.sql copied definition changes to every
+--     assignment, including employees already in self-assessment or later
+--   - a definition can now change only while every assignee (participant status,
+--     or the process status for employees without their own row) is still in
+--     'in_definition'; otherwise the whole update is rejected
+--   - the update policy checks the new row with the same ownership condition as
+--     the old one instead of accepting any row
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Copies definition changes to every assignment, or rejects the change when an
+-- assignee has already finished defining goals.
+-- Security definer so that assignments of all employees are checked and kept in sync.
+create or replace function public.sync_shared_goal_assignments()
+returns trigger as $$
+begin
+  if exists (
+    select 1
+    from public.goals g
+    join public.assessment_processes ap on ap.id = g.assessment_process_id
+    left join public.process_participants pp
+      on pp.assessment_process_id = g.assessment_process_id
+      and pp.user_id = g.user_id
+    where g.shared_goal_id = new.id
+    and coalesce(pp.status, ap.status) <> 'in_definition'
+  ) then
+    raise exception 'shared goal % has assignees past the definition phase', new.id
+      using errcode = '23514';
+  end if;
+
+  update public.goals
+  set title = new.title, description = new.description, category_id = new.category_id
+  where shared_goal_id = new.id;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+drop policy "Managers can update shared goals of their reports" on public.shared_goals;
+
+-- Update: Authors and managers of an assigned employee can edit the definition
+create policy "Managers can update shared goals of their reports"
+on public.shared_goals for update
+to authenticated
+using (
+  created_by = auth.uid()
+  or exists (
+    select 1
+    from public.goals g
+    join public.users u on u.id = g.user_id
+    where g.shared_goal_id = shared_goals.id
+    and u.manager_id = auth.uid()
+  )
+)
+with check (
+  created_by = auth.uid()
+  or exists (
+    select 1
+    from public.goals g
+    join public.users u on u.id = g.user_id
+    where g.shared_goal_id = shared_goals.id
+    and u.manager_id = auth.uid()
+  )
+);
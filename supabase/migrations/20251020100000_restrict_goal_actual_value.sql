@@ -0,0 +1,49 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020100000_restrict_goal_actual_value.sql
+-- Purpose: Limit recording the actual value of a goal to the assessment phases
+-- Affected functions: public.set_goal_actual_value
+-- Notes:
+--   - 20251019190000_add_goal_metrics.sql checked only who may record the value,
+--     so the owner could still change it after the manager assessment or after
+--     the process was completed (the value feeds the PDF report)
+--   - the owner may record it only in 'in_self_assessment' and the manager only
+--     in 'awaiting_manager_assessment', using the participant status or the
+--     process status for employees without their own row
+--   - the function can no longer be called by anonymous users
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Records the actual value of a measurable goal.
+-- Allowed for the goal owner during self-assessment and for their manager during the manager assessment.
+create or replace function public.set_goal_actual_value(_goal_id uuid, _actual_value numeric)
+returns void as $$
+begin
+  if not exists (
+    select 1
+    from public.goals g
+    join public.users u on u.id = g.user_id
+    join public.assessment_processes ap on ap.id = g.assessment_process_id
+    left join public.process_participants pp
+      on pp.assessment_process_id = g.assessment_process_id
+      and pp.user_id = g.user_id
+    where g.id = _goal_id
+    and (
+      (g.user_id = auth.uid() and coalesce(pp.status, ap.status) = 'in_self_assessment')
+      or (u.manager_id = auth.uid() and coalesce(pp.status, ap.status) = 'awaiting_manager_assessment')
+    )
+  ) then
+    raise exception 'Not allowed to record the actual value of this goal'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  update public.goals
+  set actual_value = _actual_value
+  where id = _goal_id;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function public.set_goal_actual_value(uuid, numeric) from public, anon;
+grant execute on function public.set_goal_actual_value(uuid, numeric) to authenticated;
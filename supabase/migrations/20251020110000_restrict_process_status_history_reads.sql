@@ -0,0 +1,29 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020110000_restrict_process_status_history_reads.sql
+-- Purpose: Keep participant status transitions visible only to the people involved
+-- Affected tables: public.process_status_history
+-- Notes:
+--   - 20251019110000_create_process_status_history.sql let every authenticated
+--     user read the whole history; since 20251019120000_create_process_participants.sql
+--     it also holds per-employee transitions with free-text reasons
+--   - per-employee rows are visible to the employee, their manager and admins
+--   - process-level rows (employee_id is null) stay visible to all authenticated
+--     users, like the process status itself
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+drop policy "Authenticated users can view process status history" on public.process_status_history;
+
+-- Select: Process-level transitions for everyone; participant transitions for the employee, their manager and admins
+create policy "Users can view process and own or subordinates status history"
+on public.process_status_history for select
+to authenticated
+using (
+  employee_id is null
+  or employee_id = auth.uid()
+  or exists (select 1 from public.users u where u.id = employee_id and u.manager_id = auth.uid())
+  or public.is_admin(auth.uid())
+);
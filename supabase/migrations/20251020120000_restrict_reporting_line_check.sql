@@ -0,0 +1,38 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020120000_restrict_reporting_line_check.sql
+-- Purpose: Stop the reporting line check from exposing the management hierarchy
+-- Affected functions: public.is_in_reporting_line
+-- Notes:
+--   - 20251019180000_add_goal_alignment.sql created the function as security
+--     definer and callable by everyone, so any user could ask over RPC whether
+--     any two people are in one reporting line, bypassing users RLS
+--   - the function now answers only for the caller's own reporting line, or
+--     for any pair when the caller is an admin; policies always pass auth.uid()
+--   - anonymous users can no longer call it
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Checks whether an employee reports (directly or indirectly) to the given manager.
+-- Security definer so that it can walk the hierarchy regardless of users RLS;
+-- other users' reporting lines can be checked by admins only.
+create or replace function public.is_in_reporting_line(_employee_id uuid, _manager_id uuid)
+returns boolean as $$
+  with recursive chain as (
+    select u.id, u.manager_id, 1 as depth
+    from public.users u
+    where u.id = _employee_id
+    union all
+    select u.id, u.manager_id, c.depth + 1
+    from public.users u
+    join chain c on u.id = c.manager_id
+    where c.depth < 50
+  )
+  select (_manager_id = auth.uid() or public.is_admin(auth.uid()))
+    and exists (select 1 from chain where manager_id = _manager_id);
+$$ language sql stable security definer;
+
+revoke execute on function public.is_in_reporting_line(uuid, uuid) from public, anon;
+grant execute on function public.is_in_reporting_line(uuid, uuid) to authenticated;
@@ -0,0 +1,60 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020130000_get_reporting_line_goals.sql
+-- Purpose: Fetch the goals of a whole reporting line in one query for the goal alignment tree
+-- Affected functions: public.get_reporting_line_goals (new)
+-- Notes:
+--   - the application used to load every visible user, walk the hierarchy in
+--     memory and send the ids of the whole reporting line in the request URL,
+--     which for directors and admins meant every employee of the company
+--   - the function walks the hierarchy down from the given employee in SQL
+--   - security invoker: users and goals RLS decide which rows the caller gets
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Returns the goals in a process of an employee and everyone reporting to them
+-- (directly or indirectly), with the owner's name and manager.
+create or replace function public.get_reporting_line_goals(_process_id uuid, _employee_id uuid)
+returns table (
+  id uuid,
+  title text,
+  weight integer,
+  user_id uuid,
+  parent_goal_id uuid,
+  category_id uuid,
+  category_name text,
+  owner_first_name text,
+  owner_last_name text,
+  owner_manager_id uuid
+) as $$
+  with recursive reporting_line as (
+    select u.id, u.first_name, u.last_name, u.manager_id, 1 as depth
+    from public.users u
+    where u.id = _employee_id
+    union all
+    select u.id, u.first_name, u.last_name, u.manager_id, r.depth + 1
+    from public.users u
+    join reporting_line r on u.manager_id = r.id
+    where r.depth < 50
+  )
+  select
+    g.id,
+    g.title,
+    g.weight,
+    g.user_id,
+    g.parent_goal_id,
+    c.id,
+    c.name,
+    r.first_name,
+    r.last_name,
+    r.manager_id
+  from reporting_line r
+  join public.goals g on g.user_id = r.id and g.assessment_process_id = _process_id
+  left join public.goal_categories c on c.id = g.category_id
+  order by g.weight desc;
+$$ language sql stable security invoker;
+
+revoke execute on function public.get_reporting_line_goals(uuid, uuid) from public, anon;
+grant execute on function public.get_reporting_line_goals(uuid, uuid) to authenticated;
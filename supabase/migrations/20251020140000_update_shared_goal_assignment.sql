@@ -0,0 +1,69 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020140000_update_shared_goal_assignment.sql
+-- Purpose: Save a shared goal definition and the edited assignment in one transaction
+-- Affected functions: public.update_shared_goal_assignment (new)
+-- Notes:
+--   - the goal API used to update shared_goals (copied to every assignee by
+--     sync_shared_goal_assignments) and then the edited assignment separately;
+--     when the second write failed, the definition change had already reached
+--     every teammate
+--   - the function does both writes, so either both are saved or neither is
+--   - security invoker: the shared_goals and goals policies still decide who
+--     may change what
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Updates the definition of the shared goal behind an assignment together with the
+-- assignment's own columns. _assignment holds the columns to change (weight,
+-- parent_goal_id and metric columns); omitted keys keep their current values.
+create or replace function public.update_shared_goal_assignment(
+  _goal_id uuid,
+  _title text,
+  _description text,
+  _category_id uuid,
+  _assignment jsonb
+)
+returns void as $$
+declare
+  _current public.goals;
+  _patched public.goals;
+  _shared_goal_id uuid;
+begin
+  select * into _current from public.goals where id = _goal_id;
+
+  update public.shared_goals
+  set title = _title, description = _description, category_id = _category_id
+  where id = _current.shared_goal_id
+  returning id into _shared_goal_id;
+
+  -- RLS hides the shared goal from users who may not change the definition
+  if _shared_goal_id is null then
+    raise exception 'Not allowed to change the definition of this shared goal'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  _patched := jsonb_populate_record(_current, _assignment);
+
+  update public.goals
+  set
+    weight = _patched.weight,
+    parent_goal_id = _patched.parent_goal_id,
+    metric_name = _patched.metric_name,
+    metric_unit = _patched.metric_unit,
+    baseline_value = _patched.baseline_value,
+    target_value = _patched.target_value,
+    actual_value = _patched.actual_value
+  where id = _goal_id;
+
+  if not found then
+    raise exception 'Not allowed to update this goal'
+      using errcode = 'insufficient_privilege';
+  end if;
+end;
+$$ language plpgsql security invoker;
+
+revoke execute on function public.update_shared_goal_assignment(uuid, text, text, uuid, jsonb) from public, anon;
+grant execute on function public.update_shared_goal_assignment(uuid, text, text, uuid, jsonb) to authenticated;
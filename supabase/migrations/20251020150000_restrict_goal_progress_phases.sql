@@ -0,0 +1,60 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020150000_restrict_goal_progress_phases.sql
+-- Purpose: Allow progress entries and replies only in the progress phases
+-- Affected tables: public.goal_progress_updates
+-- Notes:
+--   - 20251019200000_create_goal_progress_updates.sql left the phase check to
+--     the api, because 'in_progress' could not be used in the transaction that
+--     added it; entries could still be posted at any phase through PostgREST
+--   - the insert policies now also require the goal owner to be in
+--     'in_progress' or 'in_self_assessment', using the participant status or
+--     the process status for employees without their own row
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY POLICIES
+-- -----------------------------------------------------------------------------
+
+drop policy "Employees can create progress entries on own goals" on public.goal_progress_updates;
+drop policy "Managers can reply to progress of subordinates' goals" on public.goal_progress_updates;
+
+-- Insert: Employees can post progress entries on their own goals during the progress phases
+create policy "Employees can create progress entries on own goals"
+on public.goal_progress_updates for insert
+to authenticated
+with check (
+  author_id = auth.uid()
+  and reply_to_id is null
+  and exists (
+    select 1
+    from public.goals g
+    join public.assessment_processes ap on ap.id = g.assessment_process_id
+    left join public.process_participants pp
+      on pp.assessment_process_id = g.assessment_process_id
+      and pp.user_id = g.user_id
+    where g.id = goal_id
+    and g.user_id = auth.uid()
+    and coalesce(pp.status, ap.status) in ('in_progress', 'in_self_assessment')
+  )
+);
+
+-- Insert: Managers can reply to progress entries on their subordinates' goals during the progress phases
+create policy "Managers can reply to progress of subordinates' goals"
+on public.goal_progress_updates for insert
+to authenticated
+with check (
+  author_id = auth.uid()
+  and reply_to_id is not null
+  and exists (
+    select 1
+    from public.goals g
+    join public.users u on u.id = g.user_id
+    join public.assessment_processes ap on ap.id = g.assessment_process_id
+    left join public.process_participants pp
+      on pp.assessment_process_id = g.assessment_process_id
+      and pp.user_id = g.user_id
+    where g.id = goal_id
+    and u.manager_id = auth.uid()
+    and coalesce(pp.status, ap.status) in ('in_progress', 'in_self_assessment')
+  )
+);
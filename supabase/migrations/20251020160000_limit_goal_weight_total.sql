@@ -0,0 +1,43 @@
+-- -----------------------------------------------------------------------------
+-- Migration: 20251020160000_limit_goal_weight_total.sql
+-- Purpose: Keep the total weight of an employee's goals in a process within 100%
+-- Affected tables: public.goals
+-- Notes:
+--   - the limit was checked only by the api before inserting, so concurrent
+--     requests (single goals, bulk goals, shared goals, copies or imports)
+--     could together push the total past 100%
+--   - a trigger now sums the employee's other goals; an advisory lock per
+--     employee and process makes concurrent writes wait for each other
+--   - a total below 100% is still allowed while goals are being defined
+-- -----------------------------------------------------------------------------
+
+-- -----------------------------------------------------------------------------
+-- FUNCTIONS
+-- -----------------------------------------------------------------------------
+
+-- Rejects a goal that would make the employee's goals in the process exceed 100%.
+-- Security definer so that goals hidden from the caller by RLS are counted too.
+create or replace function public.check_goal_weight_total()
+returns trigger as $$
+begin
+  perform pg_advisory_xact_lock(hashtext(new.user_id::text || ':' || new.assessment_process_id::text));
+
+  if new.weight + coalesce((
+    select sum(g.weight)
+    from public.goals g
+    where g.user_id = new.user_id
+    and g.assessment_process_id = new.assessment_process_id
+    and g.id <> new.id
+  ), 0) > 100 then
+    raise exception 'Total weight of goals of user % in process % would exceed 100%%',
+      new.user_id, new.assessment_process_id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger check_goal_weight_total
+before insert or update of weight, user_id, assessment_process_id on public.goals
+for each row execute function public.check_goal_weight_total();